@@ -2,23 +2,30 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { lazy, Suspense } from "react";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { Loader2 } from "lucide-react";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ReportProvider } from "@/contexts/ReportContext";
 import { ThemeProvider } from "@/components/ThemeProvider";
 import { ErrorBoundary } from 'react-error-boundary';
 
 import Layout from "./components/Layout";
+import RouteGuard from "./components/RouteGuard";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Dashboard from "./pages/Dashboard";
 import ReportIssue from "./pages/ReportIssue";
 import ViewIssue from "./pages/ViewIssue";
-import AdminDashboard from "./pages/AdminDashboard";
 import NotFound from "./pages/NotFound";
 import MapView from "./pages/MapView";
 import Profile from "./pages/Profile";
+import NotificationPreferences from "./pages/NotificationPreferences";
+
+// Admin pages are only fetched by the users who can open them
+const AdminDashboard = lazy(() => import("./pages/AdminDashboard"));
+const AdminUsers = lazy(() => import("./pages/AdminUsers"));
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -33,6 +40,14 @@ const queryClient = new QueryClient({
   },
 });
 
+function PageLoader() {
+  return (
+    <div className="flex justify-center py-16">
+      <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+    </div>
+  );
+}
+
 function ErrorFallback({ error }: { error: Error }) {
   return (
     <div className="min-h-screen flex items-center justify-center bg-background">
@@ -65,12 +80,26 @@ const App = () => (
                     <Route index element={<Index />} />
                     <Route path="login" element={<Login />} />
                     <Route path="register" element={<Register />} />
-                    <Route path="dashboard" element={<Dashboard />} />
-                    <Route path="report" element={<ReportIssue />} />
                     <Route path="issue/:id" element={<ViewIssue />} />
                     <Route path="map" element={<MapView />} />
-                    <Route path="profile" element={<Profile />} />
-                    <Route path="admin" element={<AdminDashboard />} />
+                    <Route element={<RouteGuard access={{ auth: true }} />}>
+                      <Route path="dashboard" element={<Dashboard />} />
+                      <Route path="report" element={<ReportIssue />} />
+                      <Route path="profile" element={<Profile />} />
+                      <Route path="profile/notifications" element={<NotificationPreferences />} />
+                    </Route>
+                    <Route element={<RouteGuard access={{ permission: 'dashboard:view' }} />}>
+                      <Route
+                        path="admin"
+                        element={<Suspense fallback={<PageLoader />}><AdminDashboard /></Suspense>}
+                      />
+                    </Route>
+                    <Route element={<RouteGuard access={{ permission: 'users:manage' }} />}>
+                      <Route
+                        path="admin/users"
+                        element={<Suspense fallback={<PageLoader />}><AdminUsers /></Suspense>}
+                      />
+                    </Route>
                     <Route path="*" element={<NotFound />} />
                   </Route>
                 </Routes>
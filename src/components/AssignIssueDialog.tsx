@@ -0,0 +1,94 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import AssigneePicker from '@/components/AssigneePicker';
+import { useReports, type Report } from '@/contexts/ReportContext';
+import type { StaffMember } from '@/lib/types/issue';
+
+interface AssignIssueDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  issue: Report;
+}
+
+const AssignIssueDialog: React.FC<AssignIssueDialogProps> = ({ open, onOpenChange, issue }) => {
+  const { updateReport } = useReports();
+  const [assignee, setAssignee] = React.useState<StaffMember | null>(null);
+  const [note, setNote] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setAssignee(issue.assignedTo ?? null);
+    setNote('');
+  }, [open, issue.assignedTo]);
+
+  const unchanged = (assignee?.id ?? null) === (issue.assignedTo?.id ?? null);
+
+  const handleAssign = async () => {
+    setIsSubmitting(true);
+    try {
+      await updateReport(
+        issue.id,
+        { assignedTo: assignee ? { id: assignee.id, name: assignee.name } : undefined },
+        note
+      );
+      toast({
+        title: assignee ? "Issue Assigned" : "Issue Unassigned",
+        description: assignee ? `Assigned to ${assignee.name}.` : "The issue no longer has an assignee.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error assigning issue:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to assign the issue. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{issue.assignedTo ? 'Reassign Issue' : 'Assign Issue'}</DialogTitle>
+          <DialogDescription>
+            {issue.assignedTo ? <>Currently assigned to <strong>{issue.assignedTo.name}</strong>.</> : 'Not assigned yet.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="assignee">Assignee</Label>
+            <AssigneePicker id="assignee" value={assignee?.id} onChange={setAssignee} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="assignNote">Note (optional)</Label>
+            <Textarea
+              id="assignNote"
+              placeholder="Why is this issue being handed over? Shown in the issue's history."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="min-h-[100px]"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={isSubmitting || unchanged}>
+            {isSubmitting ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AssignIssueDialog;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useStaffWorkload } from '@/hooks/use-staff';
+import type { StaffMember } from '@/lib/types/issue';
+
+const UNASSIGNED = 'unassigned';
+
+interface AssigneePickerProps {
+  value?: string;
+  onChange: (assignee: StaffMember | null) => void;
+  id?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Staff to assign an issue to, least busy first, with their open workload
+const AssigneePicker: React.FC<AssigneePickerProps> = ({ value, onChange, id, disabled, className }) => {
+  const { data: workloads = [], isLoading } = useStaffWorkload();
+  const staff = [...workloads].sort((a, b) => a.open - b.open || a.staff.name.localeCompare(b.staff.name));
+
+  const handleChange = (staffId: string) => {
+    onChange(staff.find(workload => workload.staff.id === staffId)?.staff ?? null);
+  };
+
+  return (
+    <Select value={value || UNASSIGNED} onValueChange={handleChange} disabled={disabled || isLoading}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={isLoading ? 'Loading staff...' : 'Assign to...'} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {staff.map(({ staff: member, open }) => (
+          <SelectItem key={member.id} value={member.id}>
+            {member.name}
+            <span className="ml-2 text-xs text-muted-foreground">{open} open</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default AssigneePicker;
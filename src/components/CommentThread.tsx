@@ -0,0 +1,425 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { formatDistanceToNow, format } from 'date-fns';
+import { History, Loader2, MessageSquare, Pencil, Reply, Trash2 } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useReports, ReportComment } from '@/contexts/ReportContext';
+import { useCommentRevisions } from '@/hooks/use-issues';
+import { can, ROLE_LABELS } from '@/lib/permissions';
+import { cn } from '@/lib/utils';
+
+// Deeper replies are still threaded but stop indenting
+const MAX_INDENT = 3;
+
+interface CommentNode {
+  comment: ReportComment;
+  replies: CommentNode[];
+}
+
+// Comments arrive flat and oldest first. Replies whose parent is missing are
+// shown at the top level rather than dropped.
+const buildThreads = (comments: ReportComment[]): CommentNode[] => {
+  const nodes = new Map(comments.map(comment => [comment.id, { comment, replies: [] } as CommentNode]));
+  const roots: CommentNode[] = [];
+  comments.forEach((comment) => {
+    const node = nodes.get(comment.id);
+    const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+    if (parent) parent.replies.push(node);
+    else roots.push(node);
+  });
+  return roots;
+};
+
+const showError = (description: string, error: unknown) => {
+  console.error(description, error);
+  toast({
+    title: "Error",
+    description,
+    variant: "destructive",
+  });
+};
+
+interface CommentFormProps {
+  initialText?: string;
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (text: string) => Promise<void>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({
+  initialText = '',
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  autoFocus = false,
+}) => {
+  const [text, setText] = useState(initialText);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(text.trim());
+      setText('');
+    } catch {
+      // The caller reports the error; keep the text so it can be retried
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        placeholder={placeholder}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="resize-none"
+        disabled={isSubmitting}
+        autoFocus={autoFocus}
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={!text.trim() || isSubmitting}>
+          {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+interface CommentHistoryDialogProps {
+  comment: ReportComment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CommentHistoryDialog: React.FC<CommentHistoryDialogProps> = ({ comment, onOpenChange }) => {
+  const { data: revisions = [], isLoading } = useCommentRevisions(comment?.id ?? '', { enabled: !!comment });
+
+  return (
+    <Dialog open={!!comment} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ol className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {comment && !comment.deletedAt && (
+              <li className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground mb-1">Current</p>
+                <p className="text-sm whitespace-pre-line">{comment.text}</p>
+              </li>
+            )}
+            {[...revisions].reverse().map(revision => (
+              <li key={revision.id} className="rounded-md bg-muted/50 p-3">
+                <p className="text-xs text-muted-foreground mb-1">
+                  Until {format(new Date(revision.replacedAt), 'PPp')}
+                </p>
+                <p className="text-sm whitespace-pre-line">{revision.text}</p>
+              </li>
+            ))}
+            {revisions.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No earlier versions.</p>
+            )}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface CommentItemProps {
+  node: CommentNode;
+  issueId: string;
+  depth: number;
+  onShowHistory: (comment: ReportComment) => void;
+  onDelete: (comment: ReportComment) => void;
+}
+
+const CommentItem: React.FC<CommentItemProps> = ({ node, issueId, depth, onShowHistory, onDelete }) => {
+  const { comment, replies } = node;
+  const { currentUser, isAuthenticated } = useAuth();
+  const { addComment, editComment } = useReports();
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+
+  const isDeleted = !!comment.deletedAt;
+  const isPending = comment.id.startsWith('pending-');
+  const isAuthor = currentUser?.id === comment.user.id;
+  const canModerate = can(currentUser, 'comment:moderate', { ownerId: comment.user.id });
+  const canEdit = isAuthor && !isDeleted && !isPending;
+  const canDelete = (isAuthor || canModerate) && !isDeleted && !isPending;
+
+  const handleReply = async (text: string) => {
+    try {
+      await addComment(issueId, {
+        text,
+        parentId: comment.id,
+        user: {
+          id: currentUser.id,
+          name: currentUser.name,
+          role: currentUser.role,
+        },
+      });
+      setMode('view');
+    } catch (error) {
+      showError("There was a problem posting your reply.", error);
+      throw error;
+    }
+  };
+
+  const handleEdit = async (text: string) => {
+    try {
+      if (text !== comment.text) await editComment(issueId, comment.id, text);
+      setMode('view');
+    } catch (error) {
+      showError("There was a problem saving your changes.", error);
+      throw error;
+    }
+  };
+
+  return (
+    <div className={cn(depth > 0 && depth <= MAX_INDENT && "ml-6 border-l pl-4")}>
+      <div className="bg-muted/50 rounded-lg p-4">
+        <div className="flex justify-between items-start mb-3">
+          <div className="flex items-center gap-2">
+            <Avatar className="h-8 w-8">
+              <AvatarFallback>{comment.user.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div>
+              <p className="font-medium flex items-center gap-2">
+                {comment.user.name}
+                {comment.user.role !== 'citizen' && (
+                  <Badge variant="secondary" className="text-xs">{ROLE_LABELS[comment.user.role]}</Badge>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                {comment.editedAt && !isDeleted && (
+                  <button
+                    type="button"
+                    className="ml-1 underline-offset-2 hover:underline"
+                    onClick={() => onShowHistory(comment)}
+                  >
+                    · edited
+                  </button>
+                )}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {mode === 'edit' ? (
+          <CommentForm
+            initialText={comment.text}
+            placeholder="Edit your comment..."
+            submitLabel="Save"
+            onSubmit={handleEdit}
+            onCancel={() => setMode('view')}
+            autoFocus
+          />
+        ) : isDeleted ? (
+          <p className="text-sm italic text-muted-foreground">This comment was deleted.</p>
+        ) : (
+          <p className="text-sm whitespace-pre-line leading-relaxed">{comment.text}</p>
+        )}
+
+        {mode !== 'edit' && (
+          <div className="flex flex-wrap gap-1 mt-2 -ml-2">
+            {isAuthenticated && !isDeleted && !isPending && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setMode('reply')}>
+                <Reply className="mr-1 h-3.5 w-3.5" />
+                Reply
+              </Button>
+            )}
+            {canEdit && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setMode('edit')}>
+                <Pencil className="mr-1 h-3.5 w-3.5" />
+                Edit
+              </Button>
+            )}
+            {canDelete && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onDelete(comment)}>
+                <Trash2 className="mr-1 h-3.5 w-3.5" />
+                Delete
+              </Button>
+            )}
+            {isDeleted && (isAuthor || canModerate) && (
+              <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onShowHistory(comment)}>
+                <History className="mr-1 h-3.5 w-3.5" />
+                History
+              </Button>
+            )}
+          </div>
+        )}
+
+        {mode === 'reply' && (
+          <div className="mt-3">
+            <CommentForm
+              placeholder={`Reply to ${comment.user.name}...`}
+              submitLabel="Reply"
+              onSubmit={handleReply}
+              onCancel={() => setMode('view')}
+              autoFocus
+            />
+          </div>
+        )}
+      </div>
+
+      {replies.length > 0 && (
+        <div className="mt-3 space-y-3">
+          {replies.map(reply => (
+            <CommentItem
+              key={reply.comment.id}
+              node={reply}
+              issueId={issueId}
+              depth={depth + 1}
+              onShowHistory={onShowHistory}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CommentThreadProps {
+  issueId: string;
+  comments: ReportComment[];
+}
+
+const CommentThread: React.FC<CommentThreadProps> = ({ issueId, comments }) => {
+  const { currentUser, isAuthenticated } = useAuth();
+  const location = useLocation();
+  const { addComment, deleteComment } = useReports();
+  const [historyFor, setHistoryFor] = useState<ReportComment | null>(null);
+  const [deleting, setDeleting] = useState<ReportComment | null>(null);
+
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+
+  const handleAdd = async (text: string) => {
+    try {
+      await addComment(issueId, {
+        text,
+        user: {
+          id: currentUser.id,
+          name: currentUser.name,
+          role: currentUser.role,
+        },
+      });
+      toast({
+        title: "Comment Added",
+        description: "Your comment has been added to the report."
+      });
+    } catch (error) {
+      showError("There was a problem adding your comment.", error);
+      throw error;
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteComment(issueId, deleting.id);
+    } catch (error) {
+      showError("There was a problem deleting the comment.", error);
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <>
+      {isAuthenticated && currentUser ? (
+        <div className="mb-6">
+          <CommentForm
+            placeholder="Add a comment or update..."
+            submitLabel="Add Comment"
+            onSubmit={handleAdd}
+          />
+        </div>
+      ) : (
+        <div className="bg-muted/50 p-4 rounded-md mb-6 text-center">
+          <p className="text-sm text-muted-foreground mb-2">
+            Please sign in to add comments
+          </p>
+          <Button asChild>
+            <Link to="/login" state={{ from: location }}>Login</Link>
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {threads.length === 0 ? (
+          <div className="text-center py-8">
+            <MessageSquare className="h-12 w-12 text-muted-foreground/50 mx-auto mb-3" />
+            <p className="text-muted-foreground">
+              No comments yet. Be the first to comment!
+            </p>
+          </div>
+        ) : (
+          threads.map(node => (
+            <CommentItem
+              key={node.comment.id}
+              node={node}
+              issueId={issueId}
+              depth={0}
+              onShowHistory={setHistoryFor}
+              onDelete={setDeleting}
+            />
+          ))
+        )}
+      </div>
+
+      <CommentHistoryDialog comment={historyFor} onOpenChange={(open) => !open && setHistoryFor(null)} />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The comment's text will be removed. Replies to it stay in the thread.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Copy, Loader2, MapPin, ThumbsUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import type { DuplicateCandidate } from '@/lib/duplicates';
+import { formatDistance } from '@/lib/geo';
+import type { Issue } from '@/lib/types/issue';
+import { statusLabel } from '@/lib/workflow';
+
+interface DuplicateReportsProps {
+  duplicates: DuplicateCandidate[];
+  currentUserId?: string;
+  onUpvote: (issue: Issue) => Promise<void>;
+  // Whether the user has said their issue is none of these
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+}
+
+// Existing reports that look like the one being written, each with a way to
+// upvote it instead of reporting it again.
+const DuplicateReports: React.FC<DuplicateReportsProps> = ({
+  duplicates,
+  currentUserId,
+  onUpvote,
+  confirmed,
+  onConfirmedChange,
+}) => {
+  const [upvotingId, setUpvotingId] = useState<string | null>(null);
+
+  if (duplicates.length === 0) return null;
+
+  const handleUpvote = async (issue: Issue) => {
+    setUpvotingId(issue.id);
+    try {
+      await onUpvote(issue);
+    } finally {
+      setUpvotingId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-md border border-yellow-300 bg-yellow-50 p-4 space-y-3 dark:border-yellow-900 dark:bg-yellow-950/30">
+      <div className="flex items-start gap-3">
+        <Copy className="h-5 w-5 text-yellow-700 flex-shrink-0 mt-0.5" />
+        <div className="text-sm">
+          <p className="font-medium">This may already be reported</p>
+          <p className="text-muted-foreground">
+            If one of these is your issue, upvote it instead so the city sees how many people it affects.
+          </p>
+        </div>
+      </div>
+
+      <ul className="space-y-2">
+        {duplicates.map(({ issue, distanceMeters }) => {
+          const isOwn = issue.reportedBy.id === currentUserId;
+          const hasUpvoted = !!currentUserId && issue.upvotedBy.includes(currentUserId);
+          return (
+            <li key={issue.id} className="flex items-center gap-3 rounded-md bg-background p-3">
+              {issue.images[0] && (
+                <img src={issue.images[0]} alt="" className="h-12 w-12 rounded object-cover flex-shrink-0" />
+              )}
+              <div className="min-w-0 flex-1">
+                <Link to={`/issue/${issue.id}`} target="_blank" className="font-medium hover:underline line-clamp-1">
+                  {issue.title}
+                </Link>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                  <Badge variant="outline">{statusLabel(issue.status)}</Badge>
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {formatDistance(distanceMeters)} away
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <ThumbsUp className="h-3 w-3" />
+                    {issue.upvotes}
+                  </span>
+                </div>
+              </div>
+              {isOwn ? (
+                <Button type="button" variant="outline" size="sm" asChild>
+                  <Link to={`/issue/${issue.id}`}>Your report</Link>
+                </Button>
+              ) : (
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => handleUpvote(issue)}
+                  disabled={hasUpvoted || upvotingId !== null}
+                >
+                  {upvotingId === issue.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {hasUpvoted ? 'Upvoted' : 'Upvote this instead'}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="not-a-duplicate"
+          checked={confirmed}
+          onCheckedChange={(checked) => onConfirmedChange(checked === true)}
+        />
+        <Label htmlFor="not-a-duplicate" className="text-sm font-normal">
+          My issue isn't any of these
+        </Label>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReports;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, GitMerge, Loader2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { useReports } from '@/contexts/ReportContext';
+import { useIssueMerges } from '@/hooks/use-issues';
+import type { IssueMerge } from '@/lib/types/issue';
+
+interface IssueMergesProps {
+  issueId: string;
+  // Whether to offer undoing each merge
+  canUnmerge: boolean;
+}
+
+// Issues merged into this one, or the issue this one was merged into
+const IssueMerges: React.FC<IssueMergesProps> = ({ issueId, canUnmerge }) => {
+  const { data: merges = [], isLoading } = useIssueMerges(issueId);
+  const { unmergeReport } = useReports();
+  const [unmergingId, setUnmergingId] = useState<string | null>(null);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (merges.length === 0) {
+    return <p className="text-sm text-muted-foreground">No duplicates have been merged into this issue.</p>;
+  }
+
+  const handleUnmerge = async (merge: IssueMerge) => {
+    setUnmergingId(merge.id);
+    try {
+      await unmergeReport(merge);
+      toast({
+        title: "Merge Undone",
+        description: `"${merge.duplicate.title}" is a separate issue again.`,
+      });
+    } catch (error) {
+      console.error('Error undoing merge:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to undo the merge. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setUnmergingId(null);
+    }
+  };
+
+  return (
+    <ul className="space-y-3">
+      {merges.map(merge => {
+        const isDuplicate = merge.duplicate.id === issueId;
+        const other = isDuplicate ? merge.primary : merge.duplicate;
+        const Icon = isDuplicate ? GitMerge : Copy;
+        return (
+          <li key={merge.id} className="flex items-start gap-3">
+            <Icon className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm">
+                {isDuplicate ? 'Merged into ' : ''}
+                <Link to={`/issue/${other.id}`} className="font-medium hover:underline">{other.title}</Link>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {merge.actor ? `${merge.actor.name} · ` : ''}
+                {formatDistanceToNow(new Date(merge.createdAt), { addSuffix: true })}
+              </p>
+              {merge.note && <p className="mt-1 text-xs text-muted-foreground whitespace-pre-line">{merge.note}</p>}
+            </div>
+            {canUnmerge && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleUnmerge(merge)}
+                disabled={unmergingId !== null}
+                aria-label={`Unmerge "${merge.duplicate.title}"`}
+              >
+                {unmergingId === merge.id
+                  ? <Loader2 className="h-4 w-4 animate-spin" />
+                  : <Undo2 className="h-4 w-4" />}
+                <span className="ml-1">Unmerge</span>
+              </Button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default IssueMerges;
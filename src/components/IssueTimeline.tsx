@@ -0,0 +1,101 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, CircleDot, Copy, GitMerge, Loader2, MapPin, UserCheck } from 'lucide-react';
+import { useIssueEvents } from '@/hooks/use-issues';
+import type { IssueEvent } from '@/lib/types/issue';
+import { cn } from '@/lib/utils';
+
+const formatLabel = (value: string) =>
+  value.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+
+const EVENT_ICONS: Record<IssueEvent['field'], React.ElementType> = {
+  status: CircleDot,
+  severity: AlertTriangle,
+  assignee: UserCheck,
+  location: MapPin,
+  merged: GitMerge,
+  duplicateOf: Copy,
+};
+
+const IssueLink: React.FC<{ issue: { id: string; title: string } }> = ({ issue }) => (
+  <Link to={`/issue/${issue.id}`} className="font-semibold hover:underline">{issue.title}</Link>
+);
+
+const describeEvent = (event: IssueEvent): React.ReactNode => {
+  switch (event.field) {
+    case 'status':
+      return event.from
+        ? <>Status changed from <strong>{formatLabel(event.from)}</strong> to <strong>{formatLabel(event.to)}</strong></>
+        : <>Reported as <strong>{formatLabel(event.to)}</strong></>;
+    case 'severity':
+      return <>Severity changed from <strong>{formatLabel(event.from ?? 'none')}</strong> to <strong>{formatLabel(event.to)}</strong></>;
+    case 'assignee':
+      if (!event.to) return <>Unassigned from <strong>{event.from?.name}</strong></>;
+      return event.from
+        ? <>Reassigned from <strong>{event.from.name}</strong> to <strong>{event.to.name}</strong></>
+        : <>Assigned to <strong>{event.to.name}</strong></>;
+    case 'location':
+      return <>Location changed to <strong>{event.to.address}</strong></>;
+    case 'merged':
+      return event.to
+        ? <>Merged in <IssueLink issue={event.to} /></>
+        : <>Unmerged <IssueLink issue={event.from} /></>;
+    case 'duplicateOf':
+      return event.to
+        ? <>Merged into <IssueLink issue={event.to} /> as a duplicate</>
+        : <>Unmerged from <IssueLink issue={event.from} /></>;
+  }
+};
+
+interface IssueTimelineProps {
+  issueId: string;
+  className?: string;
+}
+
+// Every recorded status, severity, assignment, location and merge change,
+// oldest first
+const IssueTimeline: React.FC<IssueTimelineProps> = ({ issueId, className }) => {
+  const { data: events = [], isLoading, error } = useIssueEvents(issueId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">History could not be loaded.</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className={cn("relative border-l ml-2 space-y-5", className)}>
+      {events.map(event => {
+        const Icon = EVENT_ICONS[event.field];
+        return (
+          <li key={event.id} className="ml-5">
+            <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background ring-1 ring-border">
+              <Icon className="h-3 w-3 text-muted-foreground" />
+            </span>
+            <p className="text-sm">{describeEvent(event)}</p>
+            <p className="text-xs text-muted-foreground" title={format(new Date(event.createdAt), 'PPpp')}>
+              {event.actor ? `${event.actor.name} · ` : ''}
+              {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+            </p>
+            {event.note && (
+              <p className="mt-1 text-sm bg-muted/50 rounded-md px-3 py-2 whitespace-pre-line">{event.note}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default IssueTimeline;
@@ -20,19 +20,30 @@ import {
   LogOut, 
   Settings,
   ChevronDown,
+  Users,
   Home,
   Map
 } from 'lucide-react';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { ThemeToggle } from './ThemeToggle';
 import { cn } from '@/lib/utils';
+import { can } from '@/lib/permissions';
+import { NotificationsDialog } from './NotificationsDialog';
+import { toast } from '@/components/ui/use-toast';
+import { useNotificationRealtime, useUnreadNotificationCount } from '@/hooks/use-notifications';
 
 const Layout = () => {
   const { isAuthenticated, currentUser, logout } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
+  const [notificationsOpen, setNotificationsOpen] = useState(false);
   const location = useLocation();
   const navigate = useNavigate();
+  const { data: unreadCount = 0 } = useUnreadNotificationCount(currentUser?.id);
+
+  useNotificationRealtime(currentUser?.id, (notification) => {
+    toast({ title: notification.title, description: notification.message });
+  });
 
   useEffect(() => {
     const handleScroll = () => {
@@ -56,7 +67,7 @@ const Layout = () => {
     { path: '/', label: 'Home', icon: Home },
     { path: '/map', label: 'Map', icon: Map },
     ...(isAuthenticated ? [{ path: '/dashboard', label: 'Dashboard', icon: Bell }] : []),
-    ...(currentUser?.role === 'admin' ? [{ path: '/admin', label: 'Admin', icon: Settings }] : [])
+    ...(can(currentUser, 'dashboard:view') ? [{ path: '/admin', label: 'Admin', icon: Settings }] : [])
   ];
 
   return (
@@ -108,6 +119,21 @@ const Layout = () => {
             
             {isAuthenticated ? (
               <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="relative"
+                  onClick={() => setNotificationsOpen(true)}
+                  aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+                >
+                  <Bell className="h-5 w-5" aria-hidden="true" />
+                  {unreadCount > 0 && (
+                    <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </span>
+                  )}
+                </Button>
+                <NotificationsDialog open={notificationsOpen} onOpenChange={setNotificationsOpen} />
                 <Button 
                   variant="outline" 
                   size="sm" 
@@ -149,7 +175,7 @@ const Layout = () => {
                         Profile
                       </Link>
                     </DropdownMenuItem>
-                    {currentUser?.role === 'admin' && (
+                    {can(currentUser, 'dashboard:view') && (
                       <DropdownMenuItem asChild>
                         <Link to="/admin" className="cursor-pointer">
                           <Settings className="mr-2 h-4 w-4" aria-hidden="true" />
@@ -157,6 +183,14 @@ const Layout = () => {
                         </Link>
                       </DropdownMenuItem>
                     )}
+                    {can(currentUser, 'users:manage') && (
+                      <DropdownMenuItem asChild>
+                        <Link to="/admin/users" className="cursor-pointer">
+                          <Users className="mr-2 h-4 w-4" aria-hidden="true" />
+                          Users
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem 
                       onClick={handleLogout} 
                       className="cursor-pointer text-red-600 focus:text-red-600"
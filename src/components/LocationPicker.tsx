@@ -1,90 +1,128 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Search, Locate, MapPin, Loader2 } from 'lucide-react';
+import { Search, MapPin, Loader2, Check, X } from 'lucide-react';
 import OpenStreetMap from './OpenStreetMap';
 import { toast } from '@/components/ui/use-toast';
+import { useDebounce } from '@/hooks/use-debounce';
+import { MIN_ADDRESS_QUERY_LENGTH, useAddressSearch } from '@/hooks/use-geocoding';
+import { addressLines, cityBounds, type GeocodeResult } from '@/lib/geocoding';
+import { cn } from '@/lib/utils';
 
 interface LocationPickerProps {
   onLocationSelect: (address: string, lat: number, lng: number) => void;
   initialAddress?: string;
 }
 
+// The middle of the city when its bounds are configured, otherwise New York City
+const DEFAULT_CENTER: [number, number] = cityBounds
+  ? [(cityBounds.south + cityBounds.north) / 2, (cityBounds.west + cityBounds.east) / 2]
+  : [40.7128, -74.0060];
+
+const SUGGESTION_LIMIT = 5;
+
+const LIST_ID = 'location-picker-suggestions';
+
 const LocationPicker = ({ onLocationSelect, initialAddress = '' }: LocationPickerProps) => {
   const [address, setAddress] = useState(initialAddress);
   const [selectedLocation, setSelectedLocation] = useState<[number, number] | null>(null);
-  const [isSearching, setIsSearching] = useState(false);
+  // Suggestions are only looked up while the user is typing, not for an
+  // address that was picked or passed in
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  // The suggestion on the map waiting to be confirmed
+  const [candidate, setCandidate] = useState<GeocodeResult | null>(null);
 
-  const defaultCenter: [number, number] = [40.7128, -74.0060]; // New York City as default
+  const debouncedAddress = useDebounce(address, 400);
+  const search = useAddressSearch(isOpen ? debouncedAddress : '', {
+    limit: SUGGESTION_LIMIT,
+    bounds: cityBounds,
+  });
+  const suggestions = search.data ?? [];
+  const isSearching = isOpen && search.isFetching;
+  const showSuggestions = isOpen && address.trim().length >= MIN_ADDRESS_QUERY_LENGTH &&
+    (suggestions.length > 0 || search.isFetched || search.isError);
+
+  const previewLocation = useMemo(
+    () => candidate && {
+      position: [candidate.lat, candidate.lng] as [number, number],
+      label: addressLines(candidate).primary,
+    },
+    [candidate]
+  );
 
   const handleLocationSelect = (lat: number, lng: number, formattedAddress: string) => {
     setSelectedLocation([lat, lng]);
     setAddress(formattedAddress);
+    setCandidate(null);
+    setIsOpen(false);
     onLocationSelect(formattedAddress, lat, lng);
   };
 
-  const handleAddressSearch = async () => {
-    if (!address.trim()) {
-      toast({
-        title: "Empty Search",
-        description: "Please enter an address to search",
-        variant: "destructive",
-      });
-      return;
-    }
+  const handleAddressChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setAddress(e.target.value);
+    setIsOpen(true);
+    setHighlighted(-1);
+  };
 
-    console.log('Starting search for address:', address);
-    setIsSearching(true);
-    try {
-      const searchUrl = `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}`;
-      console.log('Search URL:', searchUrl);
-      
-      const response = await fetch(searchUrl, {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'CityFix/1.0'
-        }
-      });
+  const handleSuggestionPick = (suggestion: GeocodeResult) => {
+    setCandidate(suggestion);
+    setAddress(suggestion.label);
+    setIsOpen(false);
+    setHighlighted(-1);
+  };
+
+  const handleConfirm = () => {
+    if (candidate) {
+      handleLocationSelect(candidate.lat, candidate.lng, candidate.label);
+    }
+  };
 
-      console.log('Response status:', response.status);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      console.log('Search results:', data);
-
-      if (data && data.length > 0) {
-        const result = data[0];
-        console.log('Selected result:', result);
-        const lat = parseFloat(result.lat);
-        const lng = parseFloat(result.lon);
-        handleLocationSelect(lat, lng, result.display_name);
-      } else {
-        console.log('No results found');
-        toast({
-          title: "No Results",
-          description: "Could not find the address. Please try a different search term.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
-      console.error('Error searching address:', error);
+  const handleAddressSearch = () => {
+    if (address.trim().length < MIN_ADDRESS_QUERY_LENGTH) {
       toast({
-        title: "Search Error",
-        description: error instanceof Error ? error.message : "An error occurred while searching. Please try again.",
+        title: "Empty Search",
+        description: `Please enter at least ${MIN_ADDRESS_QUERY_LENGTH} characters of an address to search`,
         variant: "destructive",
       });
-    } finally {
-      setIsSearching(false);
+      return;
     }
+    setIsOpen(true);
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      console.log('Enter key pressed, triggering search');
-      handleAddressSearch();
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!isOpen) {
+          handleAddressSearch();
+        } else if (suggestions.length > 0) {
+          setHighlighted(index => (index + 1) % suggestions.length);
+        }
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (suggestions.length > 0) {
+          setHighlighted(index => (index <= 0 ? suggestions.length - 1 : index - 1));
+        }
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (showSuggestions && suggestions[highlighted]) {
+          handleSuggestionPick(suggestions[highlighted]);
+        } else if (showSuggestions && suggestions.length > 0) {
+          setHighlighted(0);
+        } else {
+          handleAddressSearch();
+        }
+        break;
+      case 'Escape':
+        if (isOpen) {
+          e.preventDefault();
+          setIsOpen(false);
+          setHighlighted(-1);
+        }
+        break;
     }
   };
 
@@ -97,12 +135,63 @@ const LocationPicker = ({ onLocationSelect, initialAddress = '' }: LocationPicke
             placeholder="Search for a location"
             className="pl-10"
             value={address}
-            onChange={(e) => setAddress(e.target.value)}
-            onKeyPress={handleKeyPress}
-            disabled={isSearching}
+            onChange={handleAddressChange}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setIsOpen(false)}
+            role="combobox"
+            aria-autocomplete="list"
+            aria-expanded={showSuggestions}
+            aria-controls={LIST_ID}
+            aria-activedescendant={highlighted >= 0 ? `${LIST_ID}-${highlighted}` : undefined}
           />
+          {showSuggestions && (
+            <ul
+              id={LIST_ID}
+              role="listbox"
+              className="absolute left-0 right-0 top-full z-30 mt-1 overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md"
+            >
+              {search.isError ? (
+                <li className="px-3 py-2 text-sm text-muted-foreground">
+                  Address search failed. Try again or click on the map.
+                </li>
+              ) : suggestions.length === 0 ? (
+                <li className="px-3 py-2 text-sm text-muted-foreground">
+                  No matching addresses. Try a different search or click on the map.
+                </li>
+              ) : (
+                suggestions.map((suggestion, index) => {
+                  const { primary, secondary } = addressLines(suggestion);
+                  return (
+                    <li
+                      key={`${suggestion.lat},${suggestion.lng},${suggestion.label}`}
+                      id={`${LIST_ID}-${index}`}
+                      role="option"
+                      aria-selected={index === highlighted}
+                      className={cn(
+                        'flex cursor-pointer items-start gap-2 px-3 py-2 text-sm',
+                        index === highlighted && 'bg-accent text-accent-foreground'
+                      )}
+                      // Keep focus in the input, which would close the list on blur
+                      onMouseDown={(e) => e.preventDefault()}
+                      onMouseEnter={() => setHighlighted(index)}
+                      onClick={() => handleSuggestionPick(suggestion)}
+                    >
+                      <MapPin className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                      <span className="min-w-0">
+                        <span className="block truncate font-medium">{primary}</span>
+                        {secondary && (
+                          <span className="block truncate text-xs text-muted-foreground">{secondary}</span>
+                        )}
+                      </span>
+                    </li>
+                  );
+                })
+              )}
+            </ul>
+          )}
         </div>
         <Button 
+          type="button"
           variant="outline" 
           onClick={handleAddressSearch}
           disabled={isSearching}
@@ -117,13 +206,32 @@ const LocationPicker = ({ onLocationSelect, initialAddress = '' }: LocationPicke
         </Button>
       </div>
 
+      {candidate && (
+        <div className="flex flex-col gap-2 rounded-md border bg-muted/50 p-3 sm:flex-row sm:items-center sm:justify-between">
+          <p className="text-sm">
+            Is this the right place? <span className="font-medium">{candidate.label}</span>
+          </p>
+          <div className="flex shrink-0 gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setCandidate(null)}>
+              <X className="mr-1 h-4 w-4" />
+              Cancel
+            </Button>
+            <Button type="button" size="sm" onClick={handleConfirm}>
+              <Check className="mr-1 h-4 w-4" />
+              Use this location
+            </Button>
+          </div>
+        </div>
+      )}
+
       <div className="border rounded-md overflow-hidden">
         <OpenStreetMap
           height="300px"
-          center={selectedLocation || defaultCenter}
+          center={selectedLocation || DEFAULT_CENTER}
           zoom={13}
           onLocationSelect={handleLocationSelect}
           selectedLocation={selectedLocation}
+          previewLocation={previewLocation}
           enableManualPin={true}
           showUseMyLocation={true}
         />
@@ -133,7 +241,9 @@ const LocationPicker = ({ onLocationSelect, initialAddress = '' }: LocationPicke
             <span>
               {isSearching 
                 ? "Searching for location..." 
-                : "Search for an address or click on the map"}
+                : candidate
+                  ? "Confirm the highlighted location, or click on the map to pin it yourself"
+                  : "Search for an address or click on the map"}
             </span>
           </div>
         </div>
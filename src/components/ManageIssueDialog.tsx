@@ -1,50 +1,82 @@
 import React from 'react';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { toast } from '@/components/ui/use-toast';
-import { useReports } from '@/contexts/ReportContext';
+import { PhotoUpload } from '@/components/PhotoUpload';
+import { useAuth } from '@/contexts/AuthContext';
+import { useReports, type Report } from '@/contexts/ReportContext';
+import { uploadImage } from '@/lib/storage';
+import type { IssueStatus } from '@/lib/types/issue';
+import { availableTransitions, missingRequirements, statusLabel } from '@/lib/workflow';
 
 interface ManageIssueDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  issueId: string;
-  currentStatus: string;
+  issue: Report;
+  // Status to preselect, e.g. one picked from a status dropdown elsewhere
+  initialStatus?: IssueStatus;
 }
 
 const ManageIssueDialog: React.FC<ManageIssueDialogProps> = ({
   open,
   onOpenChange,
-  issueId,
-  currentStatus
+  issue,
+  initialStatus
 }) => {
   const { updateReport } = useReports();
-  const [status, setStatus] = React.useState(currentStatus);
+  const { currentUser } = useAuth();
+  const transitions = availableTransitions(issue, currentUser);
+  const [status, setStatus] = React.useState<IssueStatus | ''>('');
   const [adminNotes, setAdminNotes] = React.useState('');
+  const [resolutionNotes, setResolutionNotes] = React.useState('');
+  const [photos, setPhotos] = React.useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = React.useState(false);
 
-  const handleStatusChange = async (newStatus: string) => {
+  // Start from a clean form each time the dialog opens
+  React.useEffect(() => {
+    if (!open) return;
+    setStatus(initialStatus && initialStatus !== issue.status ? initialStatus : '');
+    setAdminNotes('');
+    setResolutionNotes(issue.resolutionNotes ?? '');
+    setPhotos([]);
+  }, [open, initialStatus, issue.status, issue.resolutionNotes]);
+
+  const transition = transitions.find(t => t.to === status);
+  const requires = transition?.requires ?? [];
+  const missing = transition
+    ? missingRequirements(transition, {
+        note: adminNotes,
+        resolutionNotes,
+        // Counted as present until uploaded on submit
+        resolutionImages: photos.map(photo => photo.name),
+      })
+    : [];
+
+  const handleStatusChange = async (newStatus: IssueStatus) => {
     setIsSubmitting(true);
     try {
-      await updateReport(issueId, {
-        status: newStatus,
-        adminNotes: adminNotes.trim() ? adminNotes : undefined
-      });
-      
+      const updates: Partial<Report> = { status: newStatus };
+      if (requires.includes('resolutionNotes')) updates.resolutionNotes = resolutionNotes.trim();
+      if (requires.includes('resolutionImages')) {
+        updates.resolutionImages = await Promise.all(photos.map(photo => uploadImage(photo, 'resolutions')));
+      }
+
+      await updateReport(issue.id, updates, adminNotes);
+
       toast({
         title: "Status Updated",
-        description: `Issue status has been updated to "${newStatus.replace('_', ' ')}".`,
+        description: `Issue status has been updated to "${statusLabel(newStatus)}".`,
       });
-      
-      setStatus(newStatus);
+
       onOpenChange(false);
     } catch (error) {
       console.error('Error updating issue:', error);
       toast({
         title: "Error",
-        description: "Failed to update issue status. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update issue status. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -54,38 +86,67 @@ const ManageIssueDialog: React.FC<ManageIssueDialogProps> = ({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Manage Issue</DialogTitle>
+          <DialogDescription>
+            Currently <strong>{statusLabel(issue.status)}</strong>.
+          </DialogDescription>
         </DialogHeader>
-        <div className="grid gap-4 py-4">
-          <div className="grid gap-2">
-            <Label htmlFor="status">Status</Label>
-            <Select value={status} onValueChange={handleStatusChange}>
-              <SelectTrigger id="status">
-                <SelectValue placeholder="Select status" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="reported">Reported</SelectItem>
-                <SelectItem value="under_review">Under Review</SelectItem>
-                <SelectItem value="in_progress">In Progress</SelectItem>
-                <SelectItem value="resolved">Resolved</SelectItem>
-                <SelectItem value="closed">Closed</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          
-          <div className="grid gap-2">
-            <Label htmlFor="adminNotes">Admin Notes</Label>
-            <Textarea
-              id="adminNotes"
-              placeholder="Add internal notes about this issue..."
-              value={adminNotes}
-              onChange={(e) => setAdminNotes(e.target.value)}
-              className="min-h-[100px]"
-            />
+        {transitions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            There are no status changes you can make to this issue.
+          </p>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="status">Move to</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as IssueStatus)}>
+                <SelectTrigger id="status">
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {transitions.map(t => (
+                    <SelectItem key={t.to} value={t.to}>
+                      {t.label} ({statusLabel(t.to)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {requires.includes('resolutionNotes') && (
+              <div className="grid gap-2">
+                <Label htmlFor="resolutionNotes">Resolution notes</Label>
+                <Textarea
+                  id="resolutionNotes"
+                  placeholder="What was done to fix the issue? Shown on the issue."
+                  value={resolutionNotes}
+                  onChange={(e) => setResolutionNotes(e.target.value)}
+                  className="min-h-[100px]"
+                />
+              </div>
+            )}
+
+            {requires.includes('resolutionImages') && (
+              <div className="grid gap-2">
+                <Label>After photos</Label>
+                <PhotoUpload onImagesChange={setPhotos} maxFiles={2} maxSizeMB={1.5} />
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="adminNotes">Note{requires.includes('note') ? '' : ' (optional)'}</Label>
+              <Textarea
+                id="adminNotes"
+                placeholder="Why is the status changing? Shown in the issue's history."
+                value={adminNotes}
+                onChange={(e) => setAdminNotes(e.target.value)}
+                className="min-h-[100px]"
+              />
+            </div>
           </div>
-        </div>
+        )}
         <div className="flex justify-end gap-2">
           <Button
             variant="outline"
@@ -94,16 +155,18 @@ const ManageIssueDialog: React.FC<ManageIssueDialogProps> = ({
           >
             Cancel
           </Button>
-          <Button
-            onClick={() => handleStatusChange(status)}
-            disabled={isSubmitting}
-          >
-            {isSubmitting ? "Updating..." : "Update Status"}
-          </Button>
+          {transitions.length > 0 && (
+            <Button
+              onClick={() => status && handleStatusChange(status)}
+              disabled={isSubmitting || !status || missing.length > 0}
+            >
+              {isSubmitting ? "Updating..." : "Update Status"}
+            </Button>
+          )}
         </div>
       </DialogContent>
     </Dialog>
   );
 };
 
-export default ManageIssueDialog; 
\ No newline at end of file
+export default ManageIssueDialog;
@@ -3,33 +3,38 @@ import React, { useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Search } from 'lucide-react';
-import { useReports, Report, ReportCategory, ReportStatus } from '@/contexts/ReportContext';
+import type { ReportCategory, ReportStatus } from '@/contexts/ReportContext';
+import type { IssueFilter } from '@/lib/types/issue';
+import { useWards } from '@/hooks/use-wards';
 
 interface MapSearchProps {
-  onSearch: (filteredReports: Report[]) => void;
+  onSearch: (filter: IssueFilter) => void;
 }
 
 const MapSearch: React.FC<MapSearchProps> = ({ onSearch }) => {
-  const { reports } = useReports();
   const [searchQuery, setSearchQuery] = useState('');
   const [category, setCategory] = useState<string>('all');
   const [status, setStatus] = useState<string>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [ward, setWard] = useState<string>('all');
+  const { data: wards = [] } = useWards();
 
   const handleSearch = () => {
-    // Filter reports based on search criteria
-    const filtered = reports.filter(report => {
-      const matchesQuery = searchQuery === '' || 
-        report.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-        report.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        report.location.address.toLowerCase().includes(searchQuery.toLowerCase());
-      
-      const matchesCategory = category === 'all' || report.category === category;
-      const matchesStatus = status === 'all' || report.status === status;
-
-      return matchesQuery && matchesCategory && matchesStatus;
+    // Matching happens in the data layer
+    onSearch({
+      search: searchQuery.trim() || undefined,
+      category: category === 'all' ? undefined : [category as ReportCategory],
+      status: status === 'all' ? undefined : [status as ReportStatus],
+      ward: ward === 'all' ? undefined : [ward],
+      // Dates are whole local days
+      dateRange: from || to
+        ? {
+            start: from ? new Date(`${from}T00:00:00`) : undefined,
+            end: to ? new Date(`${to}T23:59:59.999`) : undefined,
+          }
+        : undefined,
     });
-
-    onSearch(filtered);
   };
 
   return (
@@ -48,7 +53,7 @@ const MapSearch: React.FC<MapSearchProps> = ({ onSearch }) => {
         <Button onClick={handleSearch}>Search</Button>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+      <div className={`grid grid-cols-1 gap-2 ${wards.length > 0 ? 'md:grid-cols-5' : 'md:grid-cols-4'}`}>
         <select
           value={category}
           onChange={(e) => setCategory(e.target.value)}
@@ -77,6 +82,35 @@ const MapSearch: React.FC<MapSearchProps> = ({ onSearch }) => {
           <option value="resolved">Resolved</option>
           <option value="closed">Closed</option>
         </select>
+
+        {wards.length > 0 && (
+          <select
+            value={ward}
+            onChange={(e) => setWard(e.target.value)}
+            className="border rounded-md p-2 text-sm"
+          >
+            <option value="all">All Wards</option>
+            {wards.map(w => (
+              <option key={w.id} value={w.id}>{w.name}</option>
+            ))}
+          </select>
+        )}
+
+        <Input
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={(e) => setFrom(e.target.value)}
+          aria-label="Reported from"
+        />
+
+        <Input
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={(e) => setTo(e.target.value)}
+          aria-label="Reported until"
+        />
       </div>
     </div>
   );
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
 import {
   Dialog,
   DialogContent,
@@ -14,6 +15,13 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useDismissNotifications,
+  useMarkNotificationsRead,
+  useNotifications,
+} from "@/hooks/use-notifications";
+import type { NotificationType } from "@/lib/types/notification";
 import { cn } from "@/lib/utils";
 import {
   Search,
@@ -26,71 +34,10 @@ import {
   CheckCircle,
   MessageSquare,
   User,
-  Settings
+  Settings,
+  Loader2
 } from 'lucide-react';
 
-interface Notification {
-  id: string;
-  type: 'status_change' | 'new_report' | 'comment' | 'mention' | 'system';
-  title: string;
-  message: string;
-  timestamp: Date;
-  read: boolean;
-  data?: {
-    reportId?: string;
-    userId?: string;
-    status?: string;
-    category?: string;
-  };
-}
-
-const MOCK_NOTIFICATIONS: Notification[] = [
-  {
-    id: '1',
-    type: 'new_report',
-    title: 'New Issue Reported',
-    message: 'A new pothole has been reported on Main Street',
-    timestamp: new Date(Date.now() - 1000 * 60 * 5), // 5 minutes ago
-    read: false,
-    data: {
-      reportId: '123',
-      category: 'pothole'
-    }
-  },
-  {
-    id: '2',
-    type: 'status_change',
-    title: 'Issue Status Updated',
-    message: 'Streetlight repair on Oak Avenue is now in progress',
-    timestamp: new Date(Date.now() - 1000 * 60 * 30), // 30 minutes ago
-    read: true,
-    data: {
-      reportId: '456',
-      status: 'in_progress'
-    }
-  },
-  {
-    id: '3',
-    type: 'comment',
-    title: 'New Comment',
-    message: 'John Doe commented on the flooding issue',
-    timestamp: new Date(Date.now() - 1000 * 60 * 60), // 1 hour ago
-    read: false,
-    data: {
-      reportId: '789',
-      userId: 'user123'
-    }
-  },
-  {
-    id: '4',
-    type: 'system',
-    title: 'System Update',
-    message: 'New features have been added to the dashboard',
-    timestamp: new Date(Date.now() - 1000 * 60 * 60 * 2), // 2 hours ago
-    read: true
-  }
-];
-
 interface NotificationsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -100,7 +47,11 @@ export const NotificationsDialog: React.FC<NotificationsDialogProps> = ({
   open,
   onOpenChange,
 }) => {
-  const [notifications, setNotifications] = useState<Notification[]>(MOCK_NOTIFICATIONS);
+  const { currentUser } = useAuth();
+  const userId = currentUser?.id;
+  const { data: notifications = [], isLoading } = useNotifications(userId);
+  const markRead = useMarkNotificationsRead();
+  const dismiss = useDismissNotifications();
   const [filter, setFilter] = useState<'all' | 'unread'>('all');
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -115,30 +66,22 @@ export const NotificationsDialog: React.FC<NotificationsDialogProps> = ({
   const unreadCount = notifications.filter(n => !n.read).length;
 
   const markAsRead = (id: string) => {
-    setNotifications(prev =>
-      prev.map(notification =>
-        notification.id === id ? { ...notification, read: true } : notification
-      )
-    );
+    if (userId) markRead.mutate({ userId, ids: [id] });
   };
 
   const markAllAsRead = () => {
-    setNotifications(prev =>
-      prev.map(notification => ({ ...notification, read: true }))
-    );
+    if (userId) markRead.mutate({ userId });
   };
 
   const deleteNotification = (id: string) => {
-    setNotifications(prev =>
-      prev.filter(notification => notification.id !== id)
-    );
+    if (userId) dismiss.mutate({ userId, ids: [id] });
   };
 
   const clearAll = () => {
-    setNotifications([]);
+    if (userId) dismiss.mutate({ userId });
   };
 
-  const getNotificationIcon = (type: Notification['type']) => {
+  const getNotificationIcon = (type: NotificationType) => {
     switch (type) {
       case 'new_report':
         return <AlertTriangle className="h-4 w-4 text-blue-500" />;
@@ -155,9 +98,9 @@ export const NotificationsDialog: React.FC<NotificationsDialogProps> = ({
     }
   };
 
-  const formatTimestamp = (date: Date) => {
+  const formatTimestamp = (timestamp: string) => {
     const now = new Date();
-    const diff = now.getTime() - date.getTime();
+    const diff = now.getTime() - new Date(timestamp).getTime();
     const minutes = Math.floor(diff / 1000 / 60);
     const hours = Math.floor(minutes / 60);
     const days = Math.floor(hours / 24);
@@ -233,7 +176,11 @@ export const NotificationsDialog: React.FC<NotificationsDialogProps> = ({
         </div>
 
         <ScrollArea className="h-[400px]">
-          {filteredNotifications.length === 0 ? (
+          {isLoading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : filteredNotifications.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full p-8 text-center">
               <Bell className="h-12 w-12 text-muted-foreground mb-4" />
               <p className="text-lg font-medium">No notifications</p>
@@ -260,7 +207,7 @@ export const NotificationsDialog: React.FC<NotificationsDialogProps> = ({
                         <p className="font-medium">{notification.title}</p>
                         <div className="flex items-center gap-2">
                           <span className="text-xs text-muted-foreground">
-                            {formatTimestamp(notification.timestamp)}
+                            {formatTimestamp(notification.createdAt)}
                           </span>
                           <Button
                             variant="ghost"
@@ -275,15 +222,17 @@ export const NotificationsDialog: React.FC<NotificationsDialogProps> = ({
                       <p className="text-sm text-muted-foreground">
                         {notification.message}
                       </p>
-                      {notification.data?.reportId && (
-                        <Button
-                          variant="link"
-                          className="h-auto p-0 text-xs"
-                          onClick={() => {
-                            window.location.href = `/issue/${notification.data.reportId}`;
-                          }}
-                        >
-                          View Details
+                      {notification.issueId && (
+                        <Button variant="link" className="h-auto p-0 text-xs" asChild>
+                          <Link
+                            to={`/issue/${notification.issueId}`}
+                            onClick={() => {
+                              if (!notification.read) markAsRead(notification.id);
+                              onOpenChange(false);
+                            }}
+                          >
+                            View Details
+                          </Link>
                         </Button>
                       )}
                     </div>
@@ -1,27 +1,75 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap, useMapEvent, Circle } from 'react-leaflet';
-import { Icon } from 'leaflet';
-import { useReports, Report } from '@/contexts/ReportContext';
+import { MapContainer, TileLayer, Marker, Popup, Tooltip, useMap, useMapEvent, Circle, Rectangle, Polygon, Polyline } from 'react-leaflet';
+import L, { Icon } from 'leaflet';
+import 'leaflet.markercluster';
+import 'leaflet.heat';
+import { useReports } from '@/contexts/ReportContext';
 import { Link } from 'react-router-dom';
 import { Badge } from '@/components/ui/badge';
 import { formatDistanceToNow } from 'date-fns';
 import { Button } from '@/components/ui/button';
-import { MapPin, Locate, Loader2, Maximize, Minimize } from 'lucide-react';
+import { MapPin, Locate, Loader2, Maximize, Minimize, ZoomIn, Square, Circle as CircleIcon, PenLine, X } from 'lucide-react';
 import 'leaflet/dist/leaflet.css';
+import 'leaflet.markercluster/dist/MarkerCluster.css';
 import { toast } from '@/components/ui/use-toast';
+import { clusterColor, clusterSize, type ClusterColorBy } from '@/lib/clusters';
+import { HEAT_SATURATION, heatPoints, type HeatmapWeight } from '@/lib/heatmap';
+import type { IssuePoint } from '@/lib/types/issue';
+import type { Ward } from '@/lib/types/ward';
+import { MAX_POLYGON_POINTS, areaGeometry, roundOutline, type MapArea, type MapAreaShape } from '@/lib/areas';
+import { areaBounds, distanceMeters } from '@/lib/geo';
+import { statusLabel } from '@/lib/workflow';
+import { reverseGeocode } from '@/lib/geocoding';
 
 interface OpenStreetMapProps {
   center?: [number, number];
   zoom?: number;
   height?: string;
-  reports?: Report[];
+  // Every issue matching the map's filters, unpaged, drawn as markers and
+  // heat. Defaults to the reports already loaded.
+  points?: IssuePoint[];
   onLocationSelect?: (lat: number, lng: number, address: string) => void;
   selectedLocation?: [number, number] | null;
+  // A location offered but not picked yet, such as an address search result
+  previewLocation?: { position: [number, number]; label: string } | null;
   enableManualPin?: boolean;
   onLoad?: () => void;
   showUseMyLocation?: boolean;
+  clusterColorBy?: ClusterColorBy;
+  showHeatmap?: boolean;
+  heatmapWeightBy?: HeatmapWeight;
+  // Ward boundaries to outline
+  wards?: Ward[];
+  // An area drawn to filter by. Drawing tools are shown when onAreaChange is
+  // given.
+  area?: MapArea | null;
+  onAreaChange?: (area: MapArea | null) => void;
 }
 
+const DEFAULT_CENTER: [number, number] = [40.7128, -74.0060]; // New York City
+
+// Close enough to make out the street
+const PREVIEW_ZOOM = 17;
+
+const AREA_STYLE = { color: '#2563eb', weight: 2, fillOpacity: 0.08 };
+
+// Freehand outlines take a point every few pixels of pointer movement, then
+// drop those within a few pixels of the simplified line once drawn
+const FREEHAND_SPACING_PX = 8;
+const FREEHAND_TOLERANCE_PX = 3;
+
+// Smaller shapes are taken for stray clicks
+const MIN_AREA_SIZE_PX = 10;
+
+const DRAWING_TOOLS: { shape: MapAreaShape; label: string; icon: typeof Square }[] = [
+  { shape: 'rectangle', label: 'Draw a rectangle', icon: Square },
+  { shape: 'circle', label: 'Draw a circle', icon: CircleIcon },
+  { shape: 'polygon', label: 'Draw freehand', icon: PenLine },
+];
+
+// Reports listed in a cluster's popup before it asks to zoom in instead
+const CLUSTER_POPUP_LIMIT = 8;
+
 // Custom marker icons
 const createCustomIcon = (color: string) => {
   return new Icon({
@@ -34,6 +82,206 @@ const createCustomIcon = (color: string) => {
   });
 };
 
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'reported':
+      return 'red';
+    case 'under_review':
+      return 'blue';
+    case 'in_progress':
+      return 'orange';
+    case 'resolved':
+      return 'green';
+    case 'closed':
+      return 'gray';
+    default:
+      return 'gray';
+  }
+};
+
+const getCategoryIcon = (category: string) => {
+  switch (category) {
+    case 'pothole':
+      return '🕳️';
+    case 'streetlight':
+      return '💡';
+    case 'garbage':
+      return '🗑️';
+    case 'graffiti':
+      return '🖌️';
+    case 'road_damage':
+      return '🚧';
+    case 'flooding':
+      return '💧';
+    case 'sign_damage':
+      return '🚫';
+    default:
+      return '📍';
+  }
+};
+
+const ReportDetails = ({ report }: { report: IssuePoint }) => (
+  <div className="max-w-xs">
+    <div className="flex items-center gap-2 mb-2">
+      <span className="text-lg">{getCategoryIcon(report.category)}</span>
+      <h3 className="font-medium text-sm">{report.title}</h3>
+    </div>
+    <p className="text-xs text-gray-600 mb-2">{report.location.address}</p>
+    <div className="flex items-center justify-between">
+      <Badge variant="outline" className={`text-xs bg-${getStatusColor(report.status)}-100 text-${getStatusColor(report.status)}-800`}>
+        {report.status.replace('_', ' ')}
+      </Badge>
+      <span className="text-xs text-gray-500">
+        {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+      </span>
+    </div>
+    <div className="mt-2">
+      <Link 
+        to={`/issue/${report.id}`} 
+        className="text-xs text-primary hover:underline"
+      >
+        View details
+      </Link>
+    </div>
+  </div>
+);
+
+const ClusterDetails = ({ reports, onZoomIn }: { reports: IssuePoint[], onZoomIn: () => void }) => (
+  <div className="w-64">
+    <h3 className="font-medium text-sm mb-2">{reports.length} reports here</h3>
+    <ul className="space-y-1 max-h-60 overflow-y-auto">
+      {reports.slice(0, CLUSTER_POPUP_LIMIT).map(report => (
+        <li key={report.id} className="flex items-center gap-2 text-xs">
+          <span>{getCategoryIcon(report.category)}</span>
+          <Link to={`/issue/${report.id}`} className="flex-1 text-primary hover:underline line-clamp-1">
+            {report.title}
+          </Link>
+          <span className="text-gray-500 whitespace-nowrap">{statusLabel(report.status)}</span>
+        </li>
+      ))}
+    </ul>
+    {reports.length > CLUSTER_POPUP_LIMIT && (
+      <p className="text-xs text-gray-500 mt-1">and {reports.length - CLUSTER_POPUP_LIMIT} more</p>
+    )}
+    <Button variant="outline" size="sm" className="w-full mt-2 h-7 text-xs" onClick={onZoomIn}>
+      <ZoomIn className="h-3 w-3 mr-1" />
+      Zoom in
+    </Button>
+  </div>
+);
+
+const clusterReports = (cluster: L.MarkerCluster, reportsByMarker: WeakMap<L.Marker, IssuePoint>) =>
+  cluster.getAllChildMarkers()
+    .map(marker => reportsByMarker.get(marker))
+    .filter((report): report is IssuePoint => !!report);
+
+interface OpenPopup {
+  position: L.LatLng;
+  reports: IssuePoint[];
+  offset: L.PointExpression;
+  zoomIn?: () => void;
+}
+
+// Report markers grouped into clusters that split apart as the map zooms in.
+// Clicking a cluster lists its reports; at the last zoom level, where it can't
+// split any further, it fans its markers out instead.
+const ReportMarkers = ({ reports, colorBy }: { reports: IssuePoint[], colorBy: ClusterColorBy }) => {
+  const map = useMap();
+  const [openPopup, setOpenPopup] = useState<OpenPopup | null>(null);
+  const [reportsByMarker] = useState(() => new WeakMap<L.Marker, IssuePoint>());
+  const colorByRef = useRef(colorBy);
+
+  const [group] = useState(() => L.markerClusterGroup({
+    chunkedLoading: true,
+    showCoverageOnHover: false,
+    zoomToBoundsOnClick: false,
+    spiderfyOnMaxZoom: false,
+    iconCreateFunction: (cluster) => {
+      const count = cluster.getChildCount();
+      const size = clusterSize(count);
+      const color = clusterColor(clusterReports(cluster, reportsByMarker), colorByRef.current);
+      return L.divIcon({
+        html: `<div style="background:${color};width:${size}px;height:${size}px;line-height:${size}px" class="rounded-full text-white text-sm font-semibold text-center shadow-md ring-4 ring-white/60">${count}</div>`,
+        className: '',
+        iconSize: [size, size],
+      });
+    },
+  }));
+
+  useEffect(() => {
+    map.addLayer(group);
+    return () => {
+      map.removeLayer(group);
+    };
+  }, [map, group]);
+
+  useEffect(() => {
+    const handleClusterClick = (e: L.LeafletEvent) => {
+      const cluster = (e as L.LeafletEvent & { layer: L.MarkerCluster }).layer;
+      if (map.getZoom() >= map.getMaxZoom()) {
+        cluster.spiderfy();
+        return;
+      }
+      setOpenPopup({
+        position: cluster.getLatLng(),
+        reports: clusterReports(cluster, reportsByMarker),
+        offset: [0, -clusterSize(cluster.getChildCount()) / 2],
+        zoomIn: () => {
+          setOpenPopup(null);
+          cluster.zoomToBounds({ padding: [40, 40] });
+        },
+      });
+    };
+    group.on('clusterclick', handleClusterClick);
+    return () => {
+      group.off('clusterclick', handleClusterClick);
+    };
+  }, [map, group, reportsByMarker]);
+
+  useEffect(() => {
+    const markers = reports.map(report => {
+      const marker = L.marker(
+        [report.location.coordinates.lat, report.location.coordinates.lng],
+        { icon: createCustomIcon(getStatusColor(report.status)) }
+      );
+      marker.on('click', () => setOpenPopup({
+        position: marker.getLatLng(),
+        reports: [report],
+        offset: [1, -34],
+      }));
+      reportsByMarker.set(marker, report);
+      return marker;
+    });
+    group.clearLayers();
+    group.addLayers(markers);
+    setOpenPopup(null);
+  }, [group, reportsByMarker, reports]);
+
+  useEffect(() => {
+    colorByRef.current = colorBy;
+    group.refreshClusters();
+  }, [group, colorBy]);
+
+  if (!openPopup) return null;
+
+  return (
+    <Popup
+      key={`${openPopup.position.lat},${openPopup.position.lng}`}
+      position={openPopup.position}
+      offset={openPopup.offset}
+      eventHandlers={{
+        remove: () => setOpenPopup(current => (current === openPopup ? null : current)),
+      }}
+    >
+      {openPopup.reports.length === 1 ? (
+        <ReportDetails report={openPopup.reports[0]} />
+      ) : (
+        <ClusterDetails reports={openPopup.reports} onZoomIn={openPopup.zoomIn} />
+      )}
+    </Popup>
+  );
+};
+
 const LocationMarker = ({ onLocationSelect, enableManualPin }: { onLocationSelect?: (lat: number, lng: number, address: string) => void, enableManualPin?: boolean }) => {
   const [position, setPosition] = useState<[number, number] | null>(null);
   const [accuracy, setAccuracy] = useState<number | null>(null);
@@ -132,15 +380,11 @@ const ManualPinHandler = ({ onLocationSelect }: { onLocationSelect: (lat: number
     const lat = e.latlng.lat;
     const lng = e.latlng.lng;
     
-    // Reverse geocode using Nominatim
     let address = `${lat}, ${lng}`;
     try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=18&addressdetails=1`
-      );
-      const data = await response.json();
-      if (data && data.display_name) {
-        address = data.display_name;
+      const place = await reverseGeocode({ lat, lng });
+      if (place) {
+        address = place.label;
       }
     } catch (err) {
       // fallback to coordinates
@@ -156,27 +400,224 @@ const ManualPinHandler = ({ onLocationSelect }: { onLocationSelect: (lat: number
   return null;
 };
 
+// Density of the reports, drawn under their markers
+const HeatmapLayer = ({ points, weightBy }: { points: IssuePoint[], weightBy: HeatmapWeight }) => {
+  const map = useMap();
+  const [layer] = useState(() => L.heatLayer([], {
+    radius: 25,
+    blur: 20,
+    max: HEAT_SATURATION,
+    minOpacity: 0.3,
+  }));
+
+  useEffect(() => {
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, layer]);
+
+  useEffect(() => {
+    layer.setLatLngs(heatPoints(points, weightBy));
+  }, [layer, points, weightBy]);
+
+  return null;
+};
+
+// Ward outlines, named on hover
+const WardBoundaries = ({ wards }: { wards: Ward[] }) => {
+  const map = useMap();
+  const [layer] = useState(() => L.geoJSON(undefined, {
+    style: { color: '#7c3aed', weight: 2, fillOpacity: 0.05, dashArray: '6 4' },
+    onEachFeature: (feature, featureLayer) => {
+      featureLayer.bindTooltip(String(feature.properties?.name ?? ''), { sticky: true });
+    },
+  }));
+
+  useEffect(() => {
+    map.addLayer(layer);
+    return () => {
+      map.removeLayer(layer);
+    };
+  }, [map, layer]);
+
+  useEffect(() => {
+    layer.clearLayers();
+    wards.forEach(ward => layer.addData({
+      type: 'Feature',
+      properties: { name: ward.name },
+      geometry: ward.boundary,
+    } as GeoJSON.Feature));
+  }, [layer, wards]);
+
+  return null;
+};
+
+const AreaShape = ({ area }: { area: MapArea }) => {
+  switch (area.shape) {
+    case 'rectangle':
+      return (
+        <Rectangle
+          bounds={[[area.bounds.south, area.bounds.west], [area.bounds.north, area.bounds.east]]}
+          pathOptions={AREA_STYLE}
+          interactive={false}
+        />
+      );
+    case 'circle':
+      return <Circle center={area.center} radius={area.radiusMeters} pathOptions={AREA_STYLE} interactive={false} />;
+    case 'polygon':
+      return <Polygon positions={area.points} pathOptions={AREA_STYLE} interactive={false} />;
+  }
+};
+
+// Draws the filter area, and while `drawing` is set lets the user drag out a
+// new one of that shape. Pointer events cover mouse, touch and pen alike.
+// The map starts out fitted to the area it was opened with, e.g. from a
+// shared link.
+const AreaDrawer = ({ area, drawing, onDrawn }: {
+  area: MapArea | null,
+  drawing: MapAreaShape | null,
+  onDrawn: (area: MapArea) => void,
+}) => {
+  const map = useMap();
+  const [draft, setDraft] = useState<L.LatLng[]>([]);
+  const hasFitted = useRef(false);
+
+  useEffect(() => {
+    if (!hasFitted.current && area) {
+      const bounds = areaBounds(areaGeometry(area));
+      map.fitBounds([[bounds.south, bounds.west], [bounds.north, bounds.east]], { padding: [20, 20] });
+    }
+    hasFitted.current = true;
+  }, [map, area]);
+
+  useEffect(() => {
+    if (!drawing) return;
+    const container = map.getContainer();
+    let points: L.LatLng[] = [];
+
+    const latLngOf = (e: PointerEvent) => map.mouseEventToLatLng(e);
+    const pixelDistance = (a: L.LatLng, b: L.LatLng) =>
+      map.latLngToContainerPoint(a).distanceTo(map.latLngToContainerPoint(b));
+
+    // Douglas–Peucker, loosened until the outline has few enough corners
+    const simplifyOutline = (outline: L.LatLng[]) => {
+      const pixels = outline.map(point => map.latLngToContainerPoint(point));
+      let simplified = pixels;
+      for (let tolerance = FREEHAND_TOLERANCE_PX; ; tolerance *= 2) {
+        simplified = L.LineUtil.simplify(pixels, tolerance);
+        if (simplified.length <= MAX_POLYGON_POINTS) break;
+      }
+      return roundOutline(simplified.map(pixel => map.containerPointToLatLng(pixel)));
+    };
+
+    const handleDown = (e: PointerEvent) => {
+      if (e.button !== 0) return;
+      e.preventDefault();
+      container.setPointerCapture(e.pointerId);
+      points = [latLngOf(e)];
+      setDraft(points);
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      if (points.length === 0) return;
+      const point = latLngOf(e);
+      if (drawing === 'polygon') {
+        if (pixelDistance(points[points.length - 1], point) < FREEHAND_SPACING_PX) return;
+        points = [...points, point];
+      } else {
+        points = [points[0], point];
+      }
+      setDraft(points);
+    };
+
+    const handleUp = () => {
+      const [start, end] = points;
+      const drawn = points;
+      points = [];
+      setDraft([]);
+      if (!start || !end) return;
+
+      if (drawing === 'polygon') {
+        const outline = simplifyOutline(drawn);
+        if (outline.length >= 3) onDrawn({ shape: 'polygon', points: outline });
+      } else if (pixelDistance(start, end) >= MIN_AREA_SIZE_PX) {
+        if (drawing === 'circle') {
+          onDrawn({ shape: 'circle', center: { lat: start.lat, lng: start.lng }, radiusMeters: distanceMeters(start, end) });
+        } else {
+          const bounds = L.latLngBounds(start, end);
+          onDrawn({
+            shape: 'rectangle',
+            bounds: { south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast() },
+          });
+        }
+      }
+    };
+
+    map.dragging.disable();
+    container.style.cursor = 'crosshair';
+    container.style.touchAction = 'none';
+    container.addEventListener('pointerdown', handleDown);
+    container.addEventListener('pointermove', handleMove);
+    container.addEventListener('pointerup', handleUp);
+    container.addEventListener('pointercancel', handleUp);
+    return () => {
+      map.dragging.enable();
+      container.style.cursor = '';
+      container.style.touchAction = '';
+      container.removeEventListener('pointerdown', handleDown);
+      container.removeEventListener('pointermove', handleMove);
+      container.removeEventListener('pointerup', handleUp);
+      container.removeEventListener('pointercancel', handleUp);
+      setDraft([]);
+    };
+  }, [map, drawing, onDrawn]);
+
+  const [start, end] = draft;
+  return (
+    <>
+      {area && <AreaShape area={area} />}
+      {drawing === 'rectangle' && start && end && (
+        <Rectangle bounds={L.latLngBounds(start, end)} pathOptions={{ ...AREA_STYLE, dashArray: '6 4' }} interactive={false} />
+      )}
+      {drawing === 'circle' && start && end && (
+        <Circle center={start} radius={start.distanceTo(end)} pathOptions={{ ...AREA_STYLE, dashArray: '6 4' }} interactive={false} />
+      )}
+      {drawing === 'polygon' && draft.length > 1 && (
+        <Polyline positions={draft} pathOptions={{ ...AREA_STYLE, dashArray: '6 4' }} interactive={false} />
+      )}
+    </>
+  );
+};
+
 const OpenStreetMap = ({
-  center = [40.7128, -74.0060], // Default to New York City
+  center = DEFAULT_CENTER,
   zoom = 13,
   height = '600px',
-  reports,
+  points,
   onLocationSelect,
   selectedLocation,
+  previewLocation,
   enableManualPin,
   onLoad,
-  showUseMyLocation = false
+  showUseMyLocation = false,
+  clusterColorBy = 'status',
+  showHeatmap = false,
+  heatmapWeightBy = 'none',
+  wards,
+  area = null,
+  onAreaChange
 }: OpenStreetMapProps) => {
-  const [selectedReport, setSelectedReport] = useState<Report | null>(null);
   const { reports: allReports } = useReports();
   const [isLocating, setIsLocating] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isLiveLocationActive, setIsLiveLocationActive] = useState(false);
   const [manualPinLocation, setManualPinLocation] = useState<[number, number] | null>(null);
+  const [drawing, setDrawing] = useState<MapAreaShape | null>(null);
   const mapRef = useRef<L.Map | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
-  const reportsList = reports || allReports;
+  const reportsList = points ?? allReports;
 
   // Add effect to handle center changes
   useEffect(() => {
@@ -199,6 +640,14 @@ const OpenStreetMap = ({
     }
   }, [selectedLocation, zoom]);
 
+  useEffect(() => {
+    if (mapRef.current && previewLocation) {
+      mapRef.current.flyTo(previewLocation.position, PREVIEW_ZOOM, {
+        duration: 1.5
+      });
+    }
+  }, [previewLocation]);
+
   useEffect(() => {
     if (onLoad) {
       onLoad();
@@ -226,43 +675,10 @@ const OpenStreetMap = ({
     return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
   }, []);
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'reported':
-        return 'red';
-      case 'under_review':
-        return 'blue';
-      case 'in_progress':
-        return 'orange';
-      case 'resolved':
-        return 'green';
-      case 'closed':
-        return 'gray';
-      default:
-        return 'gray';
-    }
-  };
-
-  const getCategoryIcon = (category: string) => {
-    switch (category) {
-      case 'pothole':
-        return '🕳️';
-      case 'streetlight':
-        return '💡';
-      case 'garbage':
-        return '🗑️';
-      case 'graffiti':
-        return '🖌️';
-      case 'road_damage':
-        return '🚧';
-      case 'flooding':
-        return '💧';
-      case 'sign_damage':
-        return '🚫';
-      default:
-        return '📍';
-    }
-  };
+  const handleAreaDrawn = useCallback((drawn: MapArea) => {
+    setDrawing(null);
+    onAreaChange?.(drawn);
+  }, [onAreaChange]);
 
   // Handle manual pin selection
   const handleManualPinSelect = (lat: number, lng: number, address: string) => {
@@ -303,12 +719,9 @@ const OpenStreetMap = ({
       // Reverse geocode to get address
       let address = `${latitude}, ${longitude}`;
       try {
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=18&addressdetails=1`
-        );
-        const data = await response.json();
-        if (data && data.display_name) {
-          address = data.display_name;
+        const place = await reverseGeocode({ lat: latitude, lng: longitude });
+        if (place) {
+          address = place.label;
         }
       } catch (err) {
         // fallback to coordinates
@@ -370,6 +783,40 @@ const OpenStreetMap = ({
       >
         {isFullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
       </Button>
+      {/* Area drawing tools */}
+      {onAreaChange && (
+        <div className="absolute bottom-4 left-4 z-30 flex gap-1 rounded-full bg-white p-1 shadow-lg">
+          {DRAWING_TOOLS.map(({ shape, label, icon: ToolIcon }) => (
+            <Button
+              key={shape}
+              variant="ghost"
+              size="icon"
+              className={`h-8 w-8 rounded-full ${drawing === shape ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'text-gray-700'}`}
+              onClick={() => setDrawing(current => (current === shape ? null : shape))}
+              aria-pressed={drawing === shape}
+              aria-label={label}
+              title={label}
+            >
+              <ToolIcon className="h-4 w-4" />
+            </Button>
+          ))}
+          {area && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 rounded-full text-gray-700"
+              onClick={() => {
+                setDrawing(null);
+                onAreaChange(null);
+              }}
+              aria-label="Clear area"
+              title="Clear area"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )}
       {/* Use My Location Button */}
       {showUseMyLocation && (
         <Button
@@ -403,6 +850,7 @@ const OpenStreetMap = ({
         className="z-10"
         ref={mapRef}
         zoomControl={true}
+        maxZoom={18}
         doubleClickZoom={false}
         scrollWheelZoom={true}
       >
@@ -422,6 +870,19 @@ const OpenStreetMap = ({
           </Marker>
         )}
 
+        {previewLocation && (
+          <Marker
+            position={previewLocation.position}
+            icon={createCustomIcon('violet')}
+            opacity={0.8}
+            zIndexOffset={2000}
+          >
+            <Tooltip direction="top" offset={[1, -34]} permanent>
+              {previewLocation.label}
+            </Tooltip>
+          </Marker>
+        )}
+
         {/* Manual pin handler for map click */}
         {enableManualPin && !isLiveLocationActive && (
           <ManualPinHandler onLocationSelect={handleManualPinSelect} />
@@ -432,42 +893,13 @@ const OpenStreetMap = ({
           <LocationMarker onLocationSelect={onLocationSelect} enableManualPin={enableManualPin} />
         )}
 
-        {reportsList.map(report => (
-          <Marker
-            key={report.id}
-            position={[report.location.coordinates.lat, report.location.coordinates.lng]}
-            icon={createCustomIcon(getStatusColor(report.status))}
-            eventHandlers={{
-              click: () => setSelectedReport(report),
-            }}
-          >
-            <Popup>
-              <div className="max-w-xs">
-                <div className="flex items-center gap-2 mb-2">
-                  <span className="text-lg">{getCategoryIcon(report.category)}</span>
-                  <h3 className="font-medium text-sm">{report.title}</h3>
-                </div>
-                <p className="text-xs text-gray-600 mb-2">{report.location.address}</p>
-                <div className="flex items-center justify-between">
-                  <Badge variant="outline" className={`text-xs bg-${getStatusColor(report.status)}-100 text-${getStatusColor(report.status)}-800`}>
-                    {report.status.replace('_', ' ')}
-                  </Badge>
-                  <span className="text-xs text-gray-500">
-                    {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
-                  </span>
-                </div>
-                <div className="mt-2">
-                  <Link 
-                    to={`/issue/${report.id}`} 
-                    className="text-xs text-primary hover:underline"
-                  >
-                    View details
-                  </Link>
-                </div>
-              </div>
-            </Popup>
-          </Marker>
-        ))}
+        {wards && wards.length > 0 && <WardBoundaries wards={wards} />}
+
+        {onAreaChange && <AreaDrawer area={area} drawing={drawing} onDrawn={handleAreaDrawn} />}
+
+        {showHeatmap && <HeatmapLayer points={reportsList} weightBy={heatmapWeightBy} />}
+
+        <ReportMarkers reports={reportsList} colorBy={clusterColorBy} />
       </MapContainer>
     </div>
   );
@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { CloudOff, Loader2, Pencil, RefreshCw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { useOutbox } from '@/hooks/use-outbox';
+import type { OutboxEntry } from '@/lib/outbox';
+import { ISSUE_CATEGORIES, ISSUE_SEVERITIES, type IssueCategory, type IssueSeverity } from '@/lib/types/issue';
+
+const formatLabel = (value: string) => value.replace(/_/g, ' ');
+
+const isSending = (entry: OutboxEntry) => entry.sendingSince !== null;
+
+interface EditPendingReportDialogProps {
+  entry: OutboxEntry | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (entry: OutboxEntry, changes: Pick<OutboxEntry, 'draft' | 'photos'>) => Promise<void>;
+}
+
+const EditPendingReportDialog: React.FC<EditPendingReportDialogProps> = ({ entry, onOpenChange, onSave }) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<IssueCategory>('other');
+  const [severity, setSeverity] = useState<IssueSeverity>('medium');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!entry) return;
+    setTitle(entry.draft.title);
+    setDescription(entry.draft.description);
+    setCategory(entry.draft.category);
+    setSeverity(entry.draft.severity);
+    setPhotos(entry.photos);
+  }, [entry]);
+
+  const isValid = title.trim().length >= 5 && description.trim().length >= 20;
+
+  const handleSave = async () => {
+    if (!entry) return;
+    setIsSaving(true);
+    try {
+      await onSave(entry, {
+        draft: { ...entry.draft, title: title.trim(), description: description.trim(), category, severity },
+        photos,
+      });
+      onOpenChange(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Edit Pending Report</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="pending-title">Title</Label>
+            <Input id="pending-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="pending-description">Description</Label>
+            <Textarea
+              id="pending-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="min-h-[100px]"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="pending-category">Category</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as IssueCategory)}>
+                <SelectTrigger id="pending-category" className="capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ISSUE_CATEGORIES.map(value => (
+                    <SelectItem key={value} value={value} className="capitalize">
+                      {formatLabel(value)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="pending-severity">Severity</Label>
+              <Select value={severity} onValueChange={(value) => setSeverity(value as IssueSeverity)}>
+                <SelectTrigger id="pending-severity" className="capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ISSUE_SEVERITIES.map(value => (
+                    <SelectItem key={value} value={value} className="capitalize">
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {photos.length > 0 && (
+            <div className="grid gap-2">
+              <Label>Photos waiting to upload</Label>
+              <ul className="space-y-1">
+                {photos.map((photo, index) => (
+                  <li key={`${photo.name}-${index}`} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{photo.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setPhotos(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!isValid || isSaving}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save and send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface PendingReportsProps {
+  userId: string;
+}
+
+// Reports saved on this device that haven't reached the server yet
+const PendingReports: React.FC<PendingReportsProps> = ({ userId }) => {
+  const { entries, update, retry, discard } = useOutbox(userId);
+  const [editing, setEditing] = useState<OutboxEntry | null>(null);
+  const [discarding, setDiscarding] = useState<OutboxEntry | null>(null);
+
+  if (entries.length === 0) return null;
+
+  const showError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : 'Please try again.',
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = async (entry: OutboxEntry, changes: Pick<OutboxEntry, 'draft' | 'photos'>) => {
+    try {
+      await update(entry.id, changes);
+    } catch (error) {
+      showError("Couldn't update report", error);
+      throw error;
+    }
+  };
+
+  const handleRetry = async (entry: OutboxEntry) => {
+    try {
+      await retry(entry.id);
+    } catch (error) {
+      showError("Couldn't retry report", error);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!discarding) return;
+    try {
+      await discard(discarding.id);
+      toast({ title: "Report discarded" });
+    } catch (error) {
+      showError("Couldn't discard report", error);
+    } finally {
+      setDiscarding(null);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CloudOff className="h-5 w-5 text-muted-foreground" />
+          Pending Sync
+        </CardTitle>
+        <CardDescription>
+          These reports are saved on this device and will be sent automatically when you're online.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {entries.map(entry => (
+            <li key={entry.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{entry.draft.title}</span>
+                  <Badge variant="outline" className="capitalize">{formatLabel(entry.draft.category)}</Badge>
+                  {isSending(entry) && <Badge variant="secondary">Sending…</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Saved {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                  {entry.photos.length > 0 && ` · ${entry.photos.length} photo${entry.photos.length === 1 ? '' : 's'} to upload`}
+                  {entry.attempts > 0 && !isSending(entry) && entry.nextAttemptAt &&
+                    ` · Next try ${formatDistanceToNow(new Date(entry.nextAttemptAt), { addSuffix: true })}`}
+                </p>
+                {entry.lastError && (
+                  <p className="text-xs text-destructive mt-1">
+                    {entry.nextAttemptAt ? 'Last attempt failed' : "Couldn't be sent, edit it and try again"}: {entry.lastError}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button variant="outline" size="sm" onClick={() => handleRetry(entry)} disabled={isSending(entry)}>
+                  <RefreshCw className="mr-1 h-4 w-4" />
+                  Retry
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setEditing(entry)} disabled={isSending(entry)}>
+                  <Pencil className="mr-1 h-4 w-4" />
+                  Edit
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setDiscarding(entry)} disabled={isSending(entry)}>
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Discard
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+
+      <EditPendingReportDialog
+        entry={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!discarding} onOpenChange={(open) => !open && setDiscarding(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard this report?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{discarding?.draft.title}" hasn't been sent yet. Discarding it removes it and its photos from this device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDiscard}>Discard</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default PendingReports;
@@ -6,14 +6,15 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Report, ReportStatus } from '@/contexts/ReportContext';
 import { formatDistanceToNow } from 'date-fns';
-import { MapPin, ThumbsUp, MessageSquare, Loader2, ArrowRight } from 'lucide-react';
+import { MapPin, ThumbsUp, MessageSquare, Loader2, ArrowRight, Bell } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/components/ui/use-toast';
 import { cn } from '@/lib/utils';
 
 interface ReportCardProps {
   report: Report;
-  onUpvote: (reportId: string) => void;
+  onToggleUpvote: (reportId: string, upvote: boolean) => Promise<void>;
+  onToggleFollow: (reportId: string, follow: boolean) => Promise<void>;
 }
 
 const getStatusColor = (status: ReportStatus) => {
@@ -41,6 +42,8 @@ const getSeverityColor = (severity: string) => {
       return 'bg-yellow-100 text-yellow-800';
     case 'high':
       return 'bg-red-100 text-red-800';
+    case 'critical':
+      return 'bg-red-200 text-red-900';
     default:
       return 'bg-gray-100 text-gray-800';
   }
@@ -55,11 +58,12 @@ const formatStatusLabel = (status: ReportStatus) => {
   return status.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase());
 };
 
-const ReportCard: React.FC<ReportCardProps> = ({ report, onUpvote }) => {
+const ReportCard: React.FC<ReportCardProps> = ({ report, onToggleUpvote, onToggleFollow }) => {
   const { isAuthenticated, currentUser } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
   const [isUpvoting, setIsUpvoting] = useState(false);
+  const [isFollowing, setIsFollowing] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   
   const {
@@ -75,30 +79,52 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onUpvote }) => {
     createdAt,
     upvotes,
     upvotedBy = [],
+    followedBy = [],
     comments,
   } = report;
 
   const hasUpvoted = currentUser ? upvotedBy.includes(currentUser.id) : false;
+  const hasFollowed = currentUser ? followedBy.includes(currentUser.id) : false;
 
   const handleUpvote = async (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (!isAuthenticated || hasUpvoted || isUpvoting) return;
+    if (!isAuthenticated || isUpvoting) return;
     
     try {
       setIsUpvoting(true);
-      await onUpvote(id);
+      await onToggleUpvote(id, !hasUpvoted);
+      toast(hasUpvoted
+        ? { title: "Upvote removed", description: "Your upvote has been withdrawn." }
+        : { title: "Upvoted successfully", description: "Your upvote has been recorded." });
+    } catch (error) {
       toast({
-        title: "Upvoted successfully",
-        description: "Your upvote has been recorded.",
+        title: "Error",
+        description: hasUpvoted ? "Failed to remove upvote. Please try again." : "Failed to upvote. Please try again.",
+        variant: "destructive",
       });
+    } finally {
+      setIsUpvoting(false);
+    }
+  };
+
+  const handleFollow = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!isAuthenticated || isFollowing) return;
+
+    try {
+      setIsFollowing(true);
+      await onToggleFollow(id, !hasFollowed);
+      toast(hasFollowed
+        ? { title: "Unfollowed", description: "You'll no longer hear about changes to this issue." }
+        : { title: "Following", description: "You'll be told when this issue's status changes." });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to upvote. Please try again.",
+        description: hasFollowed ? "Failed to unfollow. Please try again." : "Failed to follow. Please try again.",
         variant: "destructive",
       });
     } finally {
-      setIsUpvoting(false);
+      setIsFollowing(false);
     }
   };
 
@@ -204,19 +230,39 @@ const ReportCard: React.FC<ReportCardProps> = ({ report, onUpvote }) => {
             size="sm" 
             className={cn(
               "flex items-center text-muted-foreground hover:text-primary transition-colors duration-200",
-              hasUpvoted && "opacity-50 cursor-not-allowed"
+              hasUpvoted && "text-primary"
             )}
             onClick={handleUpvote}
-            disabled={!isAuthenticated || hasUpvoted || isUpvoting}
-            aria-label={hasUpvoted ? 'Already upvoted' : `Upvote (${upvotes} upvotes)`}
+            disabled={!isAuthenticated || isUpvoting}
+            aria-pressed={hasUpvoted}
+            aria-label={hasUpvoted ? `Remove upvote (${upvotes} upvotes)` : `Upvote (${upvotes} upvotes)`}
           >
             {isUpvoting ? (
               <Loader2 className="h-4 w-4 mr-1 animate-spin" />
             ) : (
-              <ThumbsUp className="h-4 w-4 mr-1" />
+              <ThumbsUp className={cn("h-4 w-4 mr-1", hasUpvoted && "fill-current")} />
             )}
             <span className="text-xs">{upvotes}</span>
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "flex items-center text-muted-foreground hover:text-primary transition-colors duration-200",
+              hasFollowed && "text-primary"
+            )}
+            onClick={handleFollow}
+            disabled={!isAuthenticated || isFollowing}
+            aria-pressed={hasFollowed}
+            aria-label={hasFollowed ? `Unfollow (${followedBy.length} followers)` : `Follow (${followedBy.length} followers)`}
+          >
+            {isFollowing ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Bell className={cn("h-4 w-4 mr-1", hasFollowed && "fill-current")} />
+            )}
+            <span className="text-xs">{followedBy.length}</span>
+          </Button>
         </div>
       </CardFooter>
       <div className="absolute right-4 top-4 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
@@ -3,25 +3,33 @@ import React from 'react';
 import { useReports, Report } from '@/contexts/ReportContext';
 import { useAuth } from '@/contexts/AuthContext';
 import ReportCard from './ReportCard';
+import { Button } from '@/components/ui/button';
 import { toast } from '@/components/ui/use-toast';
+import { Loader2 } from 'lucide-react';
 
 interface ReportListProps {
   reports?: Report[];
   title?: string;
   emptyMessage?: string;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 const ReportList: React.FC<ReportListProps> = ({ 
   reports,
   title = "Recent Reports",
-  emptyMessage = "No reports found"
+  emptyMessage = "No reports found",
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore
 }) => {
-  const { upvoteReport } = useReports();
+  const { upvoteReport, removeUpvote, followReport, unfollowReport } = useReports();
   const { currentUser, isAuthenticated } = useAuth();
   
   const reportsList = reports || [];
 
-  const handleUpvote = (reportId: string) => {
+  const handleToggleUpvote = async (reportId: string, upvote: boolean) => {
     if (!isAuthenticated || !currentUser) {
       toast({
         title: "Authentication required",
@@ -31,11 +39,28 @@ const ReportList: React.FC<ReportListProps> = ({
       return;
     }
     
-    upvoteReport(reportId, currentUser.id);
-    toast({
-      title: "Report upvoted",
-      description: "Thank you for your feedback!"
-    });
+    if (upvote) {
+      await upvoteReport(reportId, currentUser.id);
+    } else {
+      await removeUpvote(reportId, currentUser.id);
+    }
+  };
+
+  const handleToggleFollow = async (reportId: string, follow: boolean) => {
+    if (!isAuthenticated || !currentUser) {
+      toast({
+        title: "Authentication required",
+        description: "Please sign in to follow reports",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (follow) {
+      await followReport(reportId, currentUser.id);
+    } else {
+      await unfollowReport(reportId, currentUser.id);
+    }
   };
 
   return (
@@ -49,11 +74,20 @@ const ReportList: React.FC<ReportListProps> = ({
             <ReportCard 
               key={report.id} 
               report={report} 
-              onUpvote={handleUpvote}
+              onToggleUpvote={handleToggleUpvote}
+              onToggleFollow={handleToggleFollow}
             />
           ))}
         </div>
       )}
+      {hasMore && onLoadMore && (
+        <div className="flex justify-center mt-6">
+          <Button variant="outline" onClick={onLoadMore} disabled={isLoadingMore}>
+            {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load more
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,42 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { can, type PermissionAction } from '@/lib/permissions';
+import type { UserRole } from '@/lib/repository';
+import Forbidden from '@/pages/Forbidden';
+
+// What a route needs. Any role or permission implies being signed in.
+export interface RouteAccess {
+  auth?: boolean;
+  roles?: UserRole[];
+  permission?: PermissionAction;
+}
+
+// Where Login sends the user back to, passed as router state
+export interface ReturnToState {
+  from?: { pathname: string; search?: string; hash?: string };
+}
+
+interface RouteGuardProps {
+  access: RouteAccess;
+}
+
+// Layout route for the routes nested under it. Signed-out users are sent to
+// the login page and brought back afterwards; signed-in users without access
+// get a 403 at the same URL.
+const RouteGuard = ({ access }: RouteGuardProps) => {
+  const { currentUser, isAuthenticated } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated || !currentUser) {
+    const state: ReturnToState = { from: location };
+    return <Navigate to="/login" state={state} replace />;
+  }
+
+  const allowed =
+    (!access.roles || access.roles.includes(currentUser.role)) &&
+    (!access.permission || can(currentUser, access.permission));
+
+  return allowed ? <Outlet /> : <Forbidden />;
+};
+
+export default RouteGuard;
@@ -1,4 +1,5 @@
-import { Issue, IssueComment, IssuePriority, IssueStatus } from '@/lib/types/issue';
+import { useState } from 'react';
+import { Issue, IssueSeverity, IssueStatus, StaffMember } from '@/lib/types/issue';
 import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -12,16 +13,22 @@ import {
 } from '@/components/ui/select';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { MapPin, MessageSquare, Paperclip } from 'lucide-react';
+import IssueTimeline from '@/components/IssueTimeline';
+import AssigneePicker from '@/components/AssigneePicker';
+import { useAuth } from '@/contexts/AuthContext';
+import { statusLabel, statusOptions } from '@/lib/workflow';
+import { can, issueResource } from '@/lib/permissions';
 
 interface IssueDetailsProps {
   issue: Issue;
   onStatusChange: (status: IssueStatus) => void;
-  onPriorityChange: (priority: IssuePriority) => void;
-  onAssign: (userId: string) => void;
+  onPriorityChange: (severity: IssueSeverity) => void;
+  // `note` is kept with the reassignment in the issue's history
+  onAssign: (assignee: StaffMember | null, note?: string) => void;
   onComment: (content: string) => void;
 }
 
-const priorityColors: Record<IssuePriority, string> = {
+const priorityColors: Record<IssueSeverity, string> = {
   low: 'bg-blue-100 text-blue-800',
   medium: 'bg-yellow-100 text-yellow-800',
   high: 'bg-orange-100 text-orange-800',
@@ -29,8 +36,9 @@ const priorityColors: Record<IssuePriority, string> = {
 };
 
 const statusColors: Record<IssueStatus, string> = {
-  'open': 'bg-green-100 text-green-800',
-  'in-progress': 'bg-blue-100 text-blue-800',
+  'reported': 'bg-green-100 text-green-800',
+  'under_review': 'bg-yellow-100 text-yellow-800',
+  'in_progress': 'bg-blue-100 text-blue-800',
   'resolved': 'bg-purple-100 text-purple-800',
   'closed': 'bg-gray-100 text-gray-800',
 };
@@ -42,6 +50,10 @@ export function IssueDetails({
   onAssign,
   onComment,
 }: IssueDetailsProps) {
+  const { currentUser } = useAuth();
+  const [assignee, setAssignee] = useState<StaffMember | null>(issue.assignedTo ?? null);
+  const [assignNote, setAssignNote] = useState('');
+
   return (
     <div className="p-6 space-y-6">
       <div className="flex justify-between items-start">
@@ -58,16 +70,18 @@ export function IssueDetails({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="open">Open</SelectItem>
-              <SelectItem value="in-progress">In Progress</SelectItem>
-              <SelectItem value="resolved">Resolved</SelectItem>
-              <SelectItem value="closed">Closed</SelectItem>
+              {statusOptions(issue, currentUser).map(status => (
+                <SelectItem key={status} value={status}>
+                  {statusLabel(status)}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
           <Select
-            value={issue.priority}
+            value={issue.severity}
             onValueChange={onPriorityChange}
+            disabled={!can(currentUser, 'issue:prioritize', issueResource(issue))}
           >
             <SelectTrigger className="w-[140px]">
               <SelectValue />
@@ -100,7 +114,7 @@ export function IssueDetails({
           <div>
             <h2 className="text-lg font-semibold mb-2">Attachments</h2>
             <div className="flex gap-2">
-              {issue.attachments.map((attachment, index) => (
+              {issue.images.map((image, index) => (
                 <Button
                   key={index}
                   variant="outline"
@@ -113,6 +127,13 @@ export function IssueDetails({
               ))}
             </div>
           </div>
+
+          {issue.resolutionNotes && (
+            <div>
+              <h2 className="text-lg font-semibold mb-2">Resolution</h2>
+              <p className="text-gray-700 whitespace-pre-line">{issue.resolutionNotes}</p>
+            </div>
+          )}
         </div>
 
         <div className="space-y-4">
@@ -121,74 +142,76 @@ export function IssueDetails({
             <div className="space-y-2">
               <div className="flex justify-between">
                 <span className="text-gray-500">Created</span>
-                <span>{format(issue.createdAt, 'MMM dd, yyyy HH:mm')}</span>
+                <span>{format(new Date(issue.createdAt), 'MMM dd, yyyy HH:mm')}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-500">Updated</span>
-                <span>{format(issue.updatedAt, 'MMM dd, yyyy HH:mm')}</span>
+                <span>{format(new Date(issue.updatedAt), 'MMM dd, yyyy HH:mm')}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-500">Created By</span>
-                <span>{issue.createdBy}</span>
+                <span>{issue.reportedBy.name}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-gray-500">Category</span>
-                <span>{issue.category}</span>
+                <span className="capitalize">{issue.category.replace('_', ' ')}</span>
               </div>
             </div>
           </div>
 
           <div>
             <h2 className="text-lg font-semibold mb-2">Assignment</h2>
-            <Select
-              value={issue.assignedTo || ''}
-              onValueChange={onAssign}
-            >
-              <SelectTrigger>
-                <SelectValue placeholder="Assign to..." />
-              </SelectTrigger>
-              <SelectContent>
-                {/* Add your user list here */}
-                <SelectItem value="user1">John Doe</SelectItem>
-                <SelectItem value="user2">Jane Smith</SelectItem>
-              </SelectContent>
-            </Select>
+            <div className="space-y-2">
+              <AssigneePicker
+                value={assignee?.id}
+                onChange={setAssignee}
+                disabled={!can(currentUser, 'issue:assign', issueResource(issue))}
+              />
+              {(assignee?.id ?? null) !== (issue.assignedTo?.id ?? null) && (
+                <>
+                  <Textarea
+                    placeholder="Note for the handover (optional)"
+                    value={assignNote}
+                    onChange={(e) => setAssignNote(e.target.value)}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => {
+                      onAssign(assignee, assignNote);
+                      setAssignNote('');
+                    }}
+                  >
+                    {assignee ? 'Assign' : 'Unassign'}
+                  </Button>
+                </>
+              )}
+            </div>
           </div>
         </div>
       </div>
 
+      <div className="border-t pt-6">
+        <h2 className="text-lg font-semibold mb-4">History</h2>
+        <IssueTimeline issueId={issue.id} />
+      </div>
+
       <div className="border-t pt-6">
         <h2 className="text-lg font-semibold mb-4">Comments</h2>
         <div className="space-y-4">
           {issue.comments.map((comment) => (
             <div key={comment.id} className="flex gap-4">
               <Avatar>
-                <AvatarImage src={`https://avatar.vercel.sh/${comment.createdBy}`} />
-                <AvatarFallback>{comment.createdBy[0]}</AvatarFallback>
+                <AvatarImage src={`https://avatar.vercel.sh/${comment.user.id}`} />
+                <AvatarFallback>{comment.user.name[0]}</AvatarFallback>
               </Avatar>
               <div className="flex-1">
                 <div className="flex items-center gap-2">
-                  <span className="font-medium">{comment.createdBy}</span>
+                  <span className="font-medium">{comment.user.name}</span>
                   <span className="text-gray-500">
-                    {format(comment.createdAt, 'MMM dd, yyyy HH:mm')}
+                    {format(new Date(comment.createdAt), 'MMM dd, yyyy HH:mm')}
                   </span>
                 </div>
-                <p className="mt-1">{comment.content}</p>
-                {comment.attachments.length > 0 && (
-                  <div className="flex gap-2 mt-2">
-                    {comment.attachments.map((attachment, index) => (
-                      <Button
-                        key={index}
-                        variant="outline"
-                        size="sm"
-                        className="flex items-center gap-2"
-                      >
-                        <Paperclip className="h-4 w-4" />
-                        Attachment {index + 1}
-                      </Button>
-                    ))}
-                  </div>
-                )}
+                <p className="mt-1">{comment.text}</p>
               </div>
             </div>
           ))}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Issue, IssuePriority, IssueStatus } from '@/lib/types/issue';
+import { ISSUE_CATEGORIES, Issue, IssueCategory, IssueSeverity, IssueStatus } from '@/lib/types/issue';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -24,9 +24,9 @@ export function IssueForm({ issue, onSubmit, onCancel }: IssueFormProps) {
     issue || {
       title: '',
       description: '',
-      status: 'open',
-      priority: 'medium',
-      category: '',
+      status: 'reported',
+      severity: 'medium',
+      category: 'other',
       location: {
         address: '',
         coordinates: {
@@ -34,7 +34,7 @@ export function IssueForm({ issue, onSubmit, onCancel }: IssueFormProps) {
           lng: 0,
         },
       },
-      attachments: [],
+      images: [],
     }
   );
 
@@ -45,7 +45,7 @@ export function IssueForm({ issue, onSubmit, onCancel }: IssueFormProps) {
 
   const handleChange = (
     field: keyof Issue,
-    value: string | IssueStatus | IssuePriority
+    value: string | IssueStatus | IssueSeverity | IssueCategory
   ) => {
     setFormData((prev) => ({
       ...prev,
@@ -100,8 +100,9 @@ export function IssueForm({ issue, onSubmit, onCancel }: IssueFormProps) {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="open">Open</SelectItem>
-                <SelectItem value="in-progress">In Progress</SelectItem>
+                <SelectItem value="reported">Reported</SelectItem>
+                <SelectItem value="under_review">Under Review</SelectItem>
+                <SelectItem value="in_progress">In Progress</SelectItem>
                 <SelectItem value="resolved">Resolved</SelectItem>
                 <SelectItem value="closed">Closed</SelectItem>
               </SelectContent>
@@ -111,9 +112,9 @@ export function IssueForm({ issue, onSubmit, onCancel }: IssueFormProps) {
           <div>
             <Label htmlFor="priority">Priority</Label>
             <Select
-              value={formData.priority}
-              onValueChange={(value: IssuePriority) =>
-                handleChange('priority', value)
+              value={formData.severity}
+              onValueChange={(value: IssueSeverity) =>
+                handleChange('severity', value)
               }
             >
               <SelectTrigger>
@@ -131,13 +132,21 @@ export function IssueForm({ issue, onSubmit, onCancel }: IssueFormProps) {
 
         <div>
           <Label htmlFor="category">Category</Label>
-          <Input
-            id="category"
+          <Select
             value={formData.category}
-            onChange={(e) => handleChange('category', e.target.value)}
-            placeholder="Enter issue category"
-            required
-          />
+            onValueChange={(value: IssueCategory) => handleChange('category', value)}
+          >
+            <SelectTrigger id="category">
+              <SelectValue placeholder="Select a category" />
+            </SelectTrigger>
+            <SelectContent>
+              {ISSUE_CATEGORIES.map((category) => (
+                <SelectItem key={category} value={category} className="capitalize">
+                  {category.replace('_', ' ')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         <div>
@@ -170,9 +179,9 @@ export function IssueForm({ issue, onSubmit, onCancel }: IssueFormProps) {
               Add Attachments
             </Button>
           </div>
-          {formData.attachments && formData.attachments.length > 0 && (
+          {formData.images && formData.images.length > 0 && (
             <div className="mt-2 flex flex-wrap gap-2">
-              {formData.attachments.map((attachment, index) => (
+              {formData.images.map((image, index) => (
                 <div
                   key={index}
                   className="flex items-center gap-2 bg-gray-100 px-3 py-1 rounded-full"
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Issue, IssueFilter, IssuePriority, IssueStatus } from '@/lib/types/issue';
+import { Issue, IssueFilter, IssueSeverity, IssueStatus } from '@/lib/types/issue';
 import {
   Table,
   TableBody,
@@ -27,7 +27,7 @@ import {
 import { format } from 'date-fns';
 import { CalendarIcon, Filter, Search } from 'lucide-react';
 
-const priorityColors: Record<IssuePriority, string> = {
+const priorityColors: Record<IssueSeverity, string> = {
   low: 'bg-blue-100 text-blue-800',
   medium: 'bg-yellow-100 text-yellow-800',
   high: 'bg-orange-100 text-orange-800',
@@ -35,8 +35,9 @@ const priorityColors: Record<IssuePriority, string> = {
 };
 
 const statusColors: Record<IssueStatus, string> = {
-  'open': 'bg-green-100 text-green-800',
-  'in-progress': 'bg-blue-100 text-blue-800',
+  'reported': 'bg-green-100 text-green-800',
+  'under_review': 'bg-yellow-100 text-yellow-800',
+  'in_progress': 'bg-blue-100 text-blue-800',
   'resolved': 'bg-purple-100 text-purple-800',
   'closed': 'bg-gray-100 text-gray-800',
 };
@@ -79,16 +80,17 @@ export function IssueManagement() {
             <SelectValue placeholder="Status" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="open">Open</SelectItem>
-            <SelectItem value="in-progress">In Progress</SelectItem>
+            <SelectItem value="reported">Reported</SelectItem>
+            <SelectItem value="under_review">Under Review</SelectItem>
+            <SelectItem value="in_progress">In Progress</SelectItem>
             <SelectItem value="resolved">Resolved</SelectItem>
             <SelectItem value="closed">Closed</SelectItem>
           </SelectContent>
         </Select>
 
         <Select
-          value={filter.priority?.[0]}
-          onValueChange={(value) => handleFilterChange('priority', [value])}
+          value={filter.severity?.[0]}
+          onValueChange={(value) => handleFilterChange('severity', [value])}
         >
           <SelectTrigger className="w-[180px]">
             <SelectValue placeholder="Priority" />
@@ -160,12 +162,12 @@ export function IssueManagement() {
                   </Badge>
                 </TableCell>
                 <TableCell>
-                  <Badge className={priorityColors[issue.priority]}>
-                    {issue.priority}
+                  <Badge className={priorityColors[issue.severity]}>
+                    {issue.severity}
                   </Badge>
                 </TableCell>
-                <TableCell>{issue.assignedTo || 'Unassigned'}</TableCell>
-                <TableCell>{format(issue.createdAt, 'MMM dd, yyyy')}</TableCell>
+                <TableCell>{issue.assignedTo?.name || 'Unassigned'}</TableCell>
+                <TableCell>{format(new Date(issue.createdAt), 'MMM dd, yyyy')}</TableCell>
                 <TableCell>
                   <Button variant="ghost" size="sm">
                     View
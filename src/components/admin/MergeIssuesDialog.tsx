@@ -0,0 +1,124 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ThumbsUp } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { toast } from '@/components/ui/use-toast';
+import { useReports } from '@/contexts/ReportContext';
+import type { Issue } from '@/lib/types/issue';
+import { statusLabel } from '@/lib/workflow';
+
+interface MergeIssuesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  issues: Issue[];
+  onMerged?: () => void;
+}
+
+// The first report usually has the most history, so it is the default primary
+const oldestIssue = (issues: Issue[]) =>
+  [...issues].sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+
+export function MergeIssuesDialog({ open, onOpenChange, issues, onMerged }: MergeIssuesDialogProps) {
+  const { mergeReports } = useReports();
+  const [primaryId, setPrimaryId] = React.useState('');
+  const [note, setNote] = React.useState('');
+  const [isMerging, setIsMerging] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open || issues.length === 0) return;
+    setPrimaryId(oldestIssue(issues).id);
+    setNote('');
+  }, [open, issues]);
+
+  const primary = issues.find(issue => issue.id === primaryId);
+  const duplicates = issues.filter(issue => issue.id !== primaryId);
+
+  const handleMerge = async () => {
+    if (!primary) return;
+    setIsMerging(true);
+    try {
+      await mergeReports(primary.id, duplicates.map(issue => issue.id), note);
+      toast({
+        title: "Issues Merged",
+        description: `${duplicates.length} ${duplicates.length === 1 ? 'issue was' : 'issues were'} merged into "${primary.title}".`,
+      });
+      onOpenChange(false);
+      onMerged?.();
+    } catch (error) {
+      console.error('Error merging issues:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to merge the issues. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge {issues.length} issues</DialogTitle>
+          <DialogDescription>
+            Pick the issue to keep. Comments, photos, votes and followers of the others move to it,
+            and they are closed as duplicates. You can undo this from the kept issue's page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={primaryId} onValueChange={setPrimaryId} className="gap-2">
+          {issues.map(issue => (
+            <Label
+              key={issue.id}
+              htmlFor={`primary-${issue.id}`}
+              className="flex items-start gap-3 rounded-md border p-3 font-normal cursor-pointer has-[:checked]:border-primary"
+            >
+              <RadioGroupItem value={issue.id} id={`primary-${issue.id}`} className="mt-1" />
+              <div className="min-w-0 flex-1 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium line-clamp-1">{issue.title}</span>
+                  {issue.id === primaryId && <Badge>Keep</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground line-clamp-1">{issue.location.address}</p>
+                <div className="flex flex-wrap items-center gap-x-3 text-xs text-muted-foreground">
+                  <span>{statusLabel(issue.status)}</span>
+                  <span>{format(new Date(issue.createdAt), 'PP')} by {issue.reportedBy.name}</span>
+                  <span className="flex items-center gap-1">
+                    <ThumbsUp className="h-3 w-3" />
+                    {issue.upvotes}
+                  </span>
+                </div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="grid gap-2">
+          <Label htmlFor="merge-note">Note (optional)</Label>
+          <Textarea
+            id="merge-note"
+            placeholder="Why are these the same issue? Shown in each issue's history."
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className="min-h-[80px]"
+          />
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={isMerging || !primary || duplicates.length === 0}>
+            {isMerging ? "Merging..." : "Merge Issues"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
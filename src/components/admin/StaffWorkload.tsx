@@ -0,0 +1,93 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useStaffWorkload } from '@/hooks/use-staff';
+import type { WorkloadAge } from '@/lib/types/issue';
+import { openStatuses, statusLabel } from '@/lib/workflow';
+
+const AGE_LABELS: Record<WorkloadAge, string> = {
+  week: '< 7 days',
+  month: '7–30 days',
+  older: '> 30 days',
+};
+
+// Staff directory with each member's open assigned issues by status and age
+export function StaffWorkload() {
+  const { data: workloads = [], isLoading, error } = useStaffWorkload();
+  const statuses = openStatuses();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground py-4">Staff workload could not be loaded.</p>;
+  }
+
+  if (workloads.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No staff members yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Staff member</TableHead>
+          <TableHead className="text-right">Open</TableHead>
+          {statuses.map(status => (
+            <TableHead key={status} className="text-right">{statusLabel(status)}</TableHead>
+          ))}
+          {(Object.keys(AGE_LABELS) as WorkloadAge[]).map(age => (
+            <TableHead key={age} className="text-right">{AGE_LABELS[age]}</TableHead>
+          ))}
+          <TableHead>Oldest</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {workloads.map(({ staff, open, byStatus, byAge, oldestCreatedAt }) => (
+          <TableRow key={staff.id}>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <Avatar className="h-7 w-7">
+                  <AvatarImage src={staff.avatarUrl} />
+                  <AvatarFallback>{staff.name.charAt(0)}</AvatarFallback>
+                </Avatar>
+                <span className="font-medium">{staff.name}</span>
+              </div>
+            </TableCell>
+            <TableCell className="text-right">
+              <Badge variant={open > 0 ? 'default' : 'outline'}>{open}</Badge>
+            </TableCell>
+            {statuses.map(status => (
+              <TableCell key={status} className="text-right">{byStatus[status] ?? 0}</TableCell>
+            ))}
+            {(Object.keys(AGE_LABELS) as WorkloadAge[]).map(age => (
+              <TableCell
+                key={age}
+                className={age === 'older' && byAge[age] > 0 ? 'text-right text-red-600 font-medium' : 'text-right'}
+              >
+                {byAge[age]}
+              </TableCell>
+            ))}
+            <TableCell className="text-sm text-muted-foreground">
+              {oldestCreatedAt ? formatDistanceToNow(new Date(oldestCreatedAt), { addSuffix: true }) : '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,213 @@
+import React from 'react';
+import { addDays, format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { toast } from '@/components/ui/use-toast';
+import { UserAuditTrail } from '@/components/admin/UserAuditTrail';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUpdateUser } from '@/hooks/use-users';
+import {
+  ACCOUNT_STATUSES,
+  DEPARTMENTS,
+  USER_ROLES,
+  type AccountStatus,
+  type Department,
+  type UserRole,
+} from '@/lib/repository';
+import { ACCOUNT_STATUS_LABELS, DEPARTMENT_LABELS, ROLE_LABELS } from '@/lib/permissions';
+import type { ManagedUser, UserAccountChange } from '@/lib/types/user';
+
+// How long a new suspension lasts, in days
+const SUSPENSION_LENGTHS: Record<string, string> = {
+  '1': '1 day',
+  '7': '7 days',
+  '30': '30 days',
+  indefinite: 'Until lifted',
+};
+
+const NO_DEPARTMENT = 'none';
+
+interface UserAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: ManagedUser | null;
+}
+
+export function UserAccountDialog({ open, onOpenChange, user }: UserAccountDialogProps) {
+  const { currentUser } = useAuth();
+  const updateUser = useUpdateUser();
+  const [role, setRole] = React.useState<UserRole>('citizen');
+  const [department, setDepartment] = React.useState<Department | typeof NO_DEPARTMENT>(NO_DEPARTMENT);
+  const [status, setStatus] = React.useState<AccountStatus>('active');
+  // Empty keeps the end of a suspension already in place
+  const [suspensionLength, setSuspensionLength] = React.useState('');
+  const [note, setNote] = React.useState('');
+
+  // Start from the user's current account each time the dialog opens
+  React.useEffect(() => {
+    if (!open || !user) return;
+    setRole(user.role);
+    setDepartment(user.department ?? NO_DEPARTMENT);
+    setStatus(user.status);
+    setSuspensionLength(user.status === 'suspended' ? '' : '7');
+    setNote('');
+  }, [open, user]);
+
+  if (!user) return null;
+
+  const isSelf = user.id === currentUser?.id;
+  const nextDepartment = department === NO_DEPARTMENT ? null : department;
+  const roleChanged = role !== user.role || nextDepartment !== user.department;
+  const statusChanged = status !== user.status || (status === 'suspended' && suspensionLength !== '');
+  // Locking someone out needs a reason on record
+  const needsNote = statusChanged && status !== 'active';
+  const canSave = !isSelf && (roleChanged || statusChanged) && (!needsNote || !!note.trim());
+
+  const handleSave = async () => {
+    const change: UserAccountChange = {};
+    if (roleChanged) {
+      change.role = role;
+      change.department = nextDepartment;
+    }
+    if (statusChanged) {
+      change.status = status;
+      change.suspendedUntil = status === 'suspended' && suspensionLength !== 'indefinite'
+        ? addDays(new Date(), Number(suspensionLength)).toISOString()
+        : null;
+    }
+
+    try {
+      await updateUser.mutateAsync({ id: user.id, change, note });
+      toast({
+        title: "Account Updated",
+        description: `${user.name}'s account has been updated.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error updating user:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the account. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{user.name}</DialogTitle>
+          <DialogDescription>
+            {ROLE_LABELS[user.role]}
+            {user.department && ` · ${DEPARTMENT_LABELS[user.department]}`}
+            {' · '}
+            {ACCOUNT_STATUS_LABELS[user.status]}
+            {user.suspendedUntil && ` until ${format(new Date(user.suspendedUntil), 'PPp')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isSelf ? (
+          <p className="text-sm text-muted-foreground py-2">
+            You can't change your own role or account status. Ask another administrator.
+          </p>
+        ) : (
+          <div className="grid gap-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="role">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                  <SelectTrigger id="role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map(option => (
+                      <SelectItem key={option} value={option}>{ROLE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="department">Department</Label>
+                <Select value={department} onValueChange={(value) => setDepartment(value as Department)}>
+                  <SelectTrigger id="department">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_DEPARTMENT}>None</SelectItem>
+                    {DEPARTMENTS.map(option => (
+                      <SelectItem key={option} value={option}>{DEPARTMENT_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="status">Account</Label>
+                <Select value={status} onValueChange={(value) => setStatus(value as AccountStatus)}>
+                  <SelectTrigger id="status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ACCOUNT_STATUSES.map(option => (
+                      <SelectItem key={option} value={option}>{ACCOUNT_STATUS_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {status === 'suspended' && (
+                <div className="grid gap-2">
+                  <Label htmlFor="suspensionLength">Suspend for</Label>
+                  <Select value={suspensionLength} onValueChange={setSuspensionLength}>
+                    <SelectTrigger id="suspensionLength">
+                      <SelectValue placeholder="Keep current end" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SUSPENSION_LENGTHS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="note">Reason{needsNote ? '' : ' (optional)'}</Label>
+              <Textarea
+                id="note"
+                placeholder="Why is this account changing? Kept in the audit trail."
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="min-h-[80px]"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={updateUser.isPending}>
+            Cancel
+          </Button>
+          {!isSelf && (
+            <Button onClick={handleSave} disabled={updateUser.isPending || !canSave}>
+              {updateUser.isPending ? "Saving..." : "Save Changes"}
+            </Button>
+          )}
+        </div>
+
+        <Separator />
+        <div>
+          <h3 className="text-sm font-medium mb-3">Audit trail</h3>
+          <UserAuditTrail userId={user.id} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
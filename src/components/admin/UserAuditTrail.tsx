@@ -0,0 +1,85 @@
+import React from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Building2, Loader2, Shield, UserX } from 'lucide-react';
+import { useUserEvents } from '@/hooks/use-users';
+import { ACCOUNT_STATUS_LABELS, DEPARTMENT_LABELS, ROLE_LABELS } from '@/lib/permissions';
+import type { UserEvent } from '@/lib/types/user';
+import { cn } from '@/lib/utils';
+
+const EVENT_ICONS: Record<UserEvent['field'], React.ElementType> = {
+  role: Shield,
+  department: Building2,
+  status: UserX,
+  suspendedUntil: UserX,
+};
+
+const describeEvent = (event: UserEvent): React.ReactNode => {
+  switch (event.field) {
+    case 'role':
+      return <>Role changed from <strong>{ROLE_LABELS[event.from] ?? 'none'}</strong> to <strong>{ROLE_LABELS[event.to] ?? 'none'}</strong></>;
+    case 'department':
+      if (!event.to) return <>Removed from <strong>{DEPARTMENT_LABELS[event.from]}</strong></>;
+      return <>Moved to <strong>{DEPARTMENT_LABELS[event.to]}</strong></>;
+    case 'status':
+      return event.to === 'active'
+        ? <>Reinstated</>
+        : <>Account <strong>{ACCOUNT_STATUS_LABELS[event.to]?.toLowerCase()}</strong></>;
+    case 'suspendedUntil':
+      return <>Suspension ends <strong>{format(new Date(event.to), 'PPp')}</strong></>;
+  }
+};
+
+interface UserAuditTrailProps {
+  // Without a user, every user's changes
+  userId?: string;
+  className?: string;
+}
+
+// Role, department and account status changes, newest first
+export function UserAuditTrail({ userId, className }: UserAuditTrailProps) {
+  const { data = [], isLoading, error } = useUserEvents(userId);
+  // A suspension's end is cleared along with the status; that says nothing new
+  const events = data.filter(event => event.field !== 'suspendedUntil' || event.to);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">The audit trail could not be loaded.</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className={cn("relative border-l ml-2 space-y-5", className)}>
+      {events.map(event => {
+        const Icon = EVENT_ICONS[event.field];
+        return (
+          <li key={event.id} className="ml-5">
+            <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background ring-1 ring-border">
+              <Icon className="h-3 w-3 text-muted-foreground" />
+            </span>
+            <p className="text-sm">
+              {!userId && <><strong>{event.user.name}</strong>: </>}
+              {describeEvent(event)}
+            </p>
+            <p className="text-xs text-muted-foreground" title={format(new Date(event.createdAt), 'PPpp')}>
+              {event.actor ? `${event.actor.name} · ` : ''}
+              {formatDistanceToNow(new Date(event.createdAt), { addSuffix: true })}
+            </p>
+            {event.note && (
+              <p className="mt-1 text-sm bg-muted/50 rounded-md px-3 py-2 whitespace-pre-line">{event.note}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,178 @@
+import React from 'react';
+import { Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from '@/components/ui/use-toast';
+import { useIssueCountsBy } from '@/hooks/use-issues';
+import { useImportWards, useWards } from '@/hooks/use-wards';
+import { parseWardFeatures, wardNameProperties, wardNameProperty, wardsFromFeatures, type WardFeature } from '@/lib/wards';
+
+// Ward names shown from a file before importing it
+const PREVIEW_LIMIT = 5;
+
+// The current wards with how many issues each holds, and a GeoJSON import
+// that replaces them
+export function WardManager() {
+  const { data: wards = [], isLoading } = useWards();
+  const wardCounts = useIssueCountsBy('ward_id');
+  const importWards = useImportWards();
+  const [fileName, setFileName] = React.useState('');
+  const [features, setFeatures] = React.useState<WardFeature[]>([]);
+  const [nameProperty, setNameProperty] = React.useState('');
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const nameProperties = React.useMemo(() => wardNameProperties(features), [features]);
+  const drafts = React.useMemo(
+    () => (nameProperty ? wardsFromFeatures(features, nameProperty) : []),
+    [features, nameProperty]
+  );
+  const outsideWards = wardCounts.null ?? 0;
+
+  const resetFile = () => {
+    setFileName('');
+    setFeatures([]);
+    setNameProperty('');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = parseWardFeatures(await file.text());
+      const properties = wardNameProperties(parsed);
+      if (properties.length === 0) {
+        throw new Error('No property names every ward in the file.');
+      }
+      setFileName(file.name);
+      setFeatures(parsed);
+      setNameProperty(wardNameProperty(properties));
+    } catch (error) {
+      resetFile();
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to read the file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const imported = await importWards.mutateAsync(drafts);
+      toast({
+        title: "Wards Imported",
+        description: `${imported.length} wards imported and every issue zoned into them.`,
+      });
+      resetFile();
+    } catch (error) {
+      console.error('Error importing wards:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import the wards. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3 rounded-md border p-4">
+        <div className="grid gap-2">
+          <Label htmlFor="ward-file">Import boundaries</Label>
+          <Input
+            id="ward-file"
+            ref={fileInputRef}
+            type="file"
+            accept=".geojson,.json,application/geo+json,application/json"
+            onChange={handleFileChange}
+          />
+          <p className="text-xs text-muted-foreground">
+            A GeoJSON FeatureCollection of ward polygons. Importing replaces the current wards.
+          </p>
+        </div>
+
+        {features.length > 0 && (
+          <>
+            <div className="grid gap-2 sm:max-w-xs">
+              <Label>Ward name property</Label>
+              <Select value={nameProperty} onValueChange={setNameProperty}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {nameProperties.map(property => (
+                    <SelectItem key={property} value={property}>{property}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {drafts.length} wards, e.g.{' '}
+              {drafts.slice(0, PREVIEW_LIMIT).map(ward => ward.name).join(', ')}
+              {drafts.length > PREVIEW_LIMIT ? '…' : ''}
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={resetFile} disabled={importWards.isPending}>
+                Cancel
+              </Button>
+              <Button onClick={handleImport} disabled={importWards.isPending || drafts.length === 0}>
+                {importWards.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <Upload className="mr-2 h-4 w-4" />}
+                Import {drafts.length} wards
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : wards.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4">No wards yet. Import a boundary file to zone issues by ward.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Ward</TableHead>
+              <TableHead className="text-right">Issues</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {wards.map(ward => (
+              <TableRow key={ward.id}>
+                <TableCell className="font-medium">{ward.name}</TableCell>
+                <TableCell className="text-right">{wardCounts[ward.id] ?? 0}</TableCell>
+              </TableRow>
+            ))}
+            {outsideWards > 0 && (
+              <TableRow>
+                <TableCell className="text-muted-foreground">Outside every ward</TableCell>
+                <TableCell className="text-right text-muted-foreground">{outsideWards}</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,20 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
-import { supabase } from '@/lib/supabase';
+import { getRepository } from '@/lib/repository';
+import type { AuthUser, Department, UserRole } from '@/lib/repository';
+import { accountStatus } from '@/lib/permissions';
 
 interface User {
   id: string;
   name: string;
   email: string;
-  role: 'citizen' | 'admin';
+  role: UserRole;
+  department?: Department | null;
   avatar?: string;
 }
 
 interface AuthContextType {
   currentUser: User | null;
   isAuthenticated: boolean;
-  isAdmin: boolean;
   login: (email: string, password: string) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => void;
@@ -39,34 +41,39 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [loading, setLoading] = useState<boolean>(true);
 
   useEffect(() => {
+    const repository = getRepository();
+
+    const loadUser = async (authUser: AuthUser) => {
+      const profile = await repository.getProfile(authUser.id);
+
+      // Sessions outlive suspensions and bans made since they started
+      if (profile && accountStatus(profile) !== 'active') {
+        await repository.signOut();
+        return;
+      }
+
+      if (profile) {
+        setCurrentUser({
+          id: authUser.id,
+          name: profile.name,
+          email: authUser.email,
+          role: profile.role,
+          department: profile.department ?? null,
+          avatar: profile.avatar_url ?? undefined
+        });
+        setIsAuthenticated(true);
+      }
+    };
+
     // Check for existing session
     const checkSession = async () => {
-      let sessionUser = null;
-      const { data: { session } } = await supabase.auth.getSession();
-      if (session?.user) {
-        sessionUser = session.user;
-      } else {
-        // fallback: try getUser
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) sessionUser = user;
-      }
-      if (sessionUser) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', sessionUser.id)
-          .single();
-
-        if (profile) {
-          setCurrentUser({
-            id: sessionUser.id,
-            name: profile.name,
-            email: sessionUser.email!,
-            role: profile.role,
-            avatar: profile.avatar_url
-          });
-          setIsAuthenticated(true);
+      try {
+        const sessionUser = await repository.getSessionUser();
+        if (sessionUser) {
+          await loadUser(sessionUser);
         }
+      } catch (error) {
+        console.error('Session check error:', error);
       }
       setLoading(false);
     };
@@ -74,24 +81,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkSession();
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
-      if (event === 'SIGNED_IN' && session?.user) {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', session.user.id)
-          .single();
-
-        if (profile) {
-          setCurrentUser({
-            id: session.user.id,
-            name: profile.name,
-            email: session.user.email!,
-            role: profile.role,
-            avatar: profile.avatar_url
-          });
-          setIsAuthenticated(true);
-        }
+    const subscription = repository.onAuthStateChange(async (event, user) => {
+      if (event === 'SIGNED_IN' && user) {
+        await loadUser(user);
       } else if (event === 'SIGNED_OUT') {
         setCurrentUser(null);
         setIsAuthenticated(false);
@@ -105,12 +97,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const login = async (email: string, password: string) => {
     try {
-      const { error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
-
-      if (error) throw error;
+      await getRepository().signIn(email, password);
     } catch (error) {
       console.error('Login error:', error);
       throw error;
@@ -119,26 +106,24 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const register = async (name: string, email: string, password: string) => {
     try {
-      const { data, error } = await supabase.auth.signUp({
-        email,
-        password,
-      });
-
-      if (error) throw error;
+      const repository = getRepository();
+      const user = await repository.signUp(email, password);
 
-      if (data.user) {
+      if (user) {
         // Create profile
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .insert([
-            {
-              id: data.user.id,
-              name,
-              role: 'citizen',
-            }
-          ]);
-
-        if (profileError) throw profileError;
+        await repository.createProfile({
+          id: user.id,
+          name,
+          role: 'citizen',
+        });
+
+        // Backends that sign the user in straight away fire SIGNED_IN before
+        // the profile exists, so pick the user up here instead.
+        const sessionUser = await repository.getSessionUser();
+        if (sessionUser?.id === user.id) {
+          setCurrentUser({ id: user.id, name, email: user.email, role: 'citizen' });
+          setIsAuthenticated(true);
+        }
       }
     } catch (error) {
       console.error('Registration error:', error);
@@ -148,9 +133,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const logout = async () => {
     try {
-      const { error } = await supabase.auth.signOut();
-      if (error) throw error;
-      
+      await getRepository().signOut();
+
       setCurrentUser(null);
       setIsAuthenticated(false);
     } catch (error) {
@@ -162,16 +146,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const updateProfile = async (userData: Partial<User>) => {
     try {
       if (!currentUser) throw new Error('No user logged in');
-      
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          name: userData.name,
-          avatar_url: userData.avatar,
-        })
-        .eq('id', currentUser.id);
 
-      if (error) throw error;
+      await getRepository().updateProfile(currentUser.id, {
+        name: userData.name,
+        avatar_url: userData.avatar,
+      });
 
       setCurrentUser(prev => prev ? { ...prev, ...userData } : null);
     } catch (error) {
@@ -185,7 +164,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       value={{
         currentUser,
         isAuthenticated,
-        isAdmin: currentUser?.role === 'admin',
         login,
         register,
         logout,
@@ -0,0 +1,38 @@
+import { keepPreviousData, queryOptions, useQuery } from '@tanstack/react-query';
+import { searchAddress } from '@/lib/geocoding';
+import type { GeoBounds } from '@/lib/geo';
+
+// Shorter queries match too much of the world to be worth a request
+export const MIN_ADDRESS_QUERY_LENGTH = 3;
+
+interface AddressSearchOptions {
+  limit?: number;
+  bounds?: GeoBounds | null;
+}
+
+export const geocodingKeys = {
+  all: ['geocoding'] as const,
+  search: (query: string, { limit, bounds }: AddressSearchOptions) =>
+    [...geocodingKeys.all, 'search', query, limit ?? null, bounds ?? null] as const,
+};
+
+export const geocodingQueries = {
+  search: (query: string, options: AddressSearchOptions = {}) => queryOptions({
+    queryKey: geocodingKeys.search(query, options),
+    // Passing the signal on lets a search the user has typed past be dropped
+    // while it waits for its turn
+    queryFn: ({ signal }) =>
+      searchAddress(query, { limit: options.limit, bounds: options.bounds ?? undefined, signal }),
+    // The geocoder keeps its own cache
+    staleTime: Infinity,
+  }),
+};
+
+// Candidate addresses while the user types. Debounce `query` before passing
+// it in.
+export const useAddressSearch = (query: string, options: AddressSearchOptions = {}) =>
+  useQuery({
+    ...geocodingQueries.search(query.trim(), options),
+    enabled: query.trim().length >= MIN_ADDRESS_QUERY_LENGTH,
+    placeholderData: keepPreviousData,
+  });
@@ -0,0 +1,774 @@
+import { useEffect, useState } from 'react';
+import {
+  keepPreviousData,
+  queryOptions,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
+} from '@tanstack/react-query';
+import {
+  countIssues,
+  countIssuesBy,
+  createComment,
+  createIssue,
+  deleteComment,
+  deleteIssue,
+  followIssue,
+  getCommentRevisions,
+  getComments,
+  getIssueById,
+  getIssueMerges,
+  getProfileNames,
+  mergeIssues,
+  queryIssueEvents,
+  queryIssuePoints,
+  queryIssues,
+  updateComment,
+  updateIssue,
+  removeVote,
+  unfollowIssue,
+  unmergeIssue,
+  voteOnIssue,
+  withCommentAuthors,
+} from '@/lib/issues';
+import {
+  commentFromRow,
+  issueCountsFromRow,
+  issueEventFromRow,
+  issueFromRow,
+  issueNamesFromMap,
+  issuePageFromRows,
+  issuePointFromRow,
+  issuePatchToRow,
+  issueQueryToRow,
+  issueToRow,
+  mergeFromRow,
+  mergeIssueRow,
+  revisionFromRow,
+} from '@/lib/mappers';
+import { applyChanges, watchComments, watchIssues } from '@/lib/realtime';
+import { staffKeys } from '@/hooks/use-staff';
+import { MAX_PAGE_SIZE } from '@/lib/repository/query';
+import { DUPLICATE_RADIUS_METERS, findDuplicates, relatedCategories, type DuplicateDraft } from '@/lib/duplicates';
+import { boundsAround } from '@/lib/geo';
+import { openStatuses } from '@/lib/workflow';
+import type { ChangePayload, IssueCountColumn } from '@/lib/repository';
+import type { IssueCommentRow, IssueRow } from '@/lib/supabase';
+import type { Issue, IssueComment, IssueDraft, IssueFilter, IssuePage, IssueSort } from '@/lib/types/issue';
+
+// Most recent issues, used by the home page and as a warm cache for details.
+export const RECENT_ISSUES_LIMIT = 100;
+
+export const issueKeys = {
+  all: ['issues'] as const,
+  lists: () => [...issueKeys.all, 'list'] as const,
+  list: (filter: IssueFilter, sort: IssueSort | undefined, pageSize: number) =>
+    [...issueKeys.lists(), { filter, sort, pageSize }] as const,
+  recent: () => [...issueKeys.all, 'recent'] as const,
+  details: () => [...issueKeys.all, 'detail'] as const,
+  detail: (id: string) => [...issueKeys.details(), id] as const,
+  counts: () => [...issueKeys.all, 'count'] as const,
+  count: (filter: IssueFilter) => [...issueKeys.counts(), filter] as const,
+  countsBy: (column: IssueCountColumn) => [...issueKeys.counts(), 'by', column] as const,
+};
+
+// Comments live outside issueKeys.all so that invalidating issue lists does
+// not refetch every open comment thread.
+export const commentKeys = {
+  all: ['comments'] as const,
+  issue: (issueId: string) => [...commentKeys.all, issueId] as const,
+  revisions: (commentId: string) => [...commentKeys.all, 'revisions', commentId] as const,
+};
+
+// Issue history, also kept apart from issueKeys.all
+export const eventKeys = {
+  all: ['issue-events'] as const,
+  issue: (issueId: string) => [...eventKeys.all, issueId] as const,
+};
+
+// Merges an issue is either side of, also kept apart from issueKeys.all
+export const mergeKeys = {
+  all: ['issue-merges'] as const,
+  issue: (issueId: string) => [...mergeKeys.all, issueId] as const,
+};
+
+// Every issue matching a filter as a map point. Points aren't whole issues,
+// so they're kept apart from issueKeys.all too, and refetched whenever the
+// lists are.
+export const pointKeys = {
+  all: ['issue-points'] as const,
+  filter: (filter: IssueFilter) => [...pointKeys.all, filter] as const,
+};
+
+// Reporter and assignee names for a set of issue rows
+const getIssueNames = (rows: Partial<IssueRow>[]) =>
+  getProfileNames(rows.flatMap(row => [row.user_id, row.assigned_to]));
+
+// Titles of the issues referred to by merges; deleted issues are left out
+const getIssueTitles = async (ids: string[]) => {
+  const rows = await Promise.all([...new Set(ids)].map(id => getIssueById(id).catch(() => null)));
+  return new Map(rows.filter(Boolean).map(row => [row.id, row.title]));
+};
+
+export const fetchIssuePage = async (
+  filter: IssueFilter,
+  sort: IssueSort | undefined,
+  pageSize: number,
+  cursor: string | null = null
+): Promise<IssuePage> => {
+  const page = await queryIssues(issueQueryToRow(filter, sort, { cursor, limit: pageSize }));
+  return issuePageFromRows(page, await getIssueNames(page.rows));
+};
+
+export const issueQueries = {
+  recent: () => queryOptions({
+    queryKey: issueKeys.recent(),
+    queryFn: async () => {
+      const { rows } = await queryIssues({ limit: RECENT_ISSUES_LIMIT });
+      const names = await getIssueNames(rows);
+      return rows.map(row => issueFromRow(row, issueNamesFromMap(row, names)));
+    },
+  }),
+  detail: (id: string) => queryOptions({
+    queryKey: issueKeys.detail(id),
+    queryFn: async () => {
+      const row = await getIssueById(id);
+      return issueFromRow(row, issueNamesFromMap(row, await getIssueNames([row])));
+    },
+  }),
+  comments: (issueId: string) => queryOptions({
+    queryKey: commentKeys.issue(issueId),
+    queryFn: async () => (await getComments(issueId)).map(commentFromRow),
+  }),
+  events: (issueId: string) => queryOptions({
+    queryKey: eventKeys.issue(issueId),
+    queryFn: async () => {
+      const rows = await queryIssueEvents({ issueId });
+      const values = (fields: string[]) => rows
+        .filter(row => fields.includes(row.field))
+        .flatMap(row => [row.old_value as string, row.new_value as string])
+        .filter(Boolean);
+      const [names, titles] = await Promise.all([
+        getProfileNames([...rows.map(row => row.actor_id), ...values(['assigned_to'])]),
+        getIssueTitles(values(['merged', 'duplicate_of'])),
+      ]);
+      return rows.map(row => issueEventFromRow(row, names, titles));
+    },
+  }),
+  merges: (issueId: string) => queryOptions({
+    queryKey: mergeKeys.issue(issueId),
+    queryFn: async () => {
+      const rows = await getIssueMerges(issueId);
+      const [titles, names] = await Promise.all([
+        getIssueTitles(rows.flatMap(row => [row.primary_id, row.duplicate_id])),
+        getProfileNames(rows.map(row => row.actor_id)),
+      ]);
+      return rows.map(row => mergeFromRow(row, titles, names));
+    },
+  }),
+  points: (filter: IssueFilter) => queryOptions({
+    queryKey: pointKeys.filter(filter),
+    queryFn: async () => (await queryIssuePoints(issueQueryToRow(filter))).map(issuePointFromRow),
+  }),
+  commentRevisions: (commentId: string) => queryOptions({
+    queryKey: commentKeys.revisions(commentId),
+    queryFn: async () => (await getCommentRevisions(commentId)).map(revisionFromRow),
+  }),
+};
+
+// Issue cache helpers. Issues are cached in several shapes: the recent list,
+// single details, table pages and "load more" pages. These walk all of them.
+
+type CachedIssues = Issue | Issue[] | IssuePage | InfiniteData<IssuePage>;
+type CacheSnapshot = [QueryKey, CachedIssues | undefined][];
+
+const isIssuePage = (data: unknown): data is IssuePage =>
+  typeof data === 'object' && data !== null && 'issues' in data && 'nextCursor' in data;
+
+const isInfinitePages = (data: unknown): data is InfiniteData<IssuePage> =>
+  typeof data === 'object' && data !== null && 'pages' in data;
+
+const isIssue = (data: unknown): data is Issue =>
+  typeof data === 'object' && data !== null && 'id' in data && 'reportedBy' in data;
+
+// Applies `update` to every cached copy of an issue; returning null removes it.
+const updateCachedIssue = (queryClient: QueryClient, id: string, update: (issue: Issue) => Issue | null) => {
+  const patchList = (issues: Issue[]) =>
+    issues.flatMap(issue => {
+      if (issue.id !== id) return [issue];
+      const next = update(issue);
+      return next ? [next] : [];
+    });
+
+  queryClient.setQueriesData<CachedIssues>({ queryKey: issueKeys.all }, (data) => {
+    if (!data) return data;
+    if (Array.isArray(data)) return patchList(data);
+    if (isInfinitePages(data)) {
+      return { ...data, pages: data.pages.map(page => ({ ...page, issues: patchList(page.issues) })) };
+    }
+    if (isIssuePage(data)) return { ...data, issues: patchList(data.issues) };
+    if (isIssue(data) && data.id === id) return update(data) ?? undefined;
+    return data;
+  });
+};
+
+const snapshotIssues = (queryClient: QueryClient): CacheSnapshot =>
+  queryClient.getQueriesData<CachedIssues>({ queryKey: issueKeys.all });
+
+const restoreSnapshot = (queryClient: QueryClient, snapshot: CacheSnapshot) => {
+  snapshot.forEach(([key, data]) => queryClient.setQueryData<CachedIssues>(key, data));
+};
+
+// Lists and counts may have gained or lost rows after any change; details
+// are patched in place instead.
+const invalidateIssueLists = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: issueKeys.lists() });
+  queryClient.invalidateQueries({ queryKey: issueKeys.counts() });
+  queryClient.invalidateQueries({ queryKey: pointKeys.all });
+  queryClient.invalidateQueries({ queryKey: staffKeys.workload() });
+};
+
+// Queries
+
+export const useRecentIssues = () => useQuery(issueQueries.recent());
+
+export const useIssue = (id: string | undefined) => {
+  const queryClient = useQueryClient();
+  return useQuery({
+    ...issueQueries.detail(id ?? ''),
+    enabled: !!id,
+    // Show the copy from the recent list while the full row loads
+    placeholderData: () =>
+      queryClient.getQueryData(issueQueries.recent().queryKey)?.find(issue => issue.id === id),
+  });
+};
+
+// Comments for one issue, kept live while the component is mounted.
+export const useIssueComments = (issueId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!issueId) return;
+    let active = true;
+    const key = commentKeys.issue(issueId);
+
+    const subscription = watchComments(issueId, {
+      onChanges: async (changes: ChangePayload<IssueCommentRow>[]) => {
+        const rows = changes
+          .filter(change => change.eventType !== 'DELETE')
+          .map(change => change.new as IssueCommentRow);
+        // Without authors the comments are still shown, and refetched to fill
+        // them in
+        const withAuthors = await withCommentAuthors(rows).catch((error): null => {
+          console.error('Error loading comment authors:', error);
+          return null;
+        });
+        const authored = new Map((withAuthors ?? []).map(row => [row.id, row]));
+        if (!active) return;
+
+        queryClient.setQueryData<IssueComment[]>(key, (comments) => comments && applyChanges(
+          comments,
+          changes,
+          (row, existing) => {
+            const comment = commentFromRow(authored.get(row.id) ?? { ...row, user: null });
+            return existing ? { ...comment, user: existing.user } : comment;
+          }
+        ));
+        if (!withAuthors) queryClient.invalidateQueries({ queryKey: key });
+
+        // Edits and deletes add to a comment's history
+        changes
+          .filter(change => change.eventType === 'UPDATE')
+          .forEach(change => queryClient.invalidateQueries({
+            queryKey: commentKeys.revisions(change.new.id as string),
+          }));
+      },
+      onReconnect: () => {
+        queryClient.invalidateQueries({ queryKey: key });
+      },
+    });
+
+    return () => {
+      active = false;
+      subscription.unsubscribe();
+    };
+  }, [issueId, queryClient]);
+
+  return useQuery({ ...issueQueries.comments(issueId ?? ''), enabled: !!issueId });
+};
+
+export const useIssueEvents = (issueId: string | undefined) =>
+  useQuery({ ...issueQueries.events(issueId ?? ''), enabled: !!issueId });
+
+export const useIssueMerges = (issueId: string | undefined) =>
+  useQuery({ ...issueQueries.merges(issueId ?? ''), enabled: !!issueId });
+
+export const useCommentRevisions = (commentId: string, { enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({ ...issueQueries.commentRevisions(commentId), enabled });
+
+// Previous/next paging for tables. The cursors of the pages visited so far are
+// kept so that going back does not need a reverse query; changing the filter,
+// sort or page size starts again from the first page.
+export const useIssuePages = (filter: IssueFilter, sort: IssueSort | undefined, pageSize: number) => {
+  const listKey = issueKeys.list(filter, sort, pageSize);
+  const listHash = JSON.stringify(listKey);
+  const [paging, setPaging] = useState<{ hash: string; cursors: (string | null)[] }>({
+    hash: listHash,
+    cursors: [null],
+  });
+  const cursors = paging.hash === listHash ? paging.cursors : [null];
+  const cursor = cursors[cursors.length - 1];
+
+  const query = useQuery({
+    queryKey: [...listKey, cursor],
+    queryFn: () => fetchIssuePage(filter, sort, pageSize, cursor),
+    placeholderData: keepPreviousData,
+  });
+
+  const total = query.data?.total ?? 0;
+  const nextCursor = query.data?.nextCursor ?? null;
+
+  return {
+    issues: query.data?.issues ?? [],
+    total,
+    page: cursors.length,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    hasNextPage: !!nextCursor && !query.isPlaceholderData,
+    hasPreviousPage: cursors.length > 1,
+    nextPage: () => {
+      if (nextCursor) setPaging({ hash: listHash, cursors: [...cursors, nextCursor] });
+    },
+    previousPage: () => setPaging({ hash: listHash, cursors: cursors.slice(0, -1) }),
+    firstPage: () => setPaging({ hash: listHash, cursors: [null] }),
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+  };
+};
+
+interface IssueQueryOptions {
+  enabled?: boolean;
+}
+
+// "Load more" paging for card lists and the map.
+export const useInfiniteIssues = (
+  filter: IssueFilter,
+  sort: IssueSort | undefined,
+  pageSize: number,
+  { enabled = true }: IssueQueryOptions = {}
+) => {
+  const query = useInfiniteQuery({
+    queryKey: issueKeys.list(filter, sort, pageSize),
+    enabled,
+    queryFn: ({ pageParam }) => fetchIssuePage(filter, sort, pageSize, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  return {
+    issues: query.data?.pages.flatMap(page => page.issues) ?? [],
+    total: query.data?.pages[0]?.total ?? 0,
+    hasNextPage: query.hasNextPage,
+    fetchNextPage: query.fetchNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+};
+
+export const useIssueCount = (filter: IssueFilter, { enabled = true }: IssueQueryOptions = {}) => {
+  const query = useQuery({
+    queryKey: issueKeys.count(filter),
+    enabled,
+    queryFn: () => countIssues(issueQueryToRow(filter)),
+  });
+  return query.data ?? 0;
+};
+
+// Open issues that a report being written may duplicate, closest matches
+// first. Moving the location searches again; retyping the title only
+// re-ranks what was found.
+export const useDuplicateReports = (
+  draft: DuplicateDraft | null,
+  radiusMeters = DUPLICATE_RADIUS_METERS
+) => {
+  const filter: IssueFilter = draft
+    ? {
+        status: openStatuses(),
+        category: relatedCategories(draft.category),
+        bounds: boundsAround(draft.coordinates, radiusMeters),
+      }
+    : {};
+
+  const query = useQuery({
+    queryKey: issueKeys.list(filter, undefined, MAX_PAGE_SIZE),
+    enabled: !!draft,
+    queryFn: () => fetchIssuePage(filter, undefined, MAX_PAGE_SIZE),
+  });
+
+  return {
+    duplicates: draft && query.data ? findDuplicates(draft, query.data.issues, radiusMeters) : [],
+    isLoading: query.isLoading,
+  };
+};
+
+// Every issue matching the filter, unpaged, for the map's markers and heatmap
+export const useIssuePoints = (filter: IssueFilter) =>
+  useQuery({ ...issueQueries.points(filter), placeholderData: keepPreviousData });
+
+// Issue counts per status, category or severity, keyed by domain value.
+export const useIssueCountsBy = (column: IssueCountColumn) => {
+  const query = useQuery({
+    queryKey: issueKeys.countsBy(column),
+    queryFn: async () => issueCountsFromRow(column, await countIssuesBy(column)),
+  });
+  return query.data ?? {};
+};
+
+// Realtime: patch every cached copy of a changed issue, add new issues to the
+// recent list, and after a dropped connection replay what changed meanwhile.
+export const useIssueRealtime = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const applyNamedChanges = (changes: ChangePayload<IssueRow>[], names: Map<string, string>) => {
+      const merge = (row: IssueRow, existing?: Issue) => mergeIssueRow(row, existing, issueNamesFromMap(row, names));
+      queryClient.setQueryData<Issue[]>(issueKeys.recent(), (issues) =>
+        issues && applyChanges(issues, changes, merge, { prepend: true })
+      );
+      changes.forEach(change => {
+        if (change.eventType === 'DELETE') {
+          updateCachedIssue(queryClient, change.old.id, () => null);
+          // An open detail view refetches and finds the issue gone
+          queryClient.invalidateQueries({ queryKey: issueKeys.detail(change.old.id) });
+        } else if (change.eventType === 'UPDATE') {
+          const row = change.new as IssueRow;
+          updateCachedIssue(queryClient, row.id, issue => merge(row, issue));
+          queryClient.invalidateQueries({ queryKey: eventKeys.issue(row.id) });
+        }
+      });
+      invalidateIssueLists(queryClient);
+    };
+
+    // Payloads carry user ids only. Names are looked up first so new and
+    // reassigned issues show who they belong to; batches still apply in the
+    // order they arrived.
+    let applying = Promise.resolve();
+    const applyIssueChanges = (changes: ChangePayload<IssueRow>[]) => {
+      applying = applying
+        .then(() => getIssueNames(changes.map(change => change.new)).catch(() => new Map<string, string>()))
+        .then(names => applyNamedChanges(changes, names))
+        // A batch that can't be applied mustn't hold up the ones after it
+        .catch((error) => {
+          console.error('Error applying issue changes:', error);
+          invalidateIssueLists(queryClient);
+        });
+    };
+
+    const subscription = watchIssues({
+      onChanges: applyIssueChanges,
+      // Deletes leave no row to replay, so the lists, the recent issues and
+      // open details are refetched as well. After more changes than fit in a
+      // page, everything is.
+      onReconnect: async (since) => {
+        try {
+          const { rows, nextCursor } = await queryIssues({
+            updatedFrom: since,
+            sort: 'updated_at',
+            ascending: true,
+            limit: MAX_PAGE_SIZE,
+          });
+          if (nextCursor) {
+            queryClient.invalidateQueries({ queryKey: issueKeys.all });
+            invalidateIssueLists(queryClient);
+            return;
+          }
+          applyIssueChanges(rows.map(row => ({
+            eventType: row.created_at >= since ? 'INSERT' : 'UPDATE',
+            new: row,
+            old: {},
+          })));
+          queryClient.invalidateQueries({ queryKey: issueKeys.recent() });
+          queryClient.invalidateQueries({ queryKey: issueKeys.details() });
+        } catch (error) {
+          console.error('Error backfilling issues:', error);
+        }
+      },
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+};
+
+// Mutations
+
+// Also used when a report queued offline is finally created
+export const cacheCreatedIssue = (queryClient: QueryClient, issue: Issue) => {
+  queryClient.setQueryData<Issue[]>(issueKeys.recent(), (issues) =>
+    issues && [issue, ...issues.filter(existing => existing.id !== issue.id)]
+  );
+  queryClient.setQueryData(issueKeys.detail(issue.id), issue);
+  invalidateIssueLists(queryClient);
+};
+
+export const useCreateIssue = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (draft: IssueDraft) => {
+      const row = await createIssue(issueToRow(draft));
+      return issueFromRow(row, { reporterName: draft.reportedBy.name });
+    },
+    onSuccess: (issue) => cacheCreatedIssue(queryClient, issue),
+  });
+};
+
+export const useUpdateIssue = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates, note }: { id: string; updates: Partial<Issue>; note?: string }) =>
+      updateIssue(id, issuePatchToRow(updates, note)),
+    onMutate: async ({ id, updates }) => {
+      await queryClient.cancelQueries({ queryKey: issueKeys.all });
+      const snapshot = snapshotIssues(queryClient);
+      updateCachedIssue(queryClient, id, issue => ({
+        ...issue,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      }));
+      return { snapshot };
+    },
+    onError: (error, variables, context) => {
+      if (context) restoreSnapshot(queryClient, context.snapshot);
+    },
+    onSuccess: (row, { id }) => {
+      updateCachedIssue(queryClient, id, issue => mergeIssueRow(row, issue));
+    },
+    onSettled: (row, error, { id }) => {
+      invalidateIssueLists(queryClient);
+      queryClient.invalidateQueries({ queryKey: eventKeys.issue(id) });
+    },
+  });
+};
+
+export const useDeleteIssue = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteIssue(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: issueKeys.all });
+      const snapshot = snapshotIssues(queryClient);
+      updateCachedIssue(queryClient, id, () => null);
+      return { snapshot };
+    },
+    onError: (error, id, context) => {
+      if (context) restoreSnapshot(queryClient, context.snapshot);
+    },
+    onSuccess: (data, id) => {
+      queryClient.removeQueries({ queryKey: issueKeys.detail(id) });
+      queryClient.removeQueries({ queryKey: commentKeys.issue(id) });
+    },
+    onSettled: () => invalidateIssueLists(queryClient),
+  });
+};
+
+// Adds the user's upvote, or takes it back when `upvote` is false
+export const useUpvoteIssue = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, userId, upvote }: { id: string; userId: string; upvote: boolean }) =>
+      upvote ? voteOnIssue(id, userId) : removeVote(id, userId),
+    onMutate: async ({ id, userId, upvote }) => {
+      await queryClient.cancelQueries({ queryKey: issueKeys.all });
+      const snapshot = snapshotIssues(queryClient);
+      updateCachedIssue(queryClient, id, (issue) => {
+        if (issue.upvotedBy.includes(userId) === upvote) return issue;
+        return upvote
+          ? { ...issue, upvotes: issue.upvotes + 1, upvotedBy: [...issue.upvotedBy, userId] }
+          : {
+              ...issue,
+              upvotes: Math.max(issue.upvotes - 1, 0),
+              upvotedBy: issue.upvotedBy.filter(voterId => voterId !== userId),
+            };
+      });
+      return { snapshot };
+    },
+    onError: (error, variables, context) => {
+      if (context) restoreSnapshot(queryClient, context.snapshot);
+    },
+    onSettled: () => invalidateIssueLists(queryClient),
+  });
+};
+
+// Follows the issue for the user, or stops following when `follow` is false
+export const useFollowIssue = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, userId, follow }: { id: string; userId: string; follow: boolean }) =>
+      follow ? followIssue(id, userId) : unfollowIssue(id, userId),
+    onMutate: async ({ id, userId, follow }) => {
+      await queryClient.cancelQueries({ queryKey: issueKeys.all });
+      const snapshot = snapshotIssues(queryClient);
+      updateCachedIssue(queryClient, id, (issue) => {
+        if (issue.followedBy.includes(userId) === follow) return issue;
+        return {
+          ...issue,
+          followedBy: follow
+            ? [...issue.followedBy, userId]
+            : issue.followedBy.filter(followerId => followerId !== userId),
+        };
+      });
+      return { snapshot };
+    },
+    onError: (error, variables, context) => {
+      if (context) restoreSnapshot(queryClient, context.snapshot);
+    },
+    onSettled: () => invalidateIssueLists(queryClient),
+  });
+};
+
+// Merges move comments, votes and followers between issues and close the
+// duplicates, so everything cached for the issues involved is refetched
+const invalidateMergedIssues = (queryClient: QueryClient, issueIds: string[]) => {
+  invalidateIssueLists(queryClient);
+  queryClient.invalidateQueries({ queryKey: issueKeys.recent() });
+  queryClient.invalidateQueries({ queryKey: mergeKeys.all });
+  issueIds.forEach(id => {
+    queryClient.invalidateQueries({ queryKey: issueKeys.detail(id) });
+    queryClient.invalidateQueries({ queryKey: commentKeys.issue(id) });
+    queryClient.invalidateQueries({ queryKey: eventKeys.issue(id) });
+  });
+};
+
+export const useMergeIssues = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ primaryId, duplicateIds, note }: { primaryId: string; duplicateIds: string[]; note?: string }) =>
+      mergeIssues(primaryId, duplicateIds, note),
+    onSettled: (merges, error, { primaryId, duplicateIds }) =>
+      invalidateMergedIssues(queryClient, [primaryId, ...duplicateIds]),
+  });
+};
+
+export const useUnmergeIssue = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ mergeId }: { mergeId: string; primaryId: string; duplicateId: string }) => unmergeIssue(mergeId),
+    onSettled: (data, error, { primaryId, duplicateId }) =>
+      invalidateMergedIssues(queryClient, [primaryId, duplicateId]),
+  });
+};
+
+export const useAddComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ issueId, comment }: { issueId: string; comment: Omit<IssueComment, 'id' | 'createdAt'> }) => {
+      const row = await createComment({
+        issue_id: issueId,
+        user_id: comment.user.id,
+        content: comment.text,
+        parent_id: comment.parentId ?? null,
+      });
+      return { ...comment, id: row.id, createdAt: row.created_at } as IssueComment;
+    },
+    onMutate: async ({ issueId, comment }) => {
+      const key = commentKeys.issue(issueId);
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<IssueComment[]>(key);
+      const pendingId = `pending-${Date.now()}`;
+      queryClient.setQueryData<IssueComment[]>(key, (comments) =>
+        comments && [...comments, { ...comment, id: pendingId, createdAt: new Date().toISOString() }]
+      );
+      return { previous, pendingId };
+    },
+    onError: (error, { issueId }, context) => {
+      if (context) queryClient.setQueryData(commentKeys.issue(issueId), context.previous);
+    },
+    onSuccess: (created, { issueId }, context) => {
+      // Replace the placeholder; the realtime echo may have added it already
+      queryClient.setQueryData<IssueComment[]>(commentKeys.issue(issueId), (comments) =>
+        comments && [
+          ...comments.filter(comment => comment.id !== context?.pendingId && comment.id !== created.id),
+          created,
+        ]
+      );
+    },
+  });
+};
+
+// Applies an optimistic change to one cached comment and returns the thread
+// as it was, for rollback.
+const updateCachedComment = async (
+  queryClient: QueryClient,
+  issueId: string,
+  commentId: string,
+  update: (comment: IssueComment) => IssueComment
+) => {
+  const key = commentKeys.issue(issueId);
+  await queryClient.cancelQueries({ queryKey: key });
+  const previous = queryClient.getQueryData<IssueComment[]>(key);
+  queryClient.setQueryData<IssueComment[]>(key, (comments) =>
+    comments?.map(comment => comment.id === commentId ? update(comment) : comment)
+  );
+  return { previous };
+};
+
+// Replaces the cached comment with what the server stored, keeping the
+// author details the row does not carry.
+const cacheCommentRow = (queryClient: QueryClient, issueId: string, row: IssueCommentRow) => {
+  queryClient.setQueryData<IssueComment[]>(commentKeys.issue(issueId), (comments) =>
+    comments?.map(comment => comment.id === row.id
+      ? { ...commentFromRow({ ...row, user: null }), user: comment.user }
+      : comment
+    )
+  );
+  queryClient.invalidateQueries({ queryKey: commentKeys.revisions(row.id) });
+};
+
+export const useEditComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId, text }: { issueId: string; commentId: string; text: string }) =>
+      updateComment(commentId, text),
+    onMutate: ({ issueId, commentId, text }) =>
+      updateCachedComment(queryClient, issueId, commentId, comment => ({
+        ...comment,
+        text,
+        editedAt: new Date().toISOString(),
+      })),
+    onError: (error, { issueId }, context) => {
+      if (context) queryClient.setQueryData(commentKeys.issue(issueId), context.previous);
+    },
+    onSuccess: (row, { issueId }) => cacheCommentRow(queryClient, issueId, row),
+  });
+};
+
+export const useDeleteComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ commentId }: { issueId: string; commentId: string }) => deleteComment(commentId),
+    onMutate: ({ issueId, commentId }) =>
+      updateCachedComment(queryClient, issueId, commentId, comment => ({
+        ...comment,
+        text: '',
+        deletedAt: new Date().toISOString(),
+      })),
+    onError: (error, { issueId }, context) => {
+      if (context) queryClient.setQueryData(commentKeys.issue(issueId), context.previous);
+    },
+    onSuccess: (row, { issueId }) => cacheCommentRow(queryClient, issueId, row),
+  });
+};
@@ -0,0 +1,166 @@
+import { useEffect, useRef } from 'react';
+import { queryOptions, useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  countUnreadNotifications,
+  dismissNotifications,
+  getNotificationPreferences,
+  getNotifications,
+  markNotificationsRead,
+  saveNotificationPreferences,
+} from '@/lib/issues';
+import { notificationFromRow, preferencesFromRow, preferencesToRow } from '@/lib/mappers';
+import { isInApp } from '@/lib/notifications';
+import { watchNotifications } from '@/lib/realtime';
+import type { NotificationRow } from '@/lib/supabase';
+import type { NotificationPreferences, UserNotification } from '@/lib/types/notification';
+
+// Most recent notifications shown at once
+export const NOTIFICATIONS_LIMIT = 50;
+
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  user: (userId: string) => [...notificationKeys.all, userId] as const,
+  list: (userId: string) => [...notificationKeys.user(userId), 'list'] as const,
+  unread: (userId: string) => [...notificationKeys.user(userId), 'unread'] as const,
+  preferences: (userId: string) => [...notificationKeys.user(userId), 'preferences'] as const,
+};
+
+export const notificationQueries = {
+  list: (userId: string) => queryOptions({
+    queryKey: notificationKeys.list(userId),
+    queryFn: async () => (await getNotifications(userId, NOTIFICATIONS_LIMIT)).map(notificationFromRow),
+  }),
+  unread: (userId: string) => queryOptions({
+    queryKey: notificationKeys.unread(userId),
+    queryFn: () => countUnreadNotifications(userId),
+  }),
+  // `email` fills in the address for users who haven't saved preferences yet
+  preferences: (userId: string, email: string | null = null) => queryOptions({
+    queryKey: notificationKeys.preferences(userId),
+    queryFn: async () => preferencesFromRow(await getNotificationPreferences(userId), email),
+  }),
+};
+
+export const useNotifications = (userId: string | undefined) =>
+  useQuery({ ...notificationQueries.list(userId ?? ''), enabled: !!userId });
+
+export const useUnreadNotificationCount = (userId: string | undefined) =>
+  useQuery({ ...notificationQueries.unread(userId ?? ''), enabled: !!userId });
+
+export const useNotificationPreferences = (userId: string | undefined, email?: string | null) =>
+  useQuery({ ...notificationQueries.preferences(userId ?? '', email), enabled: !!userId });
+
+// Realtime: new notifications, and ones read or dismissed on another device,
+// refetch the user's list and count. `onNotification` hears about new ones
+// sent in-app.
+export const useNotificationRealtime = (
+  userId: string | undefined,
+  onNotification?: (notification: UserNotification) => void
+) => {
+  const queryClient = useQueryClient();
+  const onNotificationRef = useRef(onNotification);
+  onNotificationRef.current = onNotification;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const subscription = watchNotifications(userId, {
+      onChanges: (changes) => {
+        changes
+          .filter(change => change.eventType === 'INSERT' && isInApp(change.new))
+          .forEach(change => onNotificationRef.current?.(notificationFromRow(change.new as NotificationRow)));
+        queryClient.invalidateQueries({ queryKey: notificationKeys.user(userId) });
+      },
+      onReconnect: () => {
+        queryClient.invalidateQueries({ queryKey: notificationKeys.user(userId) });
+      },
+    });
+
+    return () => subscription.unsubscribe();
+  }, [userId, queryClient]);
+};
+
+// Mutations
+
+type NotificationChange = { userId: string; ids?: string[] };
+
+// Applies a change to the cached list and unread count straight away, and
+// returns a way to put them back.
+const updateCachedNotifications = (
+  queryClient: QueryClient,
+  userId: string,
+  update: (notifications: UserNotification[]) => UserNotification[]
+) => {
+  const listKey = notificationKeys.list(userId);
+  const unreadKey = notificationKeys.unread(userId);
+  const previous = {
+    list: queryClient.getQueryData<UserNotification[]>(listKey),
+    unread: queryClient.getQueryData<number>(unreadKey),
+  };
+
+  if (previous.list) {
+    const next = update(previous.list);
+    queryClient.setQueryData(listKey, next);
+    // The list is capped, so only a change to what it holds can be counted
+    const readNow = previous.list.filter(n => !n.read).length - next.filter(n => !n.read).length;
+    if (previous.unread !== undefined) queryClient.setQueryData(unreadKey, Math.max(previous.unread - readNow, 0));
+  }
+
+  return () => {
+    queryClient.setQueryData(listKey, previous.list);
+    queryClient.setQueryData(unreadKey, previous.unread);
+  };
+};
+
+const matches = (ids: string[] | undefined, notification: UserNotification) =>
+  !ids || ids.includes(notification.id);
+
+export const useMarkNotificationsRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, ids }: NotificationChange) => markNotificationsRead(userId, ids),
+    onMutate: async ({ userId, ids }) => {
+      await queryClient.cancelQueries({ queryKey: notificationKeys.user(userId) });
+      const restore = updateCachedNotifications(queryClient, userId, notifications =>
+        notifications.map(n => matches(ids, n) ? { ...n, read: true } : n)
+      );
+      return { restore };
+    },
+    onError: (error, variables, context) => context?.restore(),
+    onSettled: (data, error, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.user(userId) });
+    },
+  });
+};
+
+export const useDismissNotifications = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, ids }: NotificationChange) => dismissNotifications(userId, ids),
+    onMutate: async ({ userId, ids }) => {
+      await queryClient.cancelQueries({ queryKey: notificationKeys.user(userId) });
+      const restore = updateCachedNotifications(queryClient, userId, notifications =>
+        notifications.filter(n => !matches(ids, n))
+      );
+      return { restore };
+    },
+    onError: (error, variables, context) => context?.restore(),
+    onSettled: (data, error, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.user(userId) });
+    },
+  });
+};
+
+export const useSaveNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, preferences }: { userId: string; preferences: NotificationPreferences }) =>
+      saveNotificationPreferences(preferencesToRow(userId, preferences)),
+    onSuccess: (data, { userId, preferences }) => {
+      queryClient.setQueryData(notificationKeys.preferences(userId), preferences);
+    },
+  });
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { cacheCreatedIssue } from '@/hooks/use-issues';
+import {
+  discardOutboxEntry,
+  listOutbox,
+  retryOutboxEntry,
+  startOutboxSync,
+  subscribeToOutbox,
+  syncOutbox,
+  updateOutboxEntry,
+  type OutboxEntry,
+} from '@/lib/outbox';
+import type { IssueDraft } from '@/lib/types/issue';
+
+// Runs background sync for the signed-in user's queued reports and adds each
+// one to the issue cache once it has been created. Mount once, next to
+// useIssueRealtime.
+export const useOutboxSync = (userId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+    const stop = startOutboxSync(userId);
+    const unsubscribe = subscribeToOutbox((event) => {
+      if (event.type === 'sent') cacheCreatedIssue(queryClient, event.issue);
+    });
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, [queryClient, userId]);
+};
+
+// The user's reports that are still waiting to be sent
+export const useOutbox = (userId: string | undefined) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      listOutbox(userId)
+        .then((next) => {
+          if (!cancelled) setEntries(userId ? next : []);
+        })
+        .catch(error => console.error('Error loading outbox:', error))
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+
+    load();
+    const unsubscribe = subscribeToOutbox(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [userId]);
+
+  // Edited reports are sent again straight away
+  const update = useCallback(async (id: string, changes: { draft?: Partial<IssueDraft>; photos?: File[] }) => {
+    await updateOutboxEntry(id, changes);
+    if (userId) await syncOutbox(userId);
+  }, [userId]);
+
+  const retry = useCallback(async (id: string) => {
+    await retryOutboxEntry(id);
+    if (userId) await syncOutbox(userId);
+  }, [userId]);
+
+  const discard = useCallback((id: string) => discardOutboxEntry(id), []);
+
+  return { entries, isLoading, update, retry, discard };
+};
@@ -0,0 +1,34 @@
+import { queryOptions, useQuery } from '@tanstack/react-query';
+import { getAssignedIssues, listProfiles } from '@/lib/issues';
+import { staffFromProfile, workloadFromRows } from '@/lib/mappers';
+import { STAFF_ROLES } from '@/lib/repository';
+import { openStatuses } from '@/lib/workflow';
+
+// Workload is refreshed along with issue lists and counts, see
+// invalidateIssueLists in @/hooks/use-issues.
+export const staffKeys = {
+  all: ['staff'] as const,
+  directory: () => [...staffKeys.all, 'directory'] as const,
+  workload: () => [...staffKeys.all, 'workload'] as const,
+};
+
+export const staffQueries = {
+  directory: () => queryOptions({
+    queryKey: staffKeys.directory(),
+    queryFn: async () => (await listProfiles({ roles: STAFF_ROLES })).map(staffFromProfile),
+  }),
+  workload: () => queryOptions({
+    queryKey: staffKeys.workload(),
+    queryFn: async () => {
+      const [staff, rows] = await Promise.all([
+        listProfiles({ roles: STAFF_ROLES }),
+        getAssignedIssues(openStatuses()),
+      ]);
+      return workloadFromRows(staff.map(staffFromProfile), rows);
+    },
+  }),
+};
+
+export const useStaffDirectory = () => useQuery(staffQueries.directory());
+
+export const useStaffWorkload = () => useQuery(staffQueries.workload());
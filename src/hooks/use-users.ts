@@ -0,0 +1,64 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { updateUserRole, updateUserStatus } from '@/lib/auth';
+import { getProfileNames, getUserActivity, listProfiles, queryProfileEvents } from '@/lib/issues';
+import { managedUserFromProfile, userEventFromRow } from '@/lib/mappers';
+import { staffKeys } from '@/hooks/use-staff';
+import type { UserAccountChange } from '@/lib/types/user';
+
+// Most recent audit trail entries shown at once
+export const USER_EVENTS_LIMIT = 50;
+
+export const userKeys = {
+  all: ['users'] as const,
+  lists: () => [...userKeys.all, 'list'] as const,
+  list: (search: string) => [...userKeys.lists(), { search }] as const,
+  events: (userId?: string) => [...userKeys.all, 'events', userId ?? 'all'] as const,
+};
+
+export const userQueries = {
+  list: (search: string) => queryOptions({
+    queryKey: userKeys.list(search),
+    queryFn: async () => {
+      const profiles = await listProfiles({ search });
+      const activity = await getUserActivity(profiles.map(profile => profile.id));
+      const byUser = new Map(activity.map(row => [row.user_id, row]));
+      return profiles.map(profile => managedUserFromProfile(profile, byUser.get(profile.id)));
+    },
+  }),
+  events: (userId?: string) => queryOptions({
+    queryKey: userKeys.events(userId),
+    queryFn: async () => {
+      const rows = await queryProfileEvents({ userId, limit: USER_EVENTS_LIMIT });
+      const names = await getProfileNames(rows.flatMap(row => [row.user_id, row.actor_id]));
+      return rows.map(row => userEventFromRow(row, names));
+    },
+  }),
+};
+
+export const useUsers = (search: string) => useQuery(userQueries.list(search));
+
+export const useUserEvents = (userId?: string) => useQuery(userQueries.events(userId));
+
+// Role and status changes are saved separately, so the audit trail gets an
+// entry for each with the same note.
+export const useUpdateUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, change, note }: { id: string; change: UserAccountChange; note?: string }) => {
+      if (change.role !== undefined || change.department !== undefined) {
+        const { role, department } = change;
+        if (role === undefined) throw new Error('A department can only be changed along with the role');
+        await updateUserRole(id, role, department, note);
+      }
+      if (change.status !== undefined) {
+        await updateUserStatus(id, change.status, change.suspendedUntil ?? null, note);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: userKeys.all });
+      // Role changes add people to, or take them off, the staff directory
+      queryClient.invalidateQueries({ queryKey: staffKeys.all });
+    },
+  });
+};
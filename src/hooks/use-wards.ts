@@ -0,0 +1,37 @@
+import { queryOptions, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getWards, importWards } from '@/lib/issues';
+import { wardFromRow, wardToRow } from '@/lib/mappers';
+import { issueKeys, pointKeys } from '@/hooks/use-issues';
+import type { WardDraft } from '@/lib/types/ward';
+
+export const wardKeys = {
+  all: ['wards'] as const,
+  list: () => [...wardKeys.all, 'list'] as const,
+};
+
+export const wardQueries = {
+  list: () => queryOptions({
+    queryKey: wardKeys.list(),
+    queryFn: async () => (await getWards()).map(wardFromRow),
+    // Boundaries only change when an admin imports new ones
+    staleTime: 60 * 60 * 1000,
+  }),
+};
+
+export const useWards = () => useQuery(wardQueries.list());
+
+// Replaces every ward. Issues are zoned into the new wards as part of the
+// import, so every cached issue may have moved.
+export const useImportWards = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (wards: WardDraft[]) => (await importWards(wards.map(wardToRow))).map(wardFromRow),
+    onSuccess: (wards) => queryClient.setQueryData(wardKeys.list(), wards),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: wardKeys.all });
+      queryClient.invalidateQueries({ queryKey: issueKeys.all });
+      queryClient.invalidateQueries({ queryKey: pointKeys.all });
+    },
+  });
+};
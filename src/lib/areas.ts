@@ -0,0 +1,102 @@
+import { boundsAround, type AreaGeometry, type GeoBounds, type GeoPosition, type LatLng } from './geo';
+
+// Areas drawn on the map to narrow down which issues are shown. They travel
+// in the page URL, so a drawn area can be shared as a link.
+export type MapArea =
+  | { shape: 'rectangle'; bounds: GeoBounds }
+  | { shape: 'circle'; center: LatLng; radiusMeters: number }
+  | { shape: 'polygon'; points: LatLng[] };
+
+export type MapAreaShape = MapArea['shape'];
+
+// Sides of the polygon a circle is filtered by
+const CIRCLE_SIDES = 64;
+
+// About a metre
+const COORDINATE_DECIMALS = 5;
+
+// Most corners a drawn outline keeps, so that it fits in a link and stays
+// cheap to filter by
+export const MAX_POLYGON_POINTS = 100;
+
+const toPosition = ({ lat, lng }: LatLng): GeoPosition => [lng, lat];
+
+const circlePoints = (center: LatLng, radiusMeters: number): LatLng[] => {
+  const box = boundsAround(center, radiusMeters);
+  const dLat = box.north - center.lat;
+  const dLng = box.east - center.lng;
+  return Array.from({ length: CIRCLE_SIDES }, (_, i) => {
+    const angle = (2 * Math.PI * i) / CIRCLE_SIDES;
+    return { lat: center.lat + dLat * Math.sin(angle), lng: center.lng + dLng * Math.cos(angle) };
+  });
+};
+
+// The area as a GeoJSON polygon, which is how the data layer filters by it
+export const areaGeometry = (area: MapArea): AreaGeometry => {
+  const points = area.shape === 'rectangle'
+    ? [
+      { lat: area.bounds.south, lng: area.bounds.west },
+      { lat: area.bounds.south, lng: area.bounds.east },
+      { lat: area.bounds.north, lng: area.bounds.east },
+      { lat: area.bounds.north, lng: area.bounds.west },
+    ]
+    : area.shape === 'circle'
+      ? circlePoints(area.center, area.radiusMeters)
+      : area.points;
+  const ring = points.map(toPosition);
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+};
+
+const roundCoordinate = (value: number) => Number(value.toFixed(COORDINATE_DECIMALS));
+
+const formatNumbers = (values: number[]) => values.map(roundCoordinate).join(',');
+
+// An outline's corners at the precision they're shared with, leaving out any
+// that round onto the corner before
+export const roundOutline = (points: LatLng[]): LatLng[] =>
+  points
+    .map(({ lat, lng }) => ({ lat: roundCoordinate(lat), lng: roundCoordinate(lng) }))
+    .filter((point, i, all) => i === 0 || point.lat !== all[i - 1].lat || point.lng !== all[i - 1].lng);
+
+const parseNumbers = (value: string, count?: number) => {
+  const numbers = value.split(',').map(Number);
+  if (numbers.some(n => !Number.isFinite(n)) || (count !== undefined && numbers.length !== count)) return null;
+  return numbers;
+};
+
+// e.g. `rect:51.5,-0.13,51.51,-0.12`, `circle:51.5,-0.12,400` or
+// `poly:51.5,-0.13;51.51,-0.12;51.5,-0.11`
+export const encodeMapArea = (area: MapArea) => {
+  switch (area.shape) {
+    case 'rectangle':
+      return `rect:${formatNumbers([area.bounds.south, area.bounds.west, area.bounds.north, area.bounds.east])}`;
+    case 'circle':
+      return `circle:${formatNumbers([area.center.lat, area.center.lng])},${Math.round(area.radiusMeters)}`;
+    case 'polygon':
+      return `poly:${area.points.map(point => formatNumbers([point.lat, point.lng])).join(';')}`;
+  }
+};
+
+// Null for anything encodeMapArea could not have produced
+export const decodeMapArea = (value: string | null): MapArea | null => {
+  const [shape, data] = value?.split(':') ?? [];
+  if (!data) return null;
+
+  if (shape === 'rect') {
+    const numbers = parseNumbers(data, 4);
+    if (!numbers) return null;
+    const [south, west, north, east] = numbers;
+    return south < north && west < east ? { shape: 'rectangle', bounds: { south, west, north, east } } : null;
+  }
+  if (shape === 'circle') {
+    const numbers = parseNumbers(data, 3);
+    if (!numbers || numbers[2] <= 0) return null;
+    return { shape: 'circle', center: { lat: numbers[0], lng: numbers[1] }, radiusMeters: numbers[2] };
+  }
+  if (shape === 'poly') {
+    const points = data.split(';').map(pair => parseNumbers(pair, 2));
+    if (points.length < 3 || points.length > MAX_POLYGON_POINTS || points.some(point => !point)) return null;
+    return { shape: 'polygon', points: points.map(([lat, lng]) => ({ lat, lng })) };
+  }
+  return null;
+};
@@ -1,4 +1,6 @@
-import { supabase } from './supabase';
+import { getRepository } from './repository';
+import type { AccountStatus, Department, UserRole } from './repository';
+import { accountStatus } from './permissions';
 
 export interface SignUpData {
   email: string;
@@ -12,60 +14,64 @@ export interface SignInData {
 }
 
 export const signUp = async ({ email, password, name }: SignUpData) => {
-  const { data, error } = await supabase.auth.signUp({
-    email,
-    password,
-    options: {
-      data: {
-        name,
-      },
-    },
-  });
-
-  if (error) throw error;
-  return data;
+  return getRepository().signUp(email, password, { name });
 };
 
+// Suspended and banned users are signed straight back out
 export const signIn = async ({ email, password }: SignInData) => {
-  const { data, error } = await supabase.auth.signInWithPassword({
-    email,
-    password,
-  });
-
-  if (error) throw error;
-  return data;
+  const repository = getRepository();
+  const user = await repository.signIn(email, password);
+  const profile = await repository.getProfile(user.id);
+  if (profile && accountStatus(profile) !== 'active') {
+    await repository.signOut();
+    throw new Error(accountLockedMessage(profile.status, profile.suspended_until));
+  }
+  return user;
 };
 
 export const signOut = async () => {
-  const { error } = await supabase.auth.signOut();
-  if (error) throw error;
+  await getRepository().signOut();
 };
 
 export const getCurrentUser = async () => {
-  const { data: { user }, error } = await supabase.auth.getUser();
-  if (error) throw error;
-  return user;
+  return getRepository().getSessionUser();
 };
 
 export const resetPassword = async (email: string) => {
-  const { error } = await supabase.auth.resetPasswordForEmail(email, {
-    redirectTo: `${window.location.origin}/reset-password`,
-  });
-  if (error) throw error;
+  await getRepository().resetPassword(email, `${window.location.origin}/reset-password`);
 };
 
 export const updatePassword = async (newPassword: string) => {
-  const { error } = await supabase.auth.updateUser({
-    password: newPassword,
-  });
-  if (error) throw error;
+  await getRepository().updatePassword(newPassword);
 };
 
-export const updateUserRole = async (userId: string, role: 'citizen' | 'admin') => {
-  const { error } = await supabase
-    .from('profiles')
-    .update({ role })
-    .eq('id', userId);
+export const accountLockedMessage = (status: AccountStatus, suspendedUntil?: string | null) => {
+  if (status === 'banned') return 'This account has been banned.';
+  return suspendedUntil
+    ? `This account is suspended until ${new Date(suspendedUntil).toLocaleString()}.`
+    : 'This account is suspended.';
+};
 
-  if (error) throw error;
-}; 
\ No newline at end of file
+// Role, department and status changes need users:manage and are recorded
+// with `note` in the user's audit trail.
+export const updateUserRole = async (userId: string, role: UserRole, department?: Department | null, note?: string) => {
+  await getRepository().updateProfile(userId, {
+    role,
+    ...(department !== undefined && { department }),
+    change_note: note?.trim() || null,
+  });
+};
+
+// Suspensions without an end date last until lifted
+export const updateUserStatus = async (
+  userId: string,
+  status: AccountStatus,
+  suspendedUntil: string | null = null,
+  note?: string
+) => {
+  await getRepository().updateProfile(userId, {
+    status,
+    suspended_until: status === 'suspended' ? suspendedUntil : null,
+    change_note: note?.trim() || null,
+  });
+};
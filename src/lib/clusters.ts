@@ -0,0 +1,47 @@
+import {
+  ISSUE_SEVERITIES,
+  ISSUE_STATUSES,
+  type Issue,
+  type IssueSeverity,
+  type IssueStatus,
+} from './types/issue';
+
+// Map marker clusters are coloured by what most of their issues have in
+// common: their status or their severity.
+export type ClusterColorBy = 'status' | 'severity';
+
+export const STATUS_COLORS: Record<IssueStatus, string> = {
+  reported: '#dc2626',
+  under_review: '#2563eb',
+  in_progress: '#ea580c',
+  resolved: '#16a34a',
+  closed: '#6b7280',
+};
+
+export const SEVERITY_COLORS: Record<IssueSeverity, string> = {
+  low: '#16a34a',
+  medium: '#ca8a04',
+  high: '#ea580c',
+  critical: '#dc2626',
+};
+
+// The value most issues share. Ties go to the one that needs attention
+// first: the earlier status, or the higher severity.
+export const dominantValue = (issues: Pick<Issue, 'status' | 'severity'>[], by: ClusterColorBy) => {
+  const order: readonly string[] = by === 'status' ? ISSUE_STATUSES : [...ISSUE_SEVERITIES].reverse();
+  const counts = new Map<string, number>();
+  issues.forEach(issue => counts.set(issue[by], (counts.get(issue[by]) ?? 0) + 1));
+
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || order.indexOf(a) - order.indexOf(b))[0]?.[0] as
+    IssueStatus | IssueSeverity | undefined;
+};
+
+export const clusterColor = (issues: Pick<Issue, 'status' | 'severity'>[], by: ClusterColorBy) => {
+  const value = dominantValue(issues, by);
+  if (!value) return STATUS_COLORS.closed;
+  return by === 'status' ? STATUS_COLORS[value as IssueStatus] : SEVERITY_COLORS[value as IssueSeverity];
+};
+
+// Icon diameter in pixels, growing with the number of issues
+export const clusterSize = (count: number) => (count < 10 ? 32 : count < 100 ? 40 : 48);
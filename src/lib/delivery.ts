@@ -0,0 +1,174 @@
+import type { IssueEventRow, IssueRow, NotificationPreferencesRow } from './supabase';
+import type { IssueRepository } from './repository/types';
+import type { EmailMessage, EmailTransport } from './email';
+import { isIssueStatus } from './types/issue';
+import type { DigestFrequency } from './types/notification';
+import { statusLabel } from './workflow';
+
+// Email delivery: notifications whose recipient chose email, and daily or
+// weekly digests of the issues each user follows. Run outside the app by
+// src/scripts/sendNotificationEmails.ts, so everything here takes the
+// repository and transport it works with.
+
+const HOUR = 60 * 60 * 1000;
+
+const DIGEST_PERIODS: Record<Exclude<DigestFrequency, 'off'>, number> = {
+  daily: 24 * HOUR,
+  weekly: 7 * 24 * HOUR,
+};
+
+// Runs are scheduled, not exact; a digest sent a little under a period ago
+// still counts as due so a cron job doesn't skip every other run
+const DIGEST_SLACK = HOUR;
+
+interface DeliveryOptions {
+  // Links in emails point here, e.g. https://cityfix.example.com
+  appUrl: string;
+}
+
+export interface DeliveryResult {
+  sent: number;
+  failed: number;
+}
+
+const issueUrl = (appUrl: string, issueId: string) => `${appUrl.replace(/\/$/, '')}/issue/${issueId}`;
+
+const describeStatus = (status: string) => (isIssueStatus(status) ? statusLabel(status) : status);
+
+// Issues the user follows, reported or is assigned to
+const followedIssues = async (repository: IssueRepository, userId: string, since: string) => {
+  const pages = await Promise.all([
+    repository.queryIssues({ followedBy: userId, updatedFrom: since, sort: 'updated_at', limit: 100 }),
+    repository.queryIssues({ userId, updatedFrom: since, sort: 'updated_at', limit: 100 }),
+    repository.queryIssues({ assignedTo: userId, updatedFrom: since, sort: 'updated_at', limit: 100 }),
+  ]);
+
+  const issues = new Map<string, IssueRow>();
+  pages.flatMap(page => page.rows).forEach(issue => issues.set(issue.id, issue));
+  return [...issues.values()];
+};
+
+export const isDigestDue = (preferences: NotificationPreferencesRow, now = Date.now()) => {
+  if (preferences.digest === 'off' || !preferences.email) return false;
+  if (!preferences.digest_sent_at) return true;
+  return now - new Date(preferences.digest_sent_at).getTime() >= DIGEST_PERIODS[preferences.digest] - DIGEST_SLACK;
+};
+
+// The digest email for one user, or null when nothing they follow changed
+export const buildDigest = async (
+  repository: IssueRepository,
+  preferences: NotificationPreferencesRow,
+  { appUrl, now = Date.now() }: DeliveryOptions & { now?: number },
+): Promise<EmailMessage | null> => {
+  if (preferences.digest === 'off' || !preferences.email) return null;
+
+  const since = preferences.digest_sent_at ?? new Date(now - DIGEST_PERIODS[preferences.digest]).toISOString();
+  const issues = await followedIssues(repository, preferences.user_id, since);
+  if (issues.length === 0) return null;
+
+  const events = await repository.queryIssueEvents({
+    issueIds: issues.map(issue => issue.id),
+    field: ['status'],
+    from: since,
+  });
+  const eventsByIssue = new Map<string, IssueEventRow[]>();
+  events.forEach(event => eventsByIssue.set(event.issue_id, [...(eventsByIssue.get(event.issue_id) ?? []), event]));
+
+  const period = preferences.digest === 'daily' ? 'today' : 'this week';
+  const sections = issues.map(issue => {
+    const changes = (eventsByIssue.get(issue.id) ?? []).map(event =>
+      event.old_value
+        ? `  - ${describeStatus(String(event.old_value))} → ${describeStatus(String(event.new_value))}`
+        : `  - Reported`
+    );
+    return [
+      `${issue.title} (${describeStatus(issue.status)})`,
+      ...(changes.length > 0 ? changes : ['  - Updated']),
+      `  ${issueUrl(appUrl, issue.id)}`,
+    ].join('\n');
+  });
+
+  return {
+    to: preferences.email,
+    subject: `CityFix: ${issues.length} ${issues.length === 1 ? 'issue' : 'issues'} you follow changed ${period}`,
+    text: [
+      `Here's what changed ${period} on the issues you follow, reported or are assigned to.`,
+      ...sections,
+      `Change how often you get this at ${appUrl.replace(/\/$/, '')}/profile/notifications`,
+    ].join('\n\n'),
+  };
+};
+
+// Sends every due digest of the given frequency and records when it was sent.
+// Users with nothing to report are marked too, so the next digest covers
+// only the period after this one.
+export const sendDigests = async (
+  repository: IssueRepository,
+  transport: EmailTransport,
+  frequency: Exclude<DigestFrequency, 'off'>,
+  { appUrl, now = Date.now() }: DeliveryOptions & { now?: number },
+): Promise<DeliveryResult> => {
+  const sentAt = new Date(now).toISOString();
+  const preferences = (await repository.listNotificationPreferences({ digest: frequency }))
+    .filter(row => isDigestDue(row, now));
+  const result: DeliveryResult = { sent: 0, failed: 0 };
+
+  for (const row of preferences) {
+    try {
+      const digest = await buildDigest(repository, row, { appUrl, now });
+      if (digest) {
+        await transport.send(digest);
+        result.sent++;
+      }
+      await repository.markDigestSent(row.user_id, sentAt);
+    } catch (error) {
+      console.error(`Digest for ${row.user_id} failed:`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
+
+// Emails notifications sent to the email channel, oldest first. Ones whose
+// recipient has no confirmed email address are marked sent without sending,
+// so they don't hold up the queue.
+export const sendNotificationEmails = async (
+  repository: IssueRepository,
+  transport: EmailTransport,
+  { appUrl, limit = 100 }: DeliveryOptions & { limit?: number },
+): Promise<DeliveryResult> => {
+  const notifications = await repository.getUnsentEmailNotifications(limit);
+  if (notifications.length === 0) return { sent: 0, failed: 0 };
+
+  const preferences = await repository.listNotificationPreferences({
+    userIds: [...new Set(notifications.map(n => n.user_id))],
+  });
+  const emails = new Map(preferences.map(row => [row.user_id, row.email]));
+  const result: DeliveryResult = { sent: 0, failed: 0 };
+  const done: string[] = [];
+
+  for (const notification of notifications) {
+    const to = emails.get(notification.user_id);
+    try {
+      if (to) {
+        await transport.send({
+          to,
+          subject: `CityFix: ${notification.title}`,
+          text: [
+            notification.message,
+            notification.issue_id ? issueUrl(appUrl, notification.issue_id) : null,
+          ].filter(Boolean).join('\n\n'),
+        });
+        result.sent++;
+      }
+      done.push(notification.id);
+    } catch (error) {
+      console.error(`Email for notification ${notification.id} failed:`, error);
+      result.failed++;
+    }
+  }
+
+  if (done.length > 0) await repository.markNotificationsEmailed(done);
+  return result;
+};
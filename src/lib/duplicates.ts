@@ -0,0 +1,91 @@
+import { distanceMeters, type LatLng } from './geo';
+import { ISSUE_CATEGORIES, type Issue, type IssueCategory } from './types/issue';
+
+// Finding existing reports a new one may duplicate: open issues of the same
+// or a related category near the new report's location, ranked by how close
+// they are and how alike their titles are.
+
+// Set VITE_DUPLICATE_RADIUS_METERS to search a wider or narrower area
+export const DUPLICATE_RADIUS_METERS = Number(import.meta.env.VITE_DUPLICATE_RADIUS_METERS) || 100;
+
+// Most candidates shown
+export const MAX_DUPLICATES = 5;
+
+// Titles at least this alike (0 to 1) make a candidate wherever it is within
+// the radius; same-category issues this close need no title match
+const MIN_TITLE_SIMILARITY = 0.3;
+const NEARBY_SHARE = 0.25;
+
+// Categories residents confuse with each other. `other` is related to all.
+const RELATED_CATEGORIES: Partial<Record<IssueCategory, IssueCategory[]>> = {
+  pothole: ['road_damage'],
+  road_damage: ['pothole', 'sign_damage'],
+  sign_damage: ['road_damage'],
+  garbage: ['graffiti'],
+  graffiti: ['garbage'],
+  flooding: ['road_damage'],
+};
+
+export const relatedCategories = (category: IssueCategory): IssueCategory[] =>
+  category === 'other'
+    ? [...ISSUE_CATEGORIES]
+    : [category, ...(RELATED_CATEGORIES[category] ?? []), 'other'];
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'near', 'on', 'in', 'at', 'of', 'a', 'an', 'to', 'is', 'by', 'outside']);
+
+const titleWords = (title: string) => new Set(
+  title
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    // "potholes" and "pothole" are the same thing
+    .map(word => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word))
+);
+
+// Share of words the titles have in common (Dice coefficient), 0 to 1
+export const titleSimilarity = (a: string, b: string) => {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+};
+
+export interface DuplicateDraft {
+  title: string;
+  category: IssueCategory;
+  coordinates: LatLng;
+}
+
+export interface DuplicateCandidate {
+  issue: Issue;
+  distanceMeters: number;
+  similarity: number;
+}
+
+// `issues` are expected to be open and in a related category already; this
+// measures and ranks them.
+export const findDuplicates = (
+  draft: DuplicateDraft,
+  issues: Issue[],
+  radiusMeters = DUPLICATE_RADIUS_METERS,
+): DuplicateCandidate[] =>
+  issues
+    .map(issue => ({
+      issue,
+      distanceMeters: distanceMeters(draft.coordinates, issue.location.coordinates),
+      similarity: titleSimilarity(draft.title, issue.title),
+    }))
+    .filter(({ issue, distanceMeters, similarity }) =>
+      distanceMeters <= radiusMeters && (
+        similarity >= MIN_TITLE_SIMILARITY ||
+        (issue.category === draft.category && distanceMeters <= radiusMeters * NEARBY_SHARE)
+      )
+    )
+    .map(candidate => ({
+      candidate,
+      score: candidate.similarity * 0.6 + (1 - candidate.distanceMeters / radiusMeters) * 0.4,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_DUPLICATES)
+    .map(({ candidate }) => candidate);
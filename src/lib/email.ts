@@ -0,0 +1,76 @@
+// Sending email. Delivery code only sees EmailTransport, so the same code
+// sends through a real provider in production and through Mailpit
+// (https://mailpit.axllent.org), a local SMTP stand-in with a web inbox,
+// during development.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+interface HttpTransportOptions {
+  url: string;
+  from: string;
+  headers?: Record<string, string>;
+}
+
+// Posts each message as JSON, { from, to, subject, text, html }, which is
+// what most transactional email APIs accept or can be adapted to
+export const createHttpTransport = ({ url, from, headers = {} }: HttpTransportOptions): EmailTransport => ({
+  send: async (message) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ from, ...message }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email to ${message.to} failed: ${response.status} ${await response.text()}`);
+    }
+  },
+});
+
+interface MailpitTransportOptions {
+  // Mailpit's web UI and API, not its SMTP port
+  url?: string;
+  from: string;
+}
+
+// Start Mailpit with `docker run -p 8025:8025 -p 1025:1025 axllent/mailpit`
+// and read what was sent at http://localhost:8025.
+export const createMailpitTransport = ({ url = 'http://localhost:8025', from }: MailpitTransportOptions): EmailTransport => ({
+  send: async (message) => {
+    const response = await fetch(`${url}/api/v1/send`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        From: { Email: from },
+        To: [{ Email: message.to }],
+        Subject: message.subject,
+        Text: message.text,
+        HTML: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Email to ${message.to} failed: ${response.status} ${await response.text()}`);
+    }
+  },
+});
+
+// Keeps messages in `sent` instead of sending them, e.g. for a dry run
+export const createMemoryTransport = (): EmailTransport & { sent: EmailMessage[] } => {
+  const sent: EmailMessage[] = [];
+  return {
+    sent,
+    send: async (message) => {
+      sent.push(message);
+    },
+  };
+};
@@ -0,0 +1,88 @@
+// Distances and areas on the map. Good enough at city scale; areas that cross
+// the antimeridian aren't supported.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// A latitude/longitude box, edges included
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance
+export const distanceMeters = (a: LatLng, b: LatLng) => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// The smallest box holding every point within `radiusMeters` of `center`
+export const boundsAround = (center: LatLng, radiusMeters: number): GeoBounds => {
+  const dLat = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const dLng = dLat / Math.max(Math.cos(toRadians(center.lat)), 0.01);
+  return {
+    south: center.lat - dLat,
+    west: center.lng - dLng,
+    north: center.lat + dLat,
+    east: center.lng + dLng,
+  };
+};
+
+export const isWithinBounds = (point: LatLng, bounds: GeoBounds) =>
+  point.lat >= bounds.south && point.lat <= bounds.north &&
+  point.lng >= bounds.west && point.lng <= bounds.east;
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10 || Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+// GeoJSON polygon geometry, e.g. a ward boundary. Positions are
+// [longitude, latitude]; each polygon's first ring is its outline and any
+// further rings are holes in it.
+export type GeoPosition = [number, number];
+
+export type AreaGeometry =
+  | { type: 'Polygon'; coordinates: GeoPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoPosition[][][] };
+
+const polygonsOf = (area: AreaGeometry) =>
+  area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+
+// Ray casting; points on an edge may fall either side
+const isInRing = (point: LatLng, ring: GeoPosition[]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngA, latA] = ring[i];
+    const [lngB, latB] = ring[j];
+    if ((latA > point.lat) !== (latB > point.lat) &&
+      point.lng < lngA + ((point.lat - latA) / (latB - latA)) * (lngB - lngA)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const isWithinArea = (point: LatLng, area: AreaGeometry) =>
+  polygonsOf(area).some(([outline, ...holes]) =>
+    !!outline && isInRing(point, outline) && !holes.some(hole => isInRing(point, hole))
+  );
+
+export const areaBounds = (area: AreaGeometry): GeoBounds => {
+  const positions = polygonsOf(area).flatMap(([outline = []]) => outline);
+  return {
+    south: Math.min(...positions.map(([, lat]) => lat)),
+    west: Math.min(...positions.map(([lng]) => lng)),
+    north: Math.max(...positions.map(([, lat]) => lat)),
+    east: Math.max(...positions.map(([lng]) => lng)),
+  };
+};
@@ -0,0 +1,51 @@
+import { GEOCODE_STORE, idbGet, idbPut, isIndexedDbAvailable } from '../idb';
+
+// Lookups already answered. They're kept in memory and, where the browser
+// has it, in IndexedDB so they outlive the tab. Losing the cache only costs
+// requests, so storage errors are logged and otherwise ignored.
+export interface GeocodeCache {
+  // Undefined when the key isn't cached
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: <T>(key: string, value: T) => Promise<void>;
+}
+
+interface CacheEntry {
+  id: string;
+  value: unknown;
+  cachedAt: number;
+}
+
+// Addresses rarely change, but streets do get built and renamed
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const isFresh = (entry: CacheEntry | undefined): entry is CacheEntry =>
+  !!entry && Date.now() - entry.cachedAt < CACHE_TTL_MS;
+
+export const createGeocodeCache = ({ persist = isIndexedDbAvailable() } = {}): GeocodeCache => {
+  const memory = new Map<string, CacheEntry>();
+
+  return {
+    get: async <T>(key: string) => {
+      let entry = memory.get(key);
+      if (!entry && persist) {
+        try {
+          entry = await idbGet<CacheEntry>(GEOCODE_STORE, key);
+          if (isFresh(entry)) memory.set(key, entry);
+        } catch (error) {
+          console.error('Error reading the geocoding cache:', error);
+        }
+      }
+      return isFresh(entry) ? entry.value as T : undefined;
+    },
+    set: async (key, value) => {
+      const entry: CacheEntry = { id: key, value, cachedAt: Date.now() };
+      memory.set(key, entry);
+      if (!persist) return;
+      try {
+        await idbPut(GEOCODE_STORE, entry);
+      } catch (error) {
+        console.error('Error writing the geocoding cache:', error);
+      }
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { distanceMeters, isWithinBounds } from '../geo';
+import type { GeocodeResult, GeocodingProvider } from './types';
+
+// Answers from a fixed list of places without going online, for tests and
+// for working offline. The default places are the addresses of the local
+// backend's seed issues.
+export const FIXTURE_PLACES: GeocodeResult[] = [
+  {
+    lat: 40.7128,
+    lng: -74.006,
+    label: '123 Main St, Anytown',
+    address: { houseNumber: '123', road: 'Main St', city: 'Anytown' },
+  },
+  {
+    lat: 40.7129,
+    lng: -74.007,
+    label: '456 Oak Ave, Anytown',
+    address: { houseNumber: '456', road: 'Oak Ave', city: 'Anytown' },
+  },
+  {
+    lat: 40.713,
+    lng: -74.008,
+    label: '789 Market St, Anytown',
+    address: { houseNumber: '789', road: 'Market St', city: 'Anytown' },
+  },
+];
+
+// Reverse lookups answer with the nearest place within this distance
+const REVERSE_RADIUS_METERS = 250;
+
+export const createFixtureProvider = (places: GeocodeResult[] = FIXTURE_PLACES): GeocodingProvider => ({
+  id: 'fixture',
+  minIntervalMs: 0,
+  // Places whose label holds every word of the query
+  search: async (query, { limit = 5, bounds }) => {
+    const words = query.toLowerCase().split(/[\s,]+/).filter(Boolean);
+    const inBounds = (place: GeocodeResult) => (bounds && isWithinBounds(place, bounds) ? 0 : 1);
+    return places
+      .filter(place => words.every(word => place.label.toLowerCase().includes(word)))
+      .sort((a, b) => inBounds(a) - inBounds(b))
+      .slice(0, limit);
+  },
+  reverse: async (position) => {
+    const nearest = places
+      .map(place => ({ place, distance: distanceMeters(position, place) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    return nearest && nearest.distance <= REVERSE_RADIUS_METERS ? nearest.place : null;
+  },
+});
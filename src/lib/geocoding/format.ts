@@ -0,0 +1,15 @@
+import type { GeocodeResult } from './types';
+
+// A result as two lines: the street address, then where it is. Falls back to
+// splitting the provider's label for places without a street, such as parks.
+export const addressLines = ({ label, address }: GeocodeResult) => {
+  const street = [address.houseNumber, address.road].filter(Boolean).join(' ');
+  const [first, ...rest] = label.split(', ');
+  if (!street) {
+    return { primary: first, secondary: rest.join(', ') };
+  }
+  const locality = [address.suburb ?? address.neighbourhood, address.city, address.state, address.country]
+    .filter(Boolean)
+    .join(', ');
+  return { primary: street, secondary: locality };
+};
@@ -0,0 +1,120 @@
+import type { LatLng } from '../geo';
+import { createGeocodeCache, type GeocodeCache } from './cache';
+import type { GeocodeResult, GeocodingProvider, SearchOptions } from './types';
+
+// Turning addresses into positions and back. Lookups go through a cache and
+// reach the provider one at a time, no faster than it allows.
+export interface Geocoder {
+  search: (query: string, options?: SearchOptions) => Promise<GeocodeResult[]>;
+  reverse: (position: LatLng) => Promise<GeocodeResult | null>;
+}
+
+// About a metre, so clicks on the same spot share a cache entry
+const REVERSE_KEY_DECIMALS = 5;
+
+// A request shared by everyone who asked for the same lookup meanwhile
+interface PendingLookup {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+}
+
+export const createGeocoder = (
+  provider: GeocodingProvider,
+  cache: GeocodeCache = createGeocodeCache()
+): Geocoder => {
+  let nextRequestAt = 0;
+  const pending = new Map<string, PendingLookup>();
+
+  // Ends early, rejecting, if the signal aborts
+  const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      const handleAbort = () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+
+  // Waits for this request's turn. A request aborted meanwhile, e.g. a
+  // search the user has typed past, stops waiting and is dropped instead of
+  // sent. The slot is only taken once the request is about to go out, so
+  // dropped requests don't hold up the ones after them.
+  const throttle = async (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    while (Date.now() < nextRequestAt) {
+      await wait(nextRequestAt - Date.now(), signal);
+    }
+    nextRequestAt = Date.now() + provider.minIntervalMs;
+  };
+
+  const leave = (key: string, entry: PendingLookup) => {
+    entry.waiting -= 1;
+    if (entry.waiting > 0) return;
+    entry.controller.abort();
+    if (pending.get(key) === entry) pending.delete(key);
+  };
+
+  // The same lookup asked for twice at once is only sent once. The request
+  // isn't tied to any one caller's signal: aborting only stops that caller
+  // waiting, and the request itself is aborted once nobody is left.
+  const lookup = <T>(key: string, request: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    let entry = pending.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: PendingLookup = {
+        promise: (async () => {
+          const cached = await cache.get<T>(key);
+          if (cached !== undefined) return cached;
+          await throttle(controller.signal);
+          const value = await request(controller.signal);
+          await cache.set(key, value);
+          return value;
+        })().finally(() => {
+          if (pending.get(key) === created) pending.delete(key);
+        }),
+        controller,
+        waiting: 0,
+      };
+      entry = created;
+      pending.set(key, entry);
+    }
+
+    entry.waiting += 1;
+    const shared = entry;
+    if (!signal) return shared.promise as Promise<T>;
+    return new Promise<T>((resolve, reject) => {
+      const handleAbort = () => {
+        leave(key, shared);
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', handleAbort, { once: true });
+      (shared.promise as Promise<T>)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', handleAbort));
+    });
+  };
+
+  return {
+    search: (query, { limit = 5, bounds, signal } = {}) => {
+      const normalized = query.trim().replace(/\s+/g, ' ').toLowerCase();
+      if (!normalized) return Promise.resolve([]);
+      const box = bounds ? [bounds.south, bounds.west, bounds.north, bounds.east].join(',') : '';
+      return lookup(
+        `${provider.id}|search|${limit}|${box}|${normalized}`,
+        (requestSignal) => provider.search(normalized, { limit, bounds, signal: requestSignal }),
+        signal
+      );
+    },
+    reverse: (position) => {
+      const key = [position.lat, position.lng].map(n => n.toFixed(REVERSE_KEY_DECIMALS)).join(',');
+      return lookup(`${provider.id}|reverse|${key}`, () => provider.reverse(position));
+    },
+  };
+};
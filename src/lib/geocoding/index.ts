@@ -0,0 +1,43 @@
+import type { GeoBounds, LatLng } from '../geo';
+import { createGeocodeCache } from './cache';
+import { createFixtureProvider } from './fixture';
+import { createGeocoder, type Geocoder } from './geocoder';
+import { createNominatimProvider } from './nominatim';
+import type { GeocodingProvider, SearchOptions } from './types';
+
+export * from './types';
+export * from './format';
+export type { Geocoder } from './geocoder';
+
+// Set VITE_GEOCODER=fixture to geocode without going online, and
+// VITE_GEOCODER_URL to use a self-hosted Nominatim instead of the public one.
+const createProvider = (): GeocodingProvider =>
+  import.meta.env.VITE_GEOCODER === 'fixture'
+    ? createFixtureProvider()
+    : createNominatimProvider({ url: import.meta.env.VITE_GEOCODER_URL || undefined });
+
+// Set VITE_CITY_BOUNDS=south,west,north,east to prefer addresses in the city
+const parseBounds = (value?: string): GeoBounds | null => {
+  const numbers = value?.split(',').map(Number) ?? [];
+  if (numbers.length !== 4 || numbers.some(n => !Number.isFinite(n))) return null;
+  const [south, west, north, east] = numbers;
+  return south < north && west < east ? { south, west, north, east } : null;
+};
+
+export const cityBounds = parseBounds(import.meta.env.VITE_CITY_BOUNDS);
+
+let geocoder: Geocoder = createGeocoder(createProvider());
+
+export const getGeocoder = (): Geocoder => geocoder;
+
+// Swap the active geocoder, e.g. to point tests at fixture places.
+export const setGeocoder = (next: Geocoder) => {
+  geocoder = next;
+};
+
+export const searchAddress = (query: string, options?: SearchOptions) =>
+  geocoder.search(query, options);
+
+export const reverseGeocode = (position: LatLng) => geocoder.reverse(position);
+
+export { createFixtureProvider, createGeocodeCache, createGeocoder, createNominatimProvider };
@@ -0,0 +1,80 @@
+import type { AddressParts, GeocodeResult, GeocodingProvider } from './types';
+
+// https://nominatim.org/release-docs/latest/api/Overview/
+const PUBLIC_URL = 'https://nominatim.openstreetmap.org';
+
+// The public instance's usage policy allows one request a second
+const PUBLIC_MIN_INTERVAL_MS = 1000;
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: Record<string, string>;
+}
+
+// Nominatim names the parts after the OpenStreetMap tags of the place, so
+// e.g. a small town comes back as `town` or `village` rather than `city`
+const addressParts = (address: Record<string, string> = {}): AddressParts => ({
+  houseNumber: address.house_number,
+  road: address.road ?? address.pedestrian ?? address.footway,
+  neighbourhood: address.neighbourhood ?? address.quarter,
+  suburb: address.suburb ?? address.city_district,
+  city: address.city ?? address.town ?? address.village ?? address.hamlet,
+  county: address.county,
+  state: address.state,
+  postcode: address.postcode,
+  country: address.country,
+  countryCode: address.country_code?.toUpperCase(),
+});
+
+const placeToResult = (place: NominatimPlace): GeocodeResult => ({
+  lat: parseFloat(place.lat),
+  lng: parseFloat(place.lon),
+  label: place.display_name,
+  address: addressParts(place.address),
+});
+
+interface NominatimOptions {
+  // A self-hosted Nominatim, e.g. http://localhost:8080
+  url?: string;
+  // Defaults to no limit for a self-hosted instance
+  minIntervalMs?: number;
+}
+
+export const createNominatimProvider = ({
+  url = PUBLIC_URL,
+  minIntervalMs = url === PUBLIC_URL ? PUBLIC_MIN_INTERVAL_MS : 0,
+}: NominatimOptions = {}): GeocodingProvider => {
+  const request = async (path: string, params: Record<string, string>, signal?: AbortSignal) => {
+    const query = new URLSearchParams({ format: 'jsonv2', addressdetails: '1', ...params });
+    const response = await fetch(`${url}/${path}?${query}`, {
+      headers: { Accept: 'application/json' },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Geocoding failed: ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    id: `nominatim:${url}`,
+    minIntervalMs,
+    search: async (query, { limit = 5, bounds, signal }) => {
+      const params: Record<string, string> = { q: query, limit: String(limit) };
+      if (bounds) {
+        // Without `bounded=1` Nominatim only prefers places in the viewbox
+        params.viewbox = [bounds.west, bounds.north, bounds.east, bounds.south].join(',');
+      }
+      const places: NominatimPlace[] = await request('search', params, signal);
+      return places.map(placeToResult);
+    },
+    reverse: async ({ lat, lng }) => {
+      const place: NominatimPlace & { error?: string } =
+        await request('reverse', { lat: String(lat), lon: String(lng), zoom: '18' });
+      return place.error ? null : placeToResult(place);
+    },
+  };
+};
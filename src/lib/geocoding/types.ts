@@ -0,0 +1,39 @@
+import type { GeoBounds, LatLng } from '../geo';
+
+// An address broken into parts. Which parts are set depends on the place and
+// on the provider.
+export interface AddressParts {
+  houseNumber?: string;
+  road?: string;
+  neighbourhood?: string;
+  suburb?: string;
+  city?: string;
+  county?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+  countryCode?: string;
+}
+
+export interface GeocodeResult extends LatLng {
+  // The whole address as the provider writes it
+  label: string;
+  address: AddressParts;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  // Results inside these bounds come first; ones outside aren't left out
+  bounds?: GeoBounds;
+  signal?: AbortSignal;
+}
+
+export interface GeocodingProvider {
+  // Part of every cache key, so results from different providers don't mix
+  id: string;
+  // Shortest time between two requests to the provider
+  minIntervalMs: number;
+  search: (query: string, options: SearchOptions) => Promise<GeocodeResult[]>;
+  // Null when there is no address at the position, e.g. out at sea
+  reverse: (position: LatLng) => Promise<GeocodeResult | null>;
+}
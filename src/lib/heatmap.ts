@@ -0,0 +1,39 @@
+import type { Issue, IssueSeverity } from './types/issue';
+
+// What makes an issue count for more on the map heatmap: nothing, how severe
+// it is, or how many people upvoted it.
+export type HeatmapWeight = 'none' | 'severity' | 'upvotes';
+
+export const SEVERITY_WEIGHTS: Record<IssueSeverity, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+  critical: 1,
+};
+
+export type HeatPoint = [lat: number, lng: number, intensity: number];
+
+// Intensities run from 0 to 1. Upvotes are relative to the most upvoted
+// issue, and an issue nobody has upvoted still shows up faintly.
+export const heatPoints = (
+  issues: Pick<Issue, 'location' | 'severity' | 'upvotes'>[],
+  weightBy: HeatmapWeight
+): HeatPoint[] => {
+  const maxUpvotes = Math.max(0, ...issues.map(issue => issue.upvotes));
+
+  return issues.map(issue => {
+    const { lat, lng } = issue.location.coordinates;
+    switch (weightBy) {
+      case 'severity':
+        return [lat, lng, SEVERITY_WEIGHTS[issue.severity] ?? SEVERITY_WEIGHTS.medium];
+      case 'upvotes':
+        return [lat, lng, (issue.upvotes + 1) / (maxUpvotes + 1)];
+      default:
+        return [lat, lng, 1];
+    }
+  });
+};
+
+// Combined intensity at which a spot is drawn at full heat, so a hotspot
+// takes a few issues rather than any single one
+export const HEAT_SATURATION = 3;
@@ -0,0 +1,85 @@
+// Small promise wrapper around IndexedDB for stores keyed by an `id` field.
+
+const DB_NAME = 'cityfix';
+const DB_VERSION = 2;
+
+export const OUTBOX_STORE = 'outbox';
+export const GEOCODE_STORE = 'geocode';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(GEOCODE_STORE)) {
+          db.createObjectStore(GEOCODE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open local database'));
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error ?? new Error('Local database request failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Local database request aborted'));
+  });
+};
+
+export const idbGetAll = <T>(storeName: string) =>
+  run<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const idbGet = <T>(storeName: string, id: string) =>
+  run<T | undefined>(storeName, 'readonly', store => store.get(id));
+
+export const idbPut = <T>(storeName: string, value: T) =>
+  run<IDBValidKey>(storeName, 'readwrite', store => store.put(value));
+
+export const idbDelete = (storeName: string, id: string) =>
+  run<undefined>(storeName, 'readwrite', store => store.delete(id));
+
+// Reads, changes and writes one record inside a single transaction, so two
+// tabs can't both act on the same version. Returning undefined leaves the
+// record untouched.
+export const idbUpdate = async <T>(
+  storeName: string,
+  id: string,
+  update: (value: T | undefined) => T | undefined
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    let result: T | undefined;
+    const request = store.get(id);
+    request.onsuccess = () => {
+      result = update(request.result as T | undefined);
+      if (result !== undefined) store.put(result);
+    };
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error ?? new Error('Local database request failed'));
+    transaction.onabort = () => reject(transaction.error ?? new Error('Local database request aborted'));
+  });
+};
@@ -1,159 +1,190 @@
-import { supabase } from './supabase';
-import type { Issue, IssueComment, IssueStatus, IssuePriority, IssueCategory } from './supabase';
+import { getRepository } from './repository';
+import type { ChangePayload, CommentWithAuthor, IssueCountColumn, IssueEventQuery, IssueFilters, IssueQuery, NewComment, NewIssue, NewNotificationPreferences, NewWard, ProfileEventQuery, ProfileQuery, RealtimeStatus } from './repository';
+import type { IssueRow, IssueCommentRow, NotificationRow } from './supabase';
 
 // Issue Functions
-export const createIssue = async (issue: Omit<Issue, 'id' | 'created_at' | 'updated_at' | 'votes'>) => {
-  const { data, error } = await supabase
-    .from('issues')
-    .insert([issue])
-    .select()
-    .single();
-
-  if (error) throw error;
-  return data;
-};
-
-export const getIssues = async (filters?: {
-  status?: IssueStatus;
-  category?: IssueCategory;
-  priority?: IssuePriority;
-  userId?: string;
-}) => {
-  let query = supabase
-    .from('issues')
-    .select('*')
-    .order('created_at', { ascending: false });
-
-  if (filters?.status) {
-    query = query.eq('status', filters.status);
-  }
-  if (filters?.category) {
-    query = query.eq('category', filters.category);
-  }
-  if (filters?.priority) {
-    query = query.eq('priority', filters.priority);
-  }
-  if (filters?.userId) {
-    query = query.eq('user_id', filters.userId);
-  }
-
-  const { data, error } = await query;
-  if (error) throw error;
-  return data;
+export const createIssue = async (issue: NewIssue) => {
+  return getRepository().createIssue(issue);
 };
 
-export const getIssueById = async (id: string) => {
-  const { data, error } = await supabase
-    .from('issues')
-    .select(`
-      *,
-      user:profiles(name, avatar_url),
-      assigned_to:profiles(name, avatar_url)
-    `)
-    .eq('id', id)
-    .single();
+export const getIssues = async (filters?: IssueFilters) => {
+  return getRepository().getIssues(filters);
+};
 
-  if (error) throw error;
-  return data;
+export const queryIssues = async (query: IssueQuery) => {
+  return getRepository().queryIssues(query);
 };
 
-export const updateIssue = async (id: string, updates: Partial<Issue>) => {
-  const { data, error } = await supabase
-    .from('issues')
-    .update(updates)
-    .eq('id', id)
-    .select()
-    .single();
+export const countIssues = async (query?: IssueQuery) => {
+  return getRepository().countIssues(query);
+};
 
-  if (error) throw error;
-  return data;
+export const queryIssuePoints = async (query: IssueQuery) => {
+  return getRepository().queryIssuePoints(query);
 };
 
-export const deleteIssue = async (id: string) => {
-  const { error } = await supabase
-    .from('issues')
-    .delete()
-    .eq('id', id);
+export const countIssuesBy = async (column: IssueCountColumn) => {
+  return getRepository().countIssuesBy(column);
+};
+
+export const getIssueById = async (id: string) => {
+  return getRepository().getIssueById(id);
+};
 
-  if (error) throw error;
+export const updateIssue = async (id: string, updates: Partial<IssueRow>) => {
+  return getRepository().updateIssue(id, updates);
+};
+
+export const deleteIssue = async (id: string) => {
+  return getRepository().deleteIssue(id);
 };
 
 export const voteOnIssue = async (id: string, userId: string) => {
-  const { data, error } = await supabase.rpc('vote_on_issue', {
-    issue_id: id,
-    user_id: userId
-  });
+  return getRepository().voteOnIssue(id, userId);
+};
 
-  if (error) throw error;
-  return data;
+export const removeVote = async (id: string, userId: string) => {
+  return getRepository().removeVote(id, userId);
 };
 
-// Comment Functions
-export const createComment = async (comment: Omit<IssueComment, 'id' | 'created_at' | 'updated_at'>) => {
-  const { data, error } = await supabase
-    .from('issue_comments')
-    .insert([comment])
-    .select()
-    .single();
+export const followIssue = async (id: string, userId: string) => {
+  return getRepository().followIssue(id, userId);
+};
+
+export const unfollowIssue = async (id: string, userId: string) => {
+  return getRepository().unfollowIssue(id, userId);
+};
+
+// Merge Functions
+export const mergeIssues = async (primaryId: string, duplicateIds: string[], note?: string) => {
+  return getRepository().mergeIssues(primaryId, duplicateIds, note);
+};
+
+export const unmergeIssue = async (mergeId: string) => {
+  return getRepository().unmergeIssue(mergeId);
+};
+
+export const getIssueMerges = async (issueId: string) => {
+  return getRepository().getIssueMerges(issueId);
+};
+
+// Ward Functions
+export const getWards = async () => {
+  return getRepository().getWards();
+};
+
+export const importWards = async (wards: NewWard[]) => {
+  return getRepository().importWards(wards);
+};
+
+// History Functions
+export const queryIssueEvents = async (query: IssueEventQuery) => {
+  return getRepository().queryIssueEvents(query);
+};
+
+export const getAssignedIssues = async (statuses: string[]) => {
+  return getRepository().getAssignedIssues(statuses);
+};
 
-  if (error) throw error;
-  return data;
+// Profile Functions
+export const listProfiles = async (query?: ProfileQuery) => {
+  return getRepository().listProfiles(query);
+};
+
+// Display names for a set of user ids; unknown users are left out.
+export const getProfileNames = async (userIds: string[]) => {
+  const ids = [...new Set(userIds.filter(Boolean))];
+  if (ids.length === 0) return new Map<string, string>();
+  const profiles = await listProfiles({ ids });
+  return new Map(profiles.map(profile => [profile.id, profile.name]));
+};
+
+export const getUserActivity = async (userIds: string[]) => {
+  if (userIds.length === 0) return [];
+  return getRepository().getUserActivity(userIds);
+};
+
+export const queryProfileEvents = async (query: ProfileEventQuery) => {
+  return getRepository().queryProfileEvents(query);
+};
+
+// Comment Functions
+export const createComment = async (comment: NewComment) => {
+  return getRepository().createComment(comment);
 };
 
 export const getComments = async (issueId: string) => {
-  const { data, error } = await supabase
-    .from('issue_comments')
-    .select(`
-      *,
-      user:profiles(name, avatar_url)
-    `)
-    .eq('issue_id', issueId)
-    .order('created_at', { ascending: true });
+  return getRepository().getComments(issueId);
+};
 
-  if (error) throw error;
-  return data;
+// Realtime payloads carry only user_id; look the authors up the way
+// getComments joins them.
+export const withCommentAuthors = async (comments: IssueCommentRow[]): Promise<CommentWithAuthor[]> => {
+  const userIds = [...new Set(comments.map(comment => comment.user_id))];
+  const profiles = await Promise.all(
+    userIds.map(id => getRepository().getProfile(id).catch(() => null))
+  );
+  const byId = new Map(profiles.filter(Boolean).map(profile => [profile.id, profile]));
+  return comments.map(comment => ({ ...comment, user: byId.get(comment.user_id) ?? null }));
 };
 
 export const updateComment = async (id: string, content: string) => {
-  const { data, error } = await supabase
-    .from('issue_comments')
-    .update({ content })
-    .eq('id', id)
-    .select()
-    .single();
-
-  if (error) throw error;
-  return data;
+  return getRepository().updateComment(id, content);
 };
 
 export const deleteComment = async (id: string) => {
-  const { error } = await supabase
-    .from('issue_comments')
-    .delete()
-    .eq('id', id);
+  return getRepository().deleteComment(id);
+};
 
-  if (error) throw error;
+export const getCommentRevisions = async (commentId: string) => {
+  return getRepository().getCommentRevisions(commentId);
+};
+
+// Notification Functions
+export const getNotifications = async (userId: string, limit?: number) => {
+  return getRepository().getNotifications(userId, limit);
+};
+
+export const countUnreadNotifications = async (userId: string) => {
+  return getRepository().countUnreadNotifications(userId);
+};
+
+export const markNotificationsRead = async (userId: string, ids?: string[]) => {
+  return getRepository().markNotificationsRead(userId, ids);
+};
+
+export const dismissNotifications = async (userId: string, ids?: string[]) => {
+  return getRepository().dismissNotifications(userId, ids);
+};
+
+export const getNotificationPreferences = async (userId: string) => {
+  return getRepository().getNotificationPreferences(userId);
+};
+
+export const saveNotificationPreferences = async (preferences: NewNotificationPreferences) => {
+  return getRepository().saveNotificationPreferences(preferences);
 };
 
 // Real-time subscriptions
-export const subscribeToIssues = (callback: (payload: any) => void) => {
-  return supabase
-    .channel('issues_changes')
-    .on('postgres_changes', { event: '*', schema: 'public', table: 'issues' }, callback)
-    .subscribe();
-};
-
-export const subscribeToComments = (issueId: string, callback: (payload: any) => void) => {
-  return supabase
-    .channel(`comments_changes_${issueId}`)
-    .on('postgres_changes', 
-      { 
-        event: '*', 
-        schema: 'public', 
-        table: 'issue_comments',
-        filter: `issue_id=eq.${issueId}`
-      }, 
-      callback
-    )
-    .subscribe();
-}; 
\ No newline at end of file
+export const subscribeToIssues = (
+  callback: (payload: ChangePayload<IssueRow>) => void,
+  onStatus?: (status: RealtimeStatus) => void
+) => {
+  return getRepository().subscribeToIssues(callback, onStatus);
+};
+
+export const subscribeToComments = (
+  issueId: string,
+  callback: (payload: ChangePayload<IssueCommentRow>) => void,
+  onStatus?: (status: RealtimeStatus) => void
+) => {
+  return getRepository().subscribeToComments(issueId, callback, onStatus);
+};
+
+export const subscribeToNotifications = (
+  userId: string,
+  callback: (payload: ChangePayload<NotificationRow>) => void,
+  onStatus?: (status: RealtimeStatus) => void
+) => {
+  return getRepository().subscribeToNotifications(userId, callback, onStatus);
+};
@@ -0,0 +1,476 @@
+import type { IssueCommentRevisionRow, IssueEventRow, IssueMergeRow, IssueRow, NotificationPreferencesRow, NotificationRow, WardRow } from './supabase';
+import type { AccountStatus, AssignedIssueRow, CommentWithAuthor, Department, IssueCountColumn, IssuePointRow, IssueQuery, IssueRowPage, IssueSortColumn, NewIssue, NewNotificationPreferences, NewWard, Profile, ProfileEventRow, UserActivityRow, UserRole } from './repository';
+import { accountStatus } from './permissions';
+import { notificationChannels } from './notifications';
+import { areaGeometry } from './areas';
+import { areaBounds } from './geo';
+import {
+  ISSUE_CATEGORIES,
+  isIssueCategory,
+  isIssueSeverity,
+  isIssueStatus,
+  type Issue,
+  type IssueCategory,
+  type CommentRevision,
+  type IssueComment,
+  type IssueDraft,
+  type IssueEvent,
+  type IssueLocation,
+  type IssueFilter,
+  type IssueMerge,
+  type IssuePage,
+  type IssuePoint,
+  type IssueSeverity,
+  type IssueSort,
+  type IssueSortField,
+  type IssueStatus,
+  type StaffMember,
+  type StaffWorkload,
+  type WorkloadAge,
+} from './types/issue';
+import type { ManagedUser, UserEvent } from './types/user';
+import type { Ward, WardDraft } from './types/ward';
+import {
+  CONFIGURABLE_NOTIFICATION_TYPES,
+  type ConfigurableNotificationType,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type UserNotification,
+} from './types/notification';
+
+// Schema version written by issueToRow. Rows without a version are v1: they
+// were written before the shared model and use five collapsed categories.
+export const ISSUE_SCHEMA_VERSION = 2;
+
+const LEGACY_CATEGORIES: Record<string, IssueCategory> = {
+  road: 'road_damage',
+  water: 'flooding',
+  electricity: 'streetlight',
+  waste: 'garbage',
+  other: 'other',
+};
+
+const categoryFromRow = (value: string, version: number): IssueCategory => {
+  if (version < 2 && value in LEGACY_CATEGORIES) return LEGACY_CATEGORIES[value];
+  if (isIssueCategory(value)) return value;
+  console.warn(`Unknown issue category "${value}", treating as "other"`);
+  return 'other';
+};
+
+const statusFromRow = (value: string): IssueStatus => {
+  if (isIssueStatus(value)) return value;
+  console.warn(`Unknown issue status "${value}", treating as "reported"`);
+  return 'reported';
+};
+
+const severityFromRow = (value: string): IssueSeverity => {
+  if (isIssueSeverity(value)) return value;
+  console.warn(`Unknown issue priority "${value}", treating as "medium"`);
+  return 'medium';
+};
+
+interface RelatedNames {
+  reporterName?: string;
+  assigneeName?: string;
+}
+
+// Picks a row's reporter and assignee out of names looked up by user id
+export const issueNamesFromMap = (row: Partial<IssueRow>, names: Map<string, string>): RelatedNames => ({
+  reporterName: row.user_id ? names.get(row.user_id) : undefined,
+  assigneeName: row.assigned_to ? names.get(row.assigned_to) : undefined,
+});
+
+const locationFromRow = (location: IssueRow['location']): IssueLocation => ({
+  address: location.address,
+  coordinates: {
+    lat: location.latitude,
+    lng: location.longitude,
+  },
+});
+
+export const issueFromRow = (row: IssueRow, names: RelatedNames = {}): Issue => {
+  const version = row.schema_version ?? 1;
+
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    category: categoryFromRow(row.category, version),
+    location: locationFromRow(row.location),
+    images: row.images || [],
+    status: statusFromRow(row.status),
+    severity: severityFromRow(row.priority),
+    reportedBy: {
+      id: row.user_id,
+      name: names.reporterName || 'Anonymous',
+    },
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    upvotes: row.votes || 0,
+    upvotedBy: row.voter_ids ?? [],
+    followedBy: row.follower_ids ?? [],
+    comments: [],
+    assignedTo: row.assigned_to ? {
+      id: row.assigned_to,
+      name: names.assigneeName || 'Anonymous',
+    } : undefined,
+    resolutionNotes: row.resolution_notes || undefined,
+    resolutionImages: row.resolution_images?.length ? row.resolution_images : undefined,
+    duplicateOf: row.duplicate_of || undefined,
+    wardId: row.ward_id || undefined,
+  };
+};
+
+export const issuePointFromRow = (row: IssuePointRow): IssuePoint => ({
+  id: row.id,
+  title: row.title,
+  category: categoryFromRow(row.category, row.schema_version ?? 1),
+  location: locationFromRow(row.location),
+  status: statusFromRow(row.status),
+  severity: severityFromRow(row.priority),
+  upvotes: row.votes || 0,
+  createdAt: row.created_at,
+});
+
+// Converts a changed row, keeping what the row does not carry (names, loaded
+// comments, and who upvoted and follows when the row came from a realtime
+// payload) from the copy we already have. Names that were looked up take
+// precedence.
+export const mergeIssueRow = (row: IssueRow, existing?: Issue, names: RelatedNames = {}): Issue => {
+  const issue = issueFromRow(row, names);
+  if (!existing) return issue;
+
+  return {
+    ...issue,
+    reportedBy: names.reporterName ? issue.reportedBy : existing.reportedBy,
+    upvotedBy: row.voter_ids ?? existing.upvotedBy,
+    followedBy: row.follower_ids ?? existing.followedBy,
+    comments: existing.comments,
+    assignedTo: issue.assignedTo && !names.assigneeName && issue.assignedTo.id === existing.assignedTo?.id
+      ? existing.assignedTo
+      : issue.assignedTo,
+  };
+};
+
+export const issueToRow = (issue: IssueDraft): NewIssue => ({
+  title: issue.title,
+  description: issue.description,
+  category: issue.category,
+  status: issue.status,
+  priority: issue.severity,
+  location: {
+    latitude: issue.location.coordinates.lat,
+    longitude: issue.location.coordinates.lng,
+    address: issue.location.address,
+  },
+  images: issue.images,
+  user_id: issue.reportedBy.id,
+  assigned_to: issue.assignedTo?.id,
+  resolution_notes: issue.resolutionNotes,
+  resolution_images: issue.resolutionImages,
+  schema_version: ISSUE_SCHEMA_VERSION,
+});
+
+// Only the fields present in `updates` are written. Writing a category moves
+// the row to the current schema version, since v1 category values would be
+// read back through the legacy table.
+// `note` is recorded with the history events the change produces
+export const issuePatchToRow = (updates: Partial<Issue>, note?: string): Partial<IssueRow> => {
+  const row: Partial<IssueRow> = {};
+  if (updates.title !== undefined) row.title = updates.title;
+  if (updates.description !== undefined) row.description = updates.description;
+  if (updates.category !== undefined) {
+    row.category = updates.category;
+    row.schema_version = ISSUE_SCHEMA_VERSION;
+  }
+  if (updates.status !== undefined) row.status = updates.status;
+  if (updates.severity !== undefined) row.priority = updates.severity;
+  if (updates.location !== undefined) {
+    row.location = {
+      latitude: updates.location.coordinates.lat,
+      longitude: updates.location.coordinates.lng,
+      address: updates.location.address,
+    };
+  }
+  if (updates.images !== undefined) row.images = updates.images;
+  if ('assignedTo' in updates) row.assigned_to = updates.assignedTo?.id ?? null;
+  if (updates.resolutionNotes !== undefined) row.resolution_notes = updates.resolutionNotes;
+  if (updates.resolutionImages !== undefined) row.resolution_images = updates.resolutionImages;
+  if (note?.trim()) row.change_note = note.trim();
+  return row;
+};
+
+// Row values that read back as `category`, including v1 values, so filters
+// also match rows that predate the current schema.
+export const categoryToRowValues = (category: IssueCategory): string[] => [
+  category,
+  ...Object.keys(LEGACY_CATEGORIES).filter(legacy => legacy !== category && LEGACY_CATEGORIES[legacy] === category),
+];
+
+const SORT_COLUMNS: Record<IssueSortField, IssueSortColumn> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  title: 'title',
+  status: 'status',
+  severity: 'priority',
+  upvotes: 'votes',
+};
+
+interface PageRequest {
+  cursor?: string | null;
+  limit?: number;
+}
+
+// A drawn area also narrows the query to its bounding box, which the
+// backends can check cheaply before testing the shape itself.
+export const issueQueryToRow = (
+  filter: IssueFilter = {},
+  sort?: IssueSort,
+  page: PageRequest = {}
+): IssueQuery => {
+  const area = filter.area ? areaGeometry(filter.area) : undefined;
+  return {
+    status: filter.status,
+    category: filter.category?.flatMap(categoryToRowValues),
+    priority: filter.severity,
+    userId: filter.reportedBy,
+    assignedTo: filter.assignedTo,
+    votedBy: filter.supportedBy,
+    followedBy: filter.followedBy,
+    bounds: filter.bounds ?? (area && areaBounds(area)),
+    area,
+    wardId: filter.ward,
+    createdFrom: filter.dateRange?.start?.toISOString(),
+    createdTo: filter.dateRange?.end?.toISOString(),
+    search: filter.search,
+    sort: sort ? SORT_COLUMNS[sort.field] : undefined,
+    ascending: sort ? sort.direction === 'asc' : undefined,
+    cursor: page.cursor,
+    limit: page.limit,
+  };
+};
+
+export const issuePageFromRows = (page: IssueRowPage, names = new Map<string, string>()): IssuePage => ({
+  issues: page.rows.map(row => issueFromRow(row, issueNamesFromMap(row, names))),
+  nextCursor: page.nextCursor,
+  total: page.total,
+});
+
+// Folds per-value row counts into domain values, merging legacy values into
+// the ones they are read back as.
+// Ward counts stay keyed by ward id
+export const issueCountsFromRow = (column: IssueCountColumn, counts: Record<string, number>) =>
+  Object.entries(counts).reduce((result, [value, count]) => {
+    const key = column === 'status'
+      ? statusFromRow(value)
+      : column === 'category'
+        ? categoryFromRow(value, 1)
+        : column === 'priority'
+          ? severityFromRow(value)
+          : value;
+    result[key] = (result[key] || 0) + count;
+    return result;
+  }, {} as Record<string, number>);
+
+export const commentFromRow = (row: CommentWithAuthor): IssueComment => ({
+  id: row.id,
+  text: row.content,
+  createdAt: row.created_at,
+  parentId: row.parent_id || undefined,
+  editedAt: row.edited_at || undefined,
+  deletedAt: row.deleted_at || undefined,
+  user: {
+    id: row.user?.id ?? row.user_id,
+    name: row.user?.name ?? 'Anonymous',
+    role: row.user?.role ?? 'citizen',
+  },
+});
+
+export const revisionFromRow = (row: IssueCommentRevisionRow): CommentRevision => ({
+  id: row.id,
+  commentId: row.comment_id,
+  text: row.content,
+  editedBy: row.edited_by,
+  replacedAt: row.created_at,
+});
+
+// `names` maps user ids (actors and assignees) to display names and `titles`
+// the ids of merged issues to their titles
+export const issueEventFromRow = (
+  row: IssueEventRow,
+  names: Map<string, string>,
+  titles = new Map<string, string>()
+): IssueEvent => {
+  const user = (id: string | null) => id ? { id, name: names.get(id) ?? 'Unknown user' } : null;
+  const issue = (id: string | null) => id ? { id, title: titles.get(id) ?? 'Deleted issue' } : null;
+  const base = {
+    id: row.id,
+    issueId: row.issue_id,
+    actor: user(row.actor_id),
+    note: row.note || undefined,
+    createdAt: row.created_at,
+  };
+
+  switch (row.field) {
+    case 'status':
+      return {
+        ...base,
+        field: 'status',
+        from: row.old_value ? statusFromRow(row.old_value as string) : null,
+        to: statusFromRow(row.new_value as string),
+      };
+    case 'priority':
+      return {
+        ...base,
+        field: 'severity',
+        from: row.old_value ? severityFromRow(row.old_value as string) : null,
+        to: severityFromRow(row.new_value as string),
+      };
+    case 'assigned_to':
+      return {
+        ...base,
+        field: 'assignee',
+        from: user(row.old_value as string | null),
+        to: user(row.new_value as string | null),
+      };
+    case 'location':
+      return {
+        ...base,
+        field: 'location',
+        from: row.old_value ? locationFromRow(row.old_value as IssueRow['location']) : null,
+        to: locationFromRow(row.new_value as IssueRow['location']),
+      };
+    case 'merged':
+      return { ...base, field: 'merged', from: issue(row.old_value as string | null), to: issue(row.new_value as string | null) };
+    case 'duplicate_of':
+      return { ...base, field: 'duplicateOf', from: issue(row.old_value as string | null), to: issue(row.new_value as string | null) };
+  }
+};
+
+// `titles` maps issue ids to titles and `names` user ids to display names
+export const mergeFromRow = (row: IssueMergeRow, titles: Map<string, string>, names: Map<string, string>): IssueMerge => ({
+  id: row.id,
+  primary: { id: row.primary_id, title: titles.get(row.primary_id) ?? 'Deleted issue' },
+  duplicate: { id: row.duplicate_id, title: titles.get(row.duplicate_id) ?? 'Deleted issue' },
+  actor: row.actor_id ? { id: row.actor_id, name: names.get(row.actor_id) ?? 'Unknown user' } : null,
+  note: row.note || undefined,
+  createdAt: row.created_at,
+});
+
+export const wardFromRow = (row: WardRow): Ward => ({
+  id: row.id,
+  name: row.name,
+  boundary: row.boundary,
+});
+
+export const wardToRow = (ward: WardDraft): NewWard => ({
+  name: ward.name.trim(),
+  boundary: ward.boundary,
+});
+
+export const staffFromProfile = (profile: Profile): StaffMember => ({
+  id: profile.id,
+  name: profile.name,
+  avatarUrl: profile.avatar_url || undefined,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const workloadAge = (createdAt: string, now: number): WorkloadAge => {
+  const age = now - new Date(createdAt).getTime();
+  if (age < 7 * DAY_MS) return 'week';
+  if (age < 30 * DAY_MS) return 'month';
+  return 'older';
+};
+
+// Totals each staff member's assigned issues, busiest first. Issues assigned
+// to someone not in `staff` are left out.
+export const workloadFromRows = (staff: StaffMember[], rows: AssignedIssueRow[], now = Date.now()): StaffWorkload[] => {
+  const workloads = new Map<string, StaffWorkload>(staff.map(member => [member.id, {
+    staff: member,
+    open: 0,
+    byStatus: {},
+    byAge: { week: 0, month: 0, older: 0 },
+  }]));
+
+  rows.forEach(row => {
+    const workload = workloads.get(row.assigned_to);
+    if (!workload) return;
+    const status = statusFromRow(row.status);
+    workload.open += 1;
+    workload.byStatus[status] = (workload.byStatus[status] ?? 0) + 1;
+    workload.byAge[workloadAge(row.created_at, now)] += 1;
+    if (!workload.oldestCreatedAt || row.created_at < workload.oldestCreatedAt) {
+      workload.oldestCreatedAt = row.created_at;
+    }
+  });
+
+  return [...workloads.values()].sort((a, b) => b.open - a.open || a.staff.name.localeCompare(b.staff.name));
+};
+
+export const managedUserFromProfile = (profile: Profile, activity?: UserActivityRow, now = Date.now()): ManagedUser => {
+  const status = accountStatus(profile, now);
+  return {
+    id: profile.id,
+    name: profile.name,
+    avatarUrl: profile.avatar_url || undefined,
+    role: profile.role,
+    department: profile.department ?? null,
+    status,
+    suspendedUntil: status === 'suspended' ? profile.suspended_until || undefined : undefined,
+    reportCount: activity?.report_count ?? 0,
+    lastActiveAt: activity?.last_active_at || undefined,
+  };
+};
+
+// `names` maps user ids (the changed users and actors) to display names
+export const userEventFromRow = (row: ProfileEventRow, names: Map<string, string>): UserEvent => {
+  const base = {
+    id: row.id,
+    user: { id: row.user_id, name: names.get(row.user_id) ?? 'Unknown user' },
+    actor: row.actor_id ? { id: row.actor_id, name: names.get(row.actor_id) ?? 'Unknown user' } : null,
+    note: row.note || undefined,
+    createdAt: row.created_at,
+  };
+
+  switch (row.field) {
+    case 'role':
+      return { ...base, field: 'role', from: row.old_value as UserRole | null, to: row.new_value as UserRole | null };
+    case 'department':
+      return { ...base, field: 'department', from: row.old_value as Department | null, to: row.new_value as Department | null };
+    case 'status':
+      return { ...base, field: 'status', from: row.old_value as AccountStatus | null, to: row.new_value as AccountStatus | null };
+    case 'suspended_until':
+      return { ...base, field: 'suspendedUntil', from: row.old_value, to: row.new_value };
+  }
+};
+
+export const notificationFromRow = (row: NotificationRow): UserNotification => ({
+  id: row.id,
+  type: row.type,
+  title: row.title,
+  message: row.message,
+  issueId: row.issue_id || undefined,
+  actorId: row.actor_id || undefined,
+  read: !!row.read_at,
+  createdAt: row.created_at,
+});
+
+export const preferencesFromRow = (row: NotificationPreferencesRow | null, email: string | null = null): NotificationPreferences => ({
+  email: row?.email ?? email,
+  digest: row?.digest ?? 'off',
+  channels: Object.fromEntries(
+    ISSUE_CATEGORIES.map(category => [
+      category,
+      Object.fromEntries(
+        CONFIGURABLE_NOTIFICATION_TYPES.map(type => [type, notificationChannels(row, type, category)])
+      ) as Record<ConfigurableNotificationType, NotificationChannel[]>,
+    ])
+  ) as NotificationPreferences['channels'],
+});
+
+export const preferencesToRow = (userId: string, preferences: NotificationPreferences): NewNotificationPreferences => ({
+  user_id: userId,
+  digest: preferences.digest,
+  channels: preferences.channels,
+});
@@ -0,0 +1,19 @@
+import type { NotificationChannel, NotificationPreferencesRow, NotificationType } from './supabase';
+
+// Where notifications go when the user hasn't said otherwise
+export const DEFAULT_CHANNELS: NotificationChannel[] = ['in_app'];
+
+// Channels for a notification of `type` about an issue in `category`. System
+// notices always use the defaults. Mirrored by public.notification_channels,
+// see supabase/migrations.
+export const notificationChannels = (
+  preferences: Pick<NotificationPreferencesRow, 'channels'> | null | undefined,
+  type: NotificationType,
+  category?: string | null,
+): NotificationChannel[] => {
+  if (type === 'system' || !category) return DEFAULT_CHANNELS;
+  return preferences?.channels?.[category]?.[type] ?? DEFAULT_CHANNELS;
+};
+
+export const isInApp = (notification: { channels?: NotificationChannel[] | null }) =>
+  (notification.channels ?? DEFAULT_CHANNELS).includes('in_app');
@@ -0,0 +1,337 @@
+import { OUTBOX_STORE, idbDelete, idbGetAll, idbPut, idbUpdate, isIndexedDbAvailable } from './idb';
+import { createIssue } from './issues';
+import { issueFromRow, issueToRow } from './mappers';
+import { uploadImage } from './storage';
+import type { Issue, IssueDraft } from './types/issue';
+
+// Reports that haven't reached the server yet. Each entry is kept in
+// IndexedDB together with its photos until it has been created, so nothing
+// is lost if the tab closes or the connection drops mid-submit.
+export interface OutboxEntry {
+  id: string;
+  // `images` holds photos that have already been uploaded
+  draft: IssueDraft;
+  // Photos still waiting to be uploaded
+  photos: File[];
+  createdAt: string;
+  updatedAt: string;
+  attempts: number;
+  // Null once the server has refused the report; it is only sent again after
+  // it has been edited or retried by hand
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  // Set while a tab is sending the entry
+  sendingSince: string | null;
+}
+
+export type OutboxEvent =
+  | { type: 'changed' }
+  | { type: 'sent'; entryId: string; issue: Issue };
+
+const CHANNEL_NAME = 'cityfix-outbox';
+
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+// A send that hasn't finished after this long belongs to a tab that was
+// closed or crashed, and may be picked up again.
+const SENDING_TIMEOUT_MS = 2 * 60 * 1000;
+
+const listeners = new Set<(event: OutboxEvent) => void>();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+channel?.addEventListener('message', () => {
+  listeners.forEach(listener => listener({ type: 'changed' }));
+});
+
+const emit = (event: OutboxEvent) => {
+  listeners.forEach(listener => listener(event));
+  channel?.postMessage({ type: 'changed' });
+};
+
+export const subscribeToOutbox = (listener: (event: OutboxEvent) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Also used as the id of the issue, so it has to be a UUID
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+        const r = Math.floor(Math.random() * 16);
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const isSending = (entry: OutboxEntry, now = Date.now()) =>
+  entry.sendingSince !== null && now - Date.parse(entry.sendingSince) < SENDING_TIMEOUT_MS;
+
+// Exponential backoff with jitter so tabs and devices coming back online
+// together don't retry in lockstep.
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+// SQLSTATE classes that sending again won't fix: data exceptions (22),
+// constraint violations (23), permission errors (42) and errors raised by
+// the triggers (P0)
+const REJECTED_SQLSTATES = ['22', '23', '42', 'P0'];
+
+// Whether the server turned the report down, as opposed to not being
+// reachable. Expired sessions (401), timeouts (408) and rate limits (429)
+// are worth retrying; other 4xx responses, such as a photo that's too
+// large, are not.
+const isRejected = (error: unknown) => {
+  if (!error || typeof error !== 'object') return false;
+  const { code, status, statusCode } = error as { code?: unknown; status?: unknown; statusCode?: unknown };
+  if (typeof code === 'string' && REJECTED_SQLSTATES.includes(code.substring(0, 2))) return true;
+  const httpStatus = Number(status ?? statusCode);
+  return httpStatus >= 400 && httpStatus < 500 && ![401, 408, 429].includes(httpStatus);
+};
+
+const isDue = (entry: OutboxEntry, now = Date.now()) =>
+  entry.nextAttemptAt !== null && Date.parse(entry.nextAttemptAt) <= now && !isSending(entry, now);
+
+export const listOutbox = async (userId?: string) => {
+  if (!isIndexedDbAvailable()) return [];
+  const entries = await idbGetAll<OutboxEntry>(OUTBOX_STORE);
+  return entries
+    .filter(entry => !userId || entry.draft.reportedBy.id === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const enqueueReport = async (draft: IssueDraft, photos: File[] = []) => {
+  const now = new Date().toISOString();
+  const entry: OutboxEntry = {
+    id: createId(),
+    draft,
+    photos,
+    createdAt: now,
+    updatedAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    sendingSince: null,
+  };
+  await idbPut(OUTBOX_STORE, entry);
+  emit({ type: 'changed' });
+  return entry;
+};
+
+const changeIdleEntry = async (id: string, change: (entry: OutboxEntry) => OutboxEntry) => {
+  let busy = false;
+  const entry = await idbUpdate<OutboxEntry>(OUTBOX_STORE, id, (current) => {
+    if (!current) return undefined;
+    if (isSending(current)) {
+      busy = true;
+      return undefined;
+    }
+    return change(current);
+  });
+  if (busy) throw new Error('This report is being sent and can no longer be changed');
+  if (!entry) throw new Error('Pending report not found');
+  emit({ type: 'changed' });
+  return entry;
+};
+
+// Editing a pending report also schedules it to be sent straight away.
+export const updateOutboxEntry = (
+  id: string,
+  changes: { draft?: Partial<IssueDraft>; photos?: File[] }
+) =>
+  changeIdleEntry(id, (entry) => {
+    const now = new Date().toISOString();
+    return {
+      ...entry,
+      draft: { ...entry.draft, ...changes.draft },
+      photos: changes.photos ?? entry.photos,
+      updatedAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: null,
+    };
+  });
+
+export const retryOutboxEntry = (id: string) =>
+  changeIdleEntry(id, entry => ({ ...entry, nextAttemptAt: new Date().toISOString() }));
+
+export const discardOutboxEntry = async (id: string) => {
+  await changeIdleEntry(id, entry => entry);
+  await idbDelete(OUTBOX_STORE, id);
+  emit({ type: 'changed' });
+};
+
+// Marks the entry as being sent by this tab. Returns undefined if another tab
+// already has it, or it was discarded in the meantime.
+const claimEntry = (id: string) =>
+  idbUpdate<OutboxEntry>(OUTBOX_STORE, id, (entry) => {
+    if (!entry || isSending(entry)) return undefined;
+    return { ...entry, sendingSince: new Date().toISOString() };
+  });
+
+const sendEntry = async (id: string): Promise<Issue | undefined> => {
+  let entry = await claimEntry(id);
+  if (!entry) return undefined;
+  emit({ type: 'changed' });
+
+  try {
+    // Upload photos one at a time and record each, so a retry only uploads
+    // what is still missing.
+    while (entry.photos.length > 0) {
+      const [photo, ...rest] = entry.photos;
+      const url = await uploadImage(photo);
+      entry = {
+        ...entry,
+        draft: { ...entry.draft, images: [...entry.draft.images, url] },
+        photos: rest,
+        sendingSince: new Date().toISOString(),
+      };
+      await idbPut(OUTBOX_STORE, entry);
+    }
+
+    // The entry id becomes the issue id, so a send whose response was lost
+    // gets back the issue it created instead of creating another
+    const row = await createIssue({ ...issueToRow(entry.draft), id: entry.id });
+    await idbDelete(OUTBOX_STORE, id);
+    const issue = issueFromRow(row, { reporterName: entry.draft.reportedBy.name });
+    emit({ type: 'sent', entryId: id, issue });
+    return issue;
+  } catch (error) {
+    const attempts = entry.attempts + 1;
+    await idbPut<OutboxEntry>(OUTBOX_STORE, {
+      ...entry,
+      attempts,
+      nextAttemptAt: isRejected(error) ? null : new Date(Date.now() + retryDelay(attempts)).toISOString(),
+      lastError: errorMessage(error),
+      sendingSince: null,
+    });
+    emit({ type: 'changed' });
+    throw error;
+  }
+};
+
+interface OutboxSync {
+  promise: Promise<number>;
+  // Asked for again while running
+  again: boolean;
+}
+
+const syncing = new Map<string, OutboxSync>();
+
+const sendDueEntries = async (userId: string) => {
+  if (!isIndexedDbAvailable() || !isOnline()) return 0;
+  const now = Date.now();
+  const due = (await listOutbox(userId)).filter(entry => isDue(entry, now));
+
+  let sent = 0;
+  for (const entry of due) {
+    if (!isOnline()) break;
+    try {
+      if (await sendEntry(entry.id)) sent += 1;
+    } catch (error) {
+      console.error('Error sending queued report:', error);
+    }
+  }
+  return sent;
+};
+
+// Sends the user's entries that are due for another attempt; reports queued
+// by anyone else who used this device wait until they sign in again. Returns
+// how many were created; failures are recorded on the entry and retried
+// later. Asking while a sync runs, e.g. after editing or retrying an entry
+// it had already passed over, runs it once more when it's done.
+export const syncOutbox = (userId: string) => {
+  const running = syncing.get(userId);
+  if (running) {
+    running.again = true;
+    return running.promise;
+  }
+
+  const sync: OutboxSync = { promise: null, again: false };
+  sync.promise = (async () => {
+    let sent = 0;
+    try {
+      do {
+        sync.again = false;
+        sent += await sendDueEntries(userId);
+      } while (sync.again);
+    } finally {
+      // In the same tick as the last check, so no request falls in between
+      syncing.delete(userId);
+    }
+    return sent;
+  })();
+  syncing.set(userId, sync);
+  return sync.promise;
+};
+
+// Queues a new report and tries to send it right away. Resolves to the
+// created issue, or null if it stays in the outbox for background sync.
+export const submitReport = async (draft: IssueDraft, photos: File[] = []): Promise<Issue | null> => {
+  if (!isIndexedDbAvailable()) {
+    const images = await Promise.all(photos.map(photo => uploadImage(photo)));
+    const row = await createIssue(issueToRow({ ...draft, images: [...draft.images, ...images] }));
+    return issueFromRow(row, { reporterName: draft.reportedBy.name });
+  }
+
+  const entry = await enqueueReport(draft, photos);
+  if (!isOnline()) return null;
+
+  try {
+    return (await sendEntry(entry.id)) ?? null;
+  } catch (error) {
+    console.error('Error submitting report, kept in outbox:', error);
+    return null;
+  }
+};
+
+// Retries the user's due entries whenever the browser comes back online and
+// at each entry's next scheduled attempt. Returns a function that stops the
+// loop.
+export const startOutboxSync = (userId: string) => {
+  if (!isIndexedDbAvailable()) return () => {};
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const schedule = async () => {
+    const entries = (await listOutbox(userId).catch(() => [] as OutboxEntry[]))
+      .filter(entry => isSending(entry) || entry.nextAttemptAt !== null);
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (stopped || entries.length === 0) return;
+
+    const next = Math.min(...entries.map(entry =>
+      isSending(entry)
+        ? Date.parse(entry.sendingSince) + SENDING_TIMEOUT_MS
+        : Date.parse(entry.nextAttemptAt)
+    ));
+    timer = setTimeout(run, Math.max(next - Date.now(), 1000));
+  };
+
+  const run = async () => {
+    await syncOutbox(userId).catch(error => console.error('Error syncing outbox:', error));
+    if (!stopped) await schedule();
+  };
+
+  const unsubscribe = subscribeToOutbox(() => {
+    if (!stopped) void schedule();
+  });
+  window.addEventListener('online', run);
+  void run();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    unsubscribe();
+    window.removeEventListener('online', run);
+  };
+};
@@ -0,0 +1,186 @@
+import type { AccountStatus, Department, Profile, UserRole } from './repository/types';
+import type { Issue, IssueCategory } from './types/issue';
+
+export type PermissionAction =
+  // The admin dashboard and the internal detail it shows
+  | 'dashboard:view'
+  // Staff directory and workload
+  | 'staff:view'
+  | 'users:manage'
+  // Edit an issue's title, description, category, location or photos
+  | 'issue:update'
+  | 'issue:delete'
+  // Move an issue through the workflow in @/lib/workflow
+  | 'issue:transition'
+  | 'issue:assign'
+  | 'issue:prioritize'
+  // Merge duplicate issues into one, and undo merges
+  | 'issue:merge'
+  // Import ward boundaries
+  | 'wards:manage'
+  // Delete other people's comments
+  | 'comment:moderate';
+
+// How far a permission reaches: every resource, resources in the user's
+// department, or only resources the user created.
+export type PermissionScope = 'any' | 'department' | 'own';
+
+// Mirrored by public.role_permissions, see supabase/migrations; keep the two
+// in step.
+export const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<PermissionAction, PermissionScope>>> = {
+  citizen: {
+    'issue:update': 'own',
+    'issue:delete': 'own',
+    'issue:prioritize': 'own',
+  },
+  staff: {
+    'dashboard:view': 'any',
+    'staff:view': 'any',
+    'issue:update': 'own',
+    'issue:delete': 'own',
+    'issue:transition': 'department',
+    'issue:prioritize': 'own',
+  },
+  supervisor: {
+    'dashboard:view': 'any',
+    'staff:view': 'any',
+    'issue:update': 'department',
+    'issue:delete': 'own',
+    'issue:transition': 'department',
+    'issue:assign': 'department',
+    'issue:prioritize': 'department',
+  },
+  moderator: {
+    'dashboard:view': 'any',
+    'issue:update': 'any',
+    'issue:delete': 'any',
+    'issue:prioritize': 'own',
+    'comment:moderate': 'any',
+  },
+  auditor: {
+    'dashboard:view': 'any',
+    'staff:view': 'any',
+    'issue:update': 'own',
+    'issue:delete': 'own',
+    'issue:prioritize': 'own',
+  },
+  admin: {
+    'dashboard:view': 'any',
+    'staff:view': 'any',
+    'users:manage': 'any',
+    'issue:update': 'any',
+    'issue:delete': 'any',
+    'issue:transition': 'any',
+    'issue:assign': 'any',
+    'issue:prioritize': 'any',
+    'issue:merge': 'any',
+    'wards:manage': 'any',
+    'comment:moderate': 'any',
+  },
+};
+
+export const CATEGORY_DEPARTMENTS: Record<IssueCategory, Department> = {
+  pothole: 'roads',
+  road_damage: 'roads',
+  sign_damage: 'roads',
+  streetlight: 'lighting',
+  garbage: 'sanitation',
+  graffiti: 'sanitation',
+  flooding: 'water',
+  other: 'general',
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  citizen: 'Citizen',
+  staff: 'Staff',
+  supervisor: 'Supervisor',
+  moderator: 'Moderator',
+  auditor: 'Auditor',
+  admin: 'Admin',
+};
+
+export const DEPARTMENT_LABELS: Record<Department, string> = {
+  roads: 'Roads',
+  lighting: 'Street Lighting',
+  sanitation: 'Sanitation',
+  water: 'Water',
+  general: 'General Services',
+};
+
+export const ACCOUNT_STATUS_LABELS: Record<AccountStatus, string> = {
+  active: 'Active',
+  suspended: 'Suspended',
+  banned: 'Banned',
+};
+
+const ACTION_DESCRIPTIONS: Record<PermissionAction, string> = {
+  'dashboard:view': 'view the dashboard',
+  'staff:view': 'view staff',
+  'users:manage': 'manage users',
+  'issue:update': 'edit this issue',
+  'issue:delete': 'delete this issue',
+  'issue:transition': 'change the status of this issue',
+  'issue:assign': 'assign this issue',
+  'issue:prioritize': 'change the priority of this issue',
+  'issue:merge': 'merge these issues',
+  'wards:manage': 'manage wards',
+  'comment:moderate': 'delete this comment',
+};
+
+export interface PermissionUser {
+  id: string;
+  role: UserRole;
+  department?: Department | null;
+}
+
+// What an action is performed on. Issues are scoped by their category's
+// department; issues and comments both by who created them.
+export interface PermissionResource {
+  category?: string;
+  ownerId?: string;
+}
+
+export const issueResource = (
+  issue: Pick<Issue, 'category'> & { reportedBy: Pick<Issue['reportedBy'], 'id'> }
+): PermissionResource => ({
+  category: issue.category,
+  ownerId: issue.reportedBy.id,
+});
+
+// Without a resource, whether the user may do this to anything at all, e.g.
+// to decide whether to show a page.
+export const can = (
+  user: PermissionUser | null | undefined,
+  action: PermissionAction,
+  resource?: PermissionResource,
+): boolean => {
+  const scope = user ? ROLE_PERMISSIONS[user.role]?.[action] : undefined;
+  if (!scope) return false;
+  if (!resource || scope === 'any') return true;
+
+  if (scope === 'own') return resource.ownerId === user.id;
+  return !!user.department && CATEGORY_DEPARTMENTS[resource.category as IssueCategory] === user.department;
+};
+
+export const assertCan = (
+  user: PermissionUser | null | undefined,
+  action: PermissionAction,
+  resource?: PermissionResource,
+) => {
+  if (!can(user, action, resource)) {
+    throw new Error(`You don't have permission to ${ACTION_DESCRIPTIONS[action]}.`);
+  }
+};
+
+// A suspension with an end date is over once the date has passed. Mirrored by
+// public.is_account_active, see supabase/migrations.
+export const accountStatus = (
+  profile: Pick<Profile, 'status' | 'suspended_until'>,
+  now = Date.now(),
+): AccountStatus => {
+  const status = profile.status ?? 'active';
+  if (status === 'suspended' && profile.suspended_until && new Date(profile.suspended_until).getTime() <= now) {
+    return 'active';
+  }
+  return status;
+};
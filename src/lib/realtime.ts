@@ -0,0 +1,166 @@
+import { subscribeToComments, subscribeToIssues, subscribeToNotifications } from './issues';
+import type { ChangePayload, RealtimeStatus, Subscription } from './repository';
+import type { IssueCommentRow, IssueRow, NotificationRow } from './supabase';
+
+// Changes arriving within this window are delivered as one batch, so a burst
+// of votes or a bulk status change causes a single state update.
+const BATCH_WINDOW_MS = 150;
+
+// Backfill starts a little before the channel dropped to allow for clock
+// skew between the browser and the database. Re-applying a change is harmless.
+const BACKFILL_MARGIN_MS = 30 * 1000;
+
+export interface LiveHandlers<T> {
+  onChanges: (changes: ChangePayload<T>[]) => void;
+  // Called after a dropped channel reconnects with the time the connection
+  // was lost; fetch whatever changed since then.
+  onReconnect?: (since: string) => void;
+}
+
+type RawSubscribe<T> = (
+  callback: (payload: ChangePayload<T>) => void,
+  onStatus: (status: RealtimeStatus) => void
+) => Subscription;
+
+// One backend channel shared by every listener. The channel is opened for the
+// first listener and closed when the last one unsubscribes.
+const createLiveFeed = <T>(subscribe: RawSubscribe<T>) => {
+  const listeners = new Set<LiveHandlers<T>>();
+  let channel: Subscription | null = null;
+  let pending: ChangePayload<T>[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let droppedAt: number | null = null;
+  let connected = false;
+  // Bumped whenever the channel is closed so late status callbacks from a
+  // previous channel are ignored.
+  let generation = 0;
+
+  const flush = () => {
+    timer = null;
+    const batch = pending;
+    pending = [];
+    if (batch.length > 0) listeners.forEach(listener => listener.onChanges(batch));
+  };
+
+  const handleChange = (payload: ChangePayload<T>) => {
+    pending.push(payload);
+    if (!timer) timer = setTimeout(flush, BATCH_WINDOW_MS);
+  };
+
+  const handleStatus = (status: RealtimeStatus) => {
+    if (status === 'disconnected') {
+      if (connected) droppedAt = Date.now();
+      connected = false;
+      return;
+    }
+
+    connected = true;
+    if (droppedAt !== null) {
+      const since = new Date(droppedAt - BACKFILL_MARGIN_MS).toISOString();
+      droppedAt = null;
+      flush();
+      listeners.forEach(listener => listener.onReconnect?.(since));
+    }
+  };
+
+  const open = () => {
+    const current = ++generation;
+    channel = subscribe(handleChange, (status) => {
+      if (current === generation) handleStatus(status);
+    });
+  };
+
+  const close = () => {
+    generation++;
+    if (timer) clearTimeout(timer);
+    timer = null;
+    pending = [];
+    connected = false;
+    droppedAt = null;
+    const current = channel;
+    channel = null;
+    current?.unsubscribe();
+  };
+
+  return (handlers: LiveHandlers<T>): Subscription => {
+    listeners.add(handlers);
+    if (!channel) open();
+
+    return {
+      unsubscribe: () => {
+        listeners.delete(handlers);
+        if (listeners.size === 0) close();
+      },
+    };
+  };
+};
+
+export const watchIssues = createLiveFeed<IssueRow>(subscribeToIssues);
+
+// One feed per key, e.g. per issue, dropped along with its last listener
+const createKeyedLiveFeed = <T>(
+  subscribe: (key: string, ...args: Parameters<RawSubscribe<T>>) => Subscription
+) => {
+  const feeds = new Map<string, {
+    watch: (handlers: LiveHandlers<T>) => Subscription;
+    listeners: number;
+  }>();
+
+  return (key: string, handlers: LiveHandlers<T>): Subscription => {
+    let feed = feeds.get(key);
+    if (!feed) {
+      feed = {
+        watch: createLiveFeed<T>((callback, onStatus) => subscribe(key, callback, onStatus)),
+        listeners: 0,
+      };
+      feeds.set(key, feed);
+    }
+
+    const current = feed;
+    const subscription = current.watch(handlers);
+    current.listeners += 1;
+
+    return {
+      unsubscribe: () => {
+        subscription.unsubscribe();
+        current.listeners -= 1;
+        if (current.listeners === 0 && feeds.get(key) === current) {
+          feeds.delete(key);
+        }
+      },
+    };
+  };
+};
+
+export const watchComments = createKeyedLiveFeed<IssueCommentRow>(subscribeToComments);
+
+// Keyed by user id
+export const watchNotifications = createKeyedLiveFeed<NotificationRow>(subscribeToNotifications);
+
+// Applies a batch of row changes to a list of domain items. Inserts are added
+// (or replace a copy we already have), updates only touch items in the list,
+// deletes remove by id.
+export const applyChanges = <Row extends { id: string }, Item extends { id: string }>(
+  items: Item[],
+  changes: ChangePayload<Row>[],
+  toItem: (row: Row, existing: Item | undefined) => Item,
+  { prepend = false }: { prepend?: boolean } = {}
+): Item[] => {
+  return changes.reduce((current, change) => {
+    if (change.eventType === 'DELETE') {
+      return current.filter(item => item.id !== change.old.id);
+    }
+
+    const row = change.new as Row;
+    const index = current.findIndex(item => item.id === row.id);
+    if (index >= 0) {
+      const next = [...current];
+      next[index] = toItem(row, current[index]);
+      return next;
+    }
+    if (change.eventType === 'UPDATE') return current;
+
+    const item = toItem(row, undefined);
+    return prepend ? [item, ...current] : [...current, item];
+  }, items);
+};
@@ -0,0 +1,23 @@
+import { createLocalRepository } from './local';
+import { createSupabaseRepository } from './supabase';
+import type { IssueRepository } from './types';
+
+export * from './types';
+
+export type DataBackend = 'supabase' | 'local';
+
+// Set VITE_DATA_BACKEND=local to run the app entirely in the browser.
+export const dataBackend: DataBackend =
+  import.meta.env.VITE_DATA_BACKEND === 'local' ? 'local' : 'supabase';
+
+let repository: IssueRepository =
+  dataBackend === 'local' ? createLocalRepository() : createSupabaseRepository();
+
+export const getRepository = (): IssueRepository => repository;
+
+// Swap the active backend, e.g. to point tests or demos at an in-memory store.
+export const setRepository = (next: IssueRepository) => {
+  repository = next;
+};
+
+export { createLocalRepository, createSupabaseRepository };
@@ -0,0 +1,1206 @@
+import type { IssueRow, IssueCommentRow, IssueCommentRevisionRow, IssueEventField, IssueEventRow, IssueMergeRow, NotificationPreferencesRow, NotificationRow, WardRow } from '../supabase';
+import type { AuthEvent, AuthUser, ChangePayload, IssueRepository, Profile, ProfileEventField, ProfileEventRow } from './types';
+import { STAFF_ROLES } from './types';
+import { accountStatus, can, type PermissionAction, type PermissionResource } from '../permissions';
+import { isInApp, notificationChannels } from '../notifications';
+import { isWithinArea } from '../geo';
+import { assertTransition } from '../workflow';
+import type { IssueCategory, IssueStatus } from '../types/issue';
+import { MAX_ISSUE_POINTS, compareRows, decodeCursor, encodeCursor, isAfterCursor, matchesIssueQuery, pageSize } from './query';
+
+// Local demo backend. Tables live in localStorage and changes are broadcast to
+// other tabs, so the app behaves like it does against Supabase without a
+// network connection. Passwords are stored as-is: this is for development only.
+
+const STORAGE_KEY = 'cityfix-local-db';
+const CHANNEL_NAME = 'cityfix-local-changes';
+
+interface LocalUser {
+  id: string;
+  email: string;
+  password: string;
+}
+
+interface LocalVote {
+  issue_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+type LocalFollow = LocalVote;
+
+interface LocalDatabase {
+  users: LocalUser[];
+  profiles: Profile[];
+  issues: IssueRow[];
+  comments: IssueCommentRow[];
+  comment_revisions: IssueCommentRevisionRow[];
+  issue_events: IssueEventRow[];
+  issue_merges: IssueMergeRow[];
+  wards: WardRow[];
+  profile_events: ProfileEventRow[];
+  notifications: NotificationRow[];
+  notification_preferences: NotificationPreferencesRow[];
+  votes: LocalVote[];
+  follows: LocalFollow[];
+  sessionUserId: string | null;
+}
+
+type Table = 'issues' | 'issue_comments' | 'notifications';
+
+interface ChangeMessage {
+  table: Table;
+  payload: ChangePayload<IssueRow> | ChangePayload<IssueCommentRow> | ChangePayload<NotificationRow>;
+}
+
+// An @ not preceded by a word character, then up to four words
+const MENTION_PATTERN = /(?:^|[^\p{L}\p{N}_])@([\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*(?: +[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*){0,3})/gu;
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Math.random().toString(36).substring(2)}-${Date.now()}`;
+
+const seedDatabase = (): LocalDatabase => {
+  const now = Date.now();
+  const daysAgo = (days: number) => new Date(now - days * 24 * 60 * 60 * 1000).toISOString();
+
+  return {
+    users: [
+      { id: 'local-admin', email: 'admin@cityfix.local', password: 'password' },
+      { id: 'local-citizen', email: 'resident@cityfix.local', password: 'password' },
+      { id: 'local-crew', email: 'crew@cityfix.local', password: 'password' },
+    ],
+    profiles: [
+      { id: 'local-admin', name: 'Demo Admin', role: 'admin', avatar_url: null },
+      { id: 'local-citizen', name: 'Demo Resident', role: 'citizen', avatar_url: null },
+      { id: 'local-crew', name: 'Demo Field Crew', role: 'staff', department: 'roads', avatar_url: null },
+    ],
+    issues: [
+      {
+        id: createId(),
+        title: 'Large pothole on Main Street',
+        description: 'There is a large pothole in the middle of Main Street near the intersection with Oak Avenue that is causing damage to vehicles.',
+        status: 'reported',
+        priority: 'high',
+        category: 'pothole',
+        location: { latitude: 40.7128, longitude: -74.006, address: '123 Main St, Anytown' },
+        images: [],
+        created_at: daysAgo(3),
+        updated_at: daysAgo(3),
+        user_id: 'local-citizen',
+        votes: 0,
+        schema_version: 2,
+      },
+      {
+        id: createId(),
+        title: 'Broken streetlight on Oak Avenue',
+        description: 'Streetlight is not working at the corner of Oak Avenue and Pine Street.',
+        status: 'in_progress',
+        priority: 'medium',
+        category: 'streetlight',
+        location: { latitude: 40.7129, longitude: -74.007, address: '456 Oak Ave, Anytown' },
+        images: [],
+        created_at: daysAgo(2),
+        updated_at: daysAgo(1),
+        user_id: 'local-citizen',
+        votes: 0,
+        schema_version: 2,
+      },
+      {
+        id: createId(),
+        title: 'Garbage pileup in alley',
+        description: 'Large amount of garbage has accumulated in the alley behind 789 Market Street.',
+        status: 'reported',
+        priority: 'low',
+        category: 'garbage',
+        location: { latitude: 40.713, longitude: -74.008, address: '789 Market St, Anytown' },
+        images: [],
+        created_at: daysAgo(1),
+        updated_at: daysAgo(1),
+        user_id: 'local-admin',
+        votes: 0,
+        schema_version: 2,
+      },
+    ],
+    comments: [],
+    comment_revisions: [],
+    issue_events: [],
+    issue_merges: [],
+    wards: [],
+    profile_events: [],
+    notifications: [],
+    notification_preferences: [],
+    votes: [],
+    follows: [],
+    sessionUserId: null,
+  };
+};
+
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsDataURL(file);
+  });
+
+export const createLocalRepository = (storage: Storage = window.localStorage): IssueRepository => {
+  const changeListeners = new Set<(message: ChangeMessage) => void>();
+  const authListeners = new Set<(event: AuthEvent, user: AuthUser | null) => void>();
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  channel?.addEventListener('message', (event: MessageEvent<ChangeMessage>) => {
+    changeListeners.forEach(listener => listener(event.data));
+  });
+
+  const load = (): LocalDatabase => {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (raw) {
+      try {
+        const db = JSON.parse(raw) as LocalDatabase;
+        // Databases saved before comment, issue and profile history,
+        // notifications, their preferences, follows, merges and wards existed
+        db.comment_revisions ??= [];
+        db.issue_events ??= [];
+        db.issue_merges ??= [];
+        db.wards ??= [];
+        db.profile_events ??= [];
+        db.notifications ??= [];
+        db.notification_preferences ??= [];
+        db.follows ??= [];
+        return db;
+      } catch (error) {
+        console.error('Local database is corrupt, reseeding:', error);
+      }
+    }
+    const seeded = seedDatabase();
+    save(seeded);
+    return seeded;
+  };
+
+  const save = (db: LocalDatabase) => {
+    try {
+      storage.setItem(STORAGE_KEY, JSON.stringify(db));
+    } catch (error) {
+      throw new Error('Local storage is full. Remove some images or clear local data.');
+    }
+  };
+
+  const emit = (message: ChangeMessage) => {
+    changeListeners.forEach(listener => listener(message));
+    channel?.postMessage(message);
+  };
+
+  const emitAuth = (event: AuthEvent, user: AuthUser | null) => {
+    authListeners.forEach(listener => listener(event, user));
+  };
+
+  const toAuthUser = (user: LocalUser): AuthUser => ({ id: user.id, email: user.email });
+
+  const requireIssue = (db: LocalDatabase, id: string) => {
+    const issue = db.issues.find(i => i.id === id);
+    if (!issue) throw new Error(`Issue ${id} not found`);
+    return issue;
+  };
+
+  // Rows are returned with their voters and followers, as the Supabase
+  // backend reads them from issue_votes and issue_follows; the stored rows
+  // don't carry them.
+  const withVoters = (db: LocalDatabase, issue: IssueRow): IssueRow => ({
+    ...issue,
+    voter_ids: db.votes.filter(v => v.issue_id === issue.id).map(v => v.user_id),
+    follower_ids: db.follows.filter(f => f.issue_id === issue.id).map(f => f.user_id),
+  });
+
+  const readIssues = (db: LocalDatabase = load()) => db.issues.map(issue => withVoters(db, issue));
+
+  const requireComment = (db: LocalDatabase, id: string) => {
+    const comment = db.comments.find(c => c.id === id);
+    if (!comment) throw new Error(`Comment ${id} not found`);
+    return comment;
+  };
+
+  // Mirrors public.has_permission for the signed-in user
+  const hasPermission = (db: LocalDatabase, action: PermissionAction, resource?: PermissionResource) =>
+    can(db.profiles.find(p => p.id === db.sessionUserId), action, resource);
+
+  // Mirrors the restrictive insert policies on issues, comments, votes and
+  // follows
+  const requireActiveAccount = (db: LocalDatabase) => {
+    const profile = db.profiles.find(p => p.id === db.sessionUserId);
+    if (profile && accountStatus(profile) !== 'active') {
+      throw new Error('Your account is suspended');
+    }
+  };
+
+  // Mirrors the issue_comments policies: authors edit their own comments,
+  // authors and moderators may delete them, and deleted comments are final.
+  const requireCommentChange = (db: LocalDatabase, id: string, change: 'edit' | 'delete') => {
+    const comment = requireComment(db, id);
+    const userId = db.sessionUserId;
+    if (!userId) throw new Error('No user logged in');
+    if (comment.deleted_at) throw new Error('Comment has been deleted');
+
+    const canModerate = hasPermission(db, 'comment:moderate', { ownerId: comment.user_id });
+    if (comment.user_id !== userId && !(change === 'delete' && canModerate)) {
+      throw new Error(`Not allowed to ${change} this comment`);
+    }
+    return { comment, userId };
+  };
+
+  // Mirrors the check_issue_permissions trigger, which checks status changes
+  // against the same workflow as the app
+  const EDITABLE_COLUMNS: (keyof IssueRow)[] = ['title', 'description', 'category', 'location', 'images'];
+  const RESOLUTION_COLUMNS: (keyof IssueRow)[] = ['resolution_notes', 'resolution_images'];
+
+  const requireIssueChange = (
+    db: LocalDatabase,
+    issue: IssueRow,
+    columns: Partial<IssueRow>,
+    note?: string | null
+  ) => {
+    const resource = { category: issue.category, ownerId: issue.user_id };
+    const changed = (column: keyof IssueRow) =>
+      column in columns && JSON.stringify(columns[column] ?? null) !== JSON.stringify(issue[column] ?? null);
+
+    if (EDITABLE_COLUMNS.some(changed) && !hasPermission(db, 'issue:update', resource)) {
+      throw new Error('Not allowed to edit this issue');
+    }
+    if (changed('priority') && !hasPermission(db, 'issue:prioritize', resource)) {
+      throw new Error('Not allowed to change the priority of this issue');
+    }
+    if (changed('assigned_to') && !hasPermission(db, 'issue:assign', resource)) {
+      throw new Error('Not allowed to assign this issue');
+    }
+    if (changed('status')) {
+      assertTransition(
+        { status: issue.status as IssueStatus, category: issue.category as IssueCategory, reportedBy: { id: issue.user_id } },
+        columns.status as IssueStatus,
+        db.profiles.find(p => p.id === db.sessionUserId),
+        {
+          note: note ?? undefined,
+          resolutionNotes: (columns.resolution_notes ?? issue.resolution_notes) ?? undefined,
+          resolutionImages: columns.resolution_images ?? issue.resolution_images,
+        }
+      );
+    } else if (RESOLUTION_COLUMNS.some(changed) && !hasPermission(db, 'issue:transition', resource)) {
+      throw new Error('Not allowed to change the resolution of this issue');
+    }
+  };
+
+  // Mirrors the issues trigger: one event per tracked column that changed
+  const TRACKED_FIELDS: IssueEventField[] = ['status', 'priority', 'assigned_to', 'location'];
+
+  const recordIssueEvents = (db: LocalDatabase, old: IssueRow | null, issue: IssueRow, note?: string | null) => {
+    const now = new Date().toISOString();
+    const fields = old
+      ? TRACKED_FIELDS.filter(field => JSON.stringify(old[field] ?? null) !== JSON.stringify(issue[field] ?? null))
+      : ['status' as const];
+
+    fields.forEach(field => db.issue_events.push({
+      id: createId(),
+      issue_id: issue.id,
+      actor_id: db.sessionUserId,
+      field,
+      old_value: old ? old[field] ?? null : null,
+      new_value: issue[field] ?? null,
+      note: old ? note?.trim() || null : null,
+      created_at: now,
+    }));
+  };
+
+  // Mirrors the events merge_issues and unmerge_issue record on both issues
+  const recordMergeEvents = (db: LocalDatabase, merge: IssueMergeRow, undone: boolean) => {
+    const now = new Date().toISOString();
+    const event = (issueId: string, field: IssueEventField, value: string): IssueEventRow => ({
+      id: createId(),
+      issue_id: issueId,
+      actor_id: db.sessionUserId,
+      field,
+      old_value: undone ? value : null,
+      new_value: undone ? null : value,
+      note: undone ? null : merge.note,
+      created_at: now,
+    });
+    db.issue_events.push(
+      event(merge.primary_id, 'merged', merge.duplicate_id),
+      event(merge.duplicate_id, 'duplicate_of', merge.primary_id),
+    );
+  };
+
+  // Mirrors public.ward_at: the first ward by name whose boundary holds the
+  // issue
+  const wardAt = (db: LocalDatabase, location: IssueRow['location']) =>
+    [...db.wards]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .find(ward => isWithinArea({ lat: location.latitude, lng: location.longitude }, ward.boundary))
+      ?.id ?? null;
+
+  // Mirrors the check_profile_changes trigger: only user managers change
+  // roles, departments and account status, never their own, and every change
+  // is recorded.
+  const ACCOUNT_FIELDS: ProfileEventField[] = ['role', 'department', 'status', 'suspended_until'];
+
+  const applyProfileChange = (db: LocalDatabase, profile: Profile, updates: Partial<Omit<Profile, 'id'>>) => {
+    const { change_note, ...columns } = updates;
+    const changed = ACCOUNT_FIELDS.filter(field =>
+      field in columns && (columns[field] ?? null) !== (profile[field] ?? null)
+    );
+
+    if (changed.length > 0) {
+      if (!hasPermission(db, 'users:manage')) throw new Error('Not allowed to manage users');
+      if (profile.id === db.sessionUserId) throw new Error('You cannot change your own role or account status');
+    }
+
+    const now = new Date().toISOString();
+    changed.forEach(field => db.profile_events.push({
+      id: createId(),
+      user_id: profile.id,
+      actor_id: db.sessionUserId,
+      field,
+      old_value: profile[field] ?? null,
+      new_value: columns[field] ?? null,
+      note: change_note?.trim() || null,
+      created_at: now,
+    }));
+    Object.assign(profile, columns);
+  };
+
+  // Mirror the notify_* triggers, see supabase/migrations. Recipients get the
+  // channels their preferences pick and nothing when those are empty. Rows are
+  // returned so they can be broadcast once saved.
+  type NewNotification = Pick<NotificationRow, 'type' | 'title' | 'message' | 'issue_id' | 'actor_id'> &
+    Partial<Pick<NotificationRow, 'data'>>;
+
+  const notify = (db: LocalDatabase, recipients: (string | null | undefined)[], notification: NewNotification) => {
+    const now = new Date().toISOString();
+    const category = db.issues.find(i => i.id === notification.issue_id)?.category;
+    const rows = [...new Set(recipients.filter(Boolean))]
+      .map((userId): NotificationRow => ({
+        data: null,
+        ...notification,
+        id: createId(),
+        user_id: userId,
+        channels: notificationChannels(
+          db.notification_preferences.find(p => p.user_id === userId),
+          notification.type,
+          category
+        ),
+        read_at: null,
+        dismissed_at: null,
+        emailed_at: null,
+        created_at: now,
+      }))
+      .filter(row => row.channels.length > 0);
+    db.notifications.push(...rows);
+    return rows;
+  };
+
+  const emitNotifications = (rows: NotificationRow[], eventType: 'INSERT' | 'UPDATE' = 'INSERT') => {
+    rows.forEach(row => emit({ table: 'notifications', payload: { eventType, new: row, old: {} } }));
+  };
+
+  const notificationLabel = (value: string) =>
+    value.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+  const notifyNewIssue = (db: LocalDatabase, issue: IssueRow) =>
+    notify(
+      db,
+      db.profiles
+        .filter(p => p.id !== issue.user_id && can(p, 'issue:transition', { category: issue.category, ownerId: issue.user_id }))
+        .map(p => p.id),
+      {
+        type: 'new_report',
+        title: 'New Issue Reported',
+        message: `"${issue.title}" was reported at ${issue.location?.address}`,
+        issue_id: issue.id,
+        actor_id: issue.user_id,
+        data: { category: issue.category },
+      }
+    );
+
+  const notifyStatusChange = (db: LocalDatabase, issue: IssueRow, note?: string | null) =>
+    notify(
+      db,
+      [
+        issue.user_id,
+        issue.assigned_to,
+        ...db.follows.filter(f => f.issue_id === issue.id).map(f => f.user_id),
+      ].filter(id => id !== db.sessionUserId),
+      {
+        type: 'status_change',
+        title: 'Issue Status Updated',
+        message: `"${issue.title}" is now ${notificationLabel(issue.status)}`,
+        issue_id: issue.id,
+        actor_id: db.sessionUserId,
+        data: { status: issue.status, note: note?.trim() || null },
+      }
+    );
+
+  // Users are mentioned as @ followed by their name, in any case. As in
+  // notify_comment, each @ starts a run of up to four words and the longest
+  // leading words that are someone's whole name win.
+  const mentionedUsers = (db: LocalDatabase, comment: IssueCommentRow) => {
+    const mentioned = new Set<string>();
+    for (const [, run] of comment.content.matchAll(MENTION_PATTERN)) {
+      const words = run.toLowerCase().split(/ +/);
+      for (let n = words.length; n > 0; n--) {
+        const name = words.slice(0, n).join(' ');
+        // "@Jane Doe's" mentions Jane Doe
+        const names = [name, name.replace(/['’]s$/, '')];
+        const profiles = db.profiles.filter(p => names.includes(p.name.toLowerCase()));
+        if (profiles.length === 0) continue;
+        profiles.forEach(p => mentioned.add(p.id));
+        break;
+      }
+    }
+    mentioned.delete(comment.user_id);
+    return [...mentioned];
+  };
+
+  const notifyComment = (db: LocalDatabase, comment: IssueCommentRow) => {
+    const issue = requireIssue(db, comment.issue_id);
+    const author = db.profiles.find(p => p.id === comment.user_id)?.name ?? 'Someone';
+    const parentAuthor = comment.parent_id ? db.comments.find(c => c.id === comment.parent_id)?.user_id : undefined;
+    const mentioned = mentionedUsers(db, comment);
+
+    // Mentioned users hear about the comment only once
+    const unmentioned = (id?: string | null) => !!id && id !== comment.user_id && !mentioned.includes(id);
+    const replyTo = unmentioned(parentAuthor) ? parentAuthor : null;
+    const base = { issue_id: issue.id, actor_id: comment.user_id };
+
+    return [
+      ...notify(db, mentioned, {
+        ...base,
+        type: 'mention',
+        title: 'You Were Mentioned',
+        message: `${author} mentioned you on "${issue.title}"`,
+      }),
+      ...notify(db, [replyTo], {
+        ...base,
+        type: 'comment',
+        title: 'New Reply',
+        message: `${author} replied to your comment on "${issue.title}"`,
+      }),
+      ...notify(db, [issue.user_id].filter(id => unmentioned(id) && id !== replyTo), {
+        ...base,
+        type: 'comment',
+        title: 'New Comment',
+        message: `${author} commented on "${issue.title}"`,
+      }),
+    ];
+  };
+
+  // Mirrors the notifications policies: users only see and mark their own,
+  // and only those sent in-app
+  const ownNotifications = (db: LocalDatabase, userId: string, ids?: string[]) =>
+    userId === db.sessionUserId
+      ? db.notifications.filter(n =>
+          n.user_id === userId && isInApp(n) && !n.dismissed_at && (!ids || ids.includes(n.id))
+        )
+      : [];
+
+  const saveRevision = (db: LocalDatabase, comment: IssueCommentRow, userId: string, now: string) => {
+    db.comment_revisions.push({
+      id: createId(),
+      comment_id: comment.id,
+      content: comment.content,
+      edited_by: userId,
+      created_at: now,
+    });
+  };
+
+  return {
+    // Auth
+    getSessionUser: async () => {
+      const db = load();
+      const user = db.users.find(u => u.id === db.sessionUserId);
+      return user ? toAuthUser(user) : null;
+    },
+
+    signUp: async (email, password, metadata) => {
+      const db = load();
+      if (db.users.some(u => u.email.toLowerCase() === email.toLowerCase())) {
+        throw new Error('User already registered');
+      }
+      const user: LocalUser = { id: createId(), email, password };
+      db.users.push(user);
+      // Mirrors the signup trigger on the hosted project
+      if (typeof metadata?.name === 'string') {
+        db.profiles.push({ id: user.id, name: metadata.name, role: 'citizen', avatar_url: null });
+      }
+      db.sessionUserId = user.id;
+      save(db);
+      emitAuth('SIGNED_IN', toAuthUser(user));
+      return toAuthUser(user);
+    },
+
+    signIn: async (email, password) => {
+      const db = load();
+      const user = db.users.find(u => u.email.toLowerCase() === email.toLowerCase() && u.password === password);
+      if (!user) throw new Error('Invalid login credentials');
+      db.sessionUserId = user.id;
+      save(db);
+      emitAuth('SIGNED_IN', toAuthUser(user));
+      return toAuthUser(user);
+    },
+
+    signOut: async () => {
+      const db = load();
+      db.sessionUserId = null;
+      save(db);
+      emitAuth('SIGNED_OUT', null);
+    },
+
+    onAuthStateChange: (callback) => {
+      authListeners.add(callback);
+      return { unsubscribe: () => { authListeners.delete(callback); } };
+    },
+
+    resetPassword: async (email) => {
+      const db = load();
+      if (!db.users.some(u => u.email.toLowerCase() === email.toLowerCase())) {
+        throw new Error('User not found');
+      }
+    },
+
+    updatePassword: async (newPassword) => {
+      const db = load();
+      const user = db.users.find(u => u.id === db.sessionUserId);
+      if (!user) throw new Error('No user logged in');
+      user.password = newPassword;
+      save(db);
+    },
+
+    // Profiles
+    getProfile: async (id) => {
+      return load().profiles.find(p => p.id === id) ?? null;
+    },
+
+    listProfiles: async (query = {}) => {
+      return load().profiles
+        .filter(p =>
+          (!query.ids || query.ids.includes(p.id)) &&
+          (!query.roles || query.roles.includes(p.role)) &&
+          (!query.search?.trim() || p.name.toLowerCase().includes(query.search.trim().toLowerCase()))
+        )
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    createProfile: async (profile) => {
+      const db = load();
+      if (db.profiles.some(p => p.id === profile.id)) {
+        throw new Error('Profile already exists');
+      }
+      // New users start as active citizens unless a user manager says otherwise
+      if ((profile.role !== 'citizen' || (profile.status ?? 'active') !== 'active') && !hasPermission(db, 'users:manage')) {
+        throw new Error('Not allowed to manage users');
+      }
+      const { change_note, ...columns } = profile;
+      db.profiles.push(columns);
+      save(db);
+    },
+
+    updateProfile: async (id, updates) => {
+      const db = load();
+      const profile = db.profiles.find(p => p.id === id);
+      if (!profile) throw new Error(`Profile ${id} not found`);
+      applyProfileChange(db, profile, updates);
+      save(db);
+    },
+
+    getUserActivity: async (userIds) => {
+      const db = load();
+      const latest = (dates: string[]) => dates.reduce<string | null>((max, date) => !max || date > max ? date : max, null);
+      return userIds.map(userId => {
+        const reports = db.issues.filter(i => i.user_id === userId);
+        return {
+          user_id: userId,
+          report_count: reports.length,
+          last_active_at: latest([
+            ...reports.map(i => i.created_at),
+            ...db.comments.filter(c => c.user_id === userId).map(c => c.created_at),
+            ...db.issue_events.filter(e => e.actor_id === userId).map(e => e.created_at),
+          ]),
+        };
+      });
+    },
+
+    queryProfileEvents: async (query) => {
+      const events = load().profile_events
+        .filter(e => !query.userId || e.user_id === query.userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return query.limit ? events.slice(0, query.limit) : events;
+    },
+
+    // Issues
+    createIssue: async (newIssue) => {
+      const db = load();
+      requireActiveAccount(db);
+      const existing = newIssue.id && db.issues.find(i => i.id === newIssue.id);
+      if (existing && existing.user_id === newIssue.user_id) return withVoters(db, existing);
+      if (existing) throw new Error(`Issue ${newIssue.id} already exists`);
+
+      const now = new Date().toISOString();
+      const issue: IssueRow = {
+        ...newIssue,
+        id: newIssue.id ?? createId(),
+        created_at: now,
+        updated_at: now,
+        votes: 0,
+        ward_id: wardAt(db, newIssue.location),
+      };
+      db.issues.push(issue);
+      recordIssueEvents(db, null, issue);
+      const notifications = notifyNewIssue(db, issue);
+      save(db);
+      emit({ table: 'issues', payload: { eventType: 'INSERT', new: issue, old: {} } });
+      emitNotifications(notifications);
+      return withVoters(db, issue);
+    },
+
+    getIssues: async (filters) => {
+      return readIssues()
+        .filter(issue =>
+          (!filters?.status || issue.status === filters.status) &&
+          (!filters?.category || issue.category === filters.category) &&
+          (!filters?.priority || issue.priority === filters.priority) &&
+          (!filters?.userId || issue.user_id === filters.userId)
+        )
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+
+    queryIssues: async (query) => {
+      const sort = query.sort ?? 'created_at';
+      const ascending = query.ascending ?? false;
+      const limit = pageSize(query);
+      const matching = readIssues().filter(issue => matchesIssueQuery(issue, query));
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+
+      const rows = matching
+        .filter(issue => !cursor || isAfterCursor(issue, cursor, sort, ascending))
+        .sort((a, b) => compareRows(a, b, sort, ascending));
+      const page = rows.slice(0, limit);
+
+      return {
+        rows: page,
+        nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1], sort) : null,
+        total: matching.length,
+      };
+    },
+
+    countIssues: async (query = {}) => {
+      return readIssues().filter(issue => matchesIssueQuery(issue, query)).length;
+    },
+
+    queryIssuePoints: async (query) => {
+      return readIssues()
+        .filter(issue => matchesIssueQuery(issue, query))
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .slice(0, MAX_ISSUE_POINTS)
+        .map(({ id, title, status, priority, category, location, votes, created_at, schema_version }) =>
+          ({ id, title, status, priority, category, location, votes, created_at, schema_version }));
+    },
+
+    countIssuesBy: async (column) => {
+      return load().issues.reduce((counts, issue) => {
+        // Issues outside every ward count under 'null', as with Supabase
+        const value = String(issue[column] ?? null);
+        counts[value] = (counts[value] || 0) + 1;
+        return counts;
+      }, {} as Record<string, number>);
+    },
+
+    getIssueById: async (id) => {
+      const db = load();
+      return withVoters(db, requireIssue(db, id));
+    },
+
+    updateIssue: async (id, updates) => {
+      const db = load();
+      const issue = requireIssue(db, id);
+      const old = { ...issue };
+      const { change_note, voter_ids, ward_id, ...columns } = updates;
+      requireIssueChange(db, issue, columns, change_note);
+      // Mirrors the check_duplicate_of trigger
+      if ('duplicate_of' in columns && (columns.duplicate_of ?? null) !== (issue.duplicate_of ?? null)) {
+        throw new Error('Issues are only marked as duplicates by merging them');
+      }
+      if (columns.assigned_to && !db.profiles.some(p => p.id === columns.assigned_to && STAFF_ROLES.includes(p.role))) {
+        throw new Error('Issues can only be assigned to staff');
+      }
+      Object.assign(issue, columns, { id, updated_at: new Date().toISOString() });
+      issue.ward_id = wardAt(db, issue.location);
+      recordIssueEvents(db, old, issue, change_note);
+      const notifications = old.status !== issue.status ? notifyStatusChange(db, issue, change_note) : [];
+      save(db);
+      emit({ table: 'issues', payload: { eventType: 'UPDATE', new: issue, old } });
+      emitNotifications(notifications);
+      return withVoters(db, issue);
+    },
+
+    deleteIssue: async (id) => {
+      const db = load();
+      const issue = requireIssue(db, id);
+      if (!hasPermission(db, 'issue:delete', { category: issue.category, ownerId: issue.user_id })) {
+        throw new Error('Not allowed to delete this issue');
+      }
+      db.issues = db.issues.filter(i => i.id !== id);
+      const commentIds = new Set(db.comments.filter(c => c.issue_id === id).map(c => c.id));
+      db.comments = db.comments.filter(c => c.issue_id !== id);
+      db.comment_revisions = db.comment_revisions.filter(r => !commentIds.has(r.comment_id));
+      db.issue_events = db.issue_events.filter(e => e.issue_id !== id);
+      db.votes = db.votes.filter(v => v.issue_id !== id);
+      db.follows = db.follows.filter(f => f.issue_id !== id);
+      db.issue_merges = db.issue_merges.filter(m => m.primary_id !== id && m.duplicate_id !== id);
+      db.issues.filter(i => i.duplicate_of === id).forEach(i => { i.duplicate_of = null; });
+      save(db);
+      emit({ table: 'issues', payload: { eventType: 'DELETE', new: {}, old: issue } });
+    },
+
+    queryIssueEvents: async (query) => {
+      const events = load().issue_events
+        .filter(e =>
+          (!query.issueId || e.issue_id === query.issueId) &&
+          (!query.issueIds || query.issueIds.includes(e.issue_id)) &&
+          (!query.field?.length || query.field.includes(e.field)) &&
+          (!query.actorId || e.actor_id === query.actorId) &&
+          (!query.from || e.created_at >= query.from) &&
+          (!query.to || e.created_at <= query.to)
+        )
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+      return query.limit ? events.slice(0, query.limit) : events;
+    },
+
+    getAssignedIssues: async (statuses) => {
+      return load().issues
+        .filter(i => i.assigned_to && statuses.includes(i.status))
+        .map(({ id, assigned_to, status, created_at }) => ({ id, assigned_to, status, created_at }));
+    },
+
+    // Merges. Mirror merge_issues and unmerge_issue, see supabase/migrations;
+    // nothing is saved unless every duplicate can be merged.
+    mergeIssues: async (primaryId, duplicateIds, note) => {
+      const db = load();
+      if (!hasPermission(db, 'issue:merge')) throw new Error('Not allowed to merge issues');
+      const primary = requireIssue(db, primaryId);
+      if (primary.duplicate_of) throw new Error(`"${primary.title}" has been merged into another issue`);
+
+      const duplicates = db.issues
+        .filter(i => duplicateIds.includes(i.id))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+      if (duplicates.length === 0) throw new Error('No issues to merge');
+
+      const now = new Date().toISOString();
+      const mergeNote = note?.trim() || null;
+      const oldPrimary = { ...primary };
+      const changes: [IssueRow, IssueRow][] = [];
+      const movedComments: IssueCommentRow[] = [];
+      const notifications: NotificationRow[] = [];
+
+      const merges = duplicates.map((duplicate): IssueMergeRow => {
+        if (duplicate.id === primary.id) throw new Error("An issue can't be merged into itself");
+        if (duplicate.duplicate_of) throw new Error(`"${duplicate.title}" has already been merged into another issue`);
+        if (db.issue_merges.some(m => m.primary_id === duplicate.id && !m.undone_at)) {
+          throw new Error(`Unmerge the issues merged into "${duplicate.title}" first`);
+        }
+
+        const comments = db.comments.filter(c => c.issue_id === duplicate.id);
+        comments.forEach(c => { c.issue_id = primary.id; });
+        movedComments.push(...comments);
+
+        const newImages = (duplicate.images ?? []).filter(image => !(primary.images ?? []).includes(image));
+        primary.images = [...(primary.images ?? []), ...newImages];
+
+        const hasVoted = (userId: string) => db.votes.some(v => v.issue_id === primary.id && v.user_id === userId);
+        const newVoters = db.votes
+          .filter(v => v.issue_id === duplicate.id && !hasVoted(v.user_id))
+          .map(v => v.user_id);
+        newVoters.forEach(userId => db.votes.push({ issue_id: primary.id, user_id: userId, created_at: now }));
+        primary.votes = (primary.votes || 0) + newVoters.length;
+
+        const follows = (userId: string) => db.follows.some(f => f.issue_id === primary.id && f.user_id === userId);
+        const newFollowers = [...new Set([
+          ...db.follows.filter(f => f.issue_id === duplicate.id).map(f => f.user_id),
+          duplicate.user_id,
+        ])].filter(userId => !follows(userId));
+        newFollowers.forEach(userId => db.follows.push({ issue_id: primary.id, user_id: userId, created_at: now }));
+
+        const old = { ...duplicate };
+        Object.assign(duplicate, { status: 'closed', duplicate_of: primary.id, updated_at: now });
+        const closeNote = mergeNote ?? `Duplicate of "${primary.title}"`;
+        recordIssueEvents(db, old, duplicate, closeNote);
+        if (old.status !== duplicate.status) notifications.push(...notifyStatusChange(db, duplicate, closeNote));
+        changes.push([old, duplicate]);
+
+        const merge: IssueMergeRow = {
+          id: createId(),
+          primary_id: primary.id,
+          duplicate_id: duplicate.id,
+          actor_id: db.sessionUserId,
+          note: mergeNote,
+          moved_comment_ids: comments.map(c => c.id),
+          added_images: newImages,
+          added_voter_ids: newVoters,
+          added_follower_ids: newFollowers,
+          previous_status: old.status,
+          created_at: now,
+          undone_at: null,
+          undone_by: null,
+        };
+        db.issue_merges.push(merge);
+        recordMergeEvents(db, merge, false);
+        return merge;
+      });
+
+      primary.updated_at = now;
+      save(db);
+      [[oldPrimary, primary] as [IssueRow, IssueRow], ...changes].forEach(([old, issue]) =>
+        emit({ table: 'issues', payload: { eventType: 'UPDATE', new: issue, old } })
+      );
+      movedComments.forEach(comment => emit({ table: 'issue_comments', payload: { eventType: 'UPDATE', new: comment, old: {} } }));
+      emitNotifications(notifications);
+      return merges;
+    },
+
+    unmergeIssue: async (mergeId) => {
+      const db = load();
+      if (!hasPermission(db, 'issue:merge')) throw new Error('Not allowed to merge issues');
+      const merge = db.issue_merges.find(m => m.id === mergeId);
+      if (!merge) throw new Error(`Merge ${mergeId} not found`);
+      if (merge.undone_at) throw new Error('This merge has already been undone');
+
+      const primary = requireIssue(db, merge.primary_id);
+      const duplicate = requireIssue(db, merge.duplicate_id);
+      const oldPrimary = { ...primary };
+      const oldDuplicate = { ...duplicate };
+      const now = new Date().toISOString();
+
+      const comments = db.comments.filter(c => merge.moved_comment_ids.includes(c.id));
+      comments.forEach(c => { c.issue_id = duplicate.id; });
+
+      const added = (userIds: string[]) => (row: LocalVote) => row.issue_id === primary.id && userIds.includes(row.user_id);
+      const removedVotes = db.votes.filter(added(merge.added_voter_ids)).length;
+      db.votes = db.votes.filter(v => !added(merge.added_voter_ids)(v));
+      db.follows = db.follows.filter(f => !added(merge.added_follower_ids)(f));
+
+      Object.assign(primary, {
+        images: (primary.images ?? []).filter(image => !merge.added_images.includes(image)),
+        votes: Math.max((primary.votes || 0) - removedVotes, 0),
+        updated_at: now,
+      });
+      Object.assign(duplicate, { status: merge.previous_status, duplicate_of: null, updated_at: now });
+      recordIssueEvents(db, oldDuplicate, duplicate, 'Merge undone');
+      const notifications = oldDuplicate.status !== duplicate.status
+        ? notifyStatusChange(db, duplicate, 'Merge undone')
+        : [];
+
+      Object.assign(merge, { undone_at: now, undone_by: db.sessionUserId });
+      recordMergeEvents(db, merge, true);
+      save(db);
+      emit({ table: 'issues', payload: { eventType: 'UPDATE', new: primary, old: oldPrimary } });
+      emit({ table: 'issues', payload: { eventType: 'UPDATE', new: duplicate, old: oldDuplicate } });
+      comments.forEach(comment => emit({ table: 'issue_comments', payload: { eventType: 'UPDATE', new: comment, old: {} } }));
+      emitNotifications(notifications);
+    },
+
+    getIssueMerges: async (issueId) => {
+      return load().issue_merges
+        .filter(m => !m.undone_at && (m.primary_id === issueId || m.duplicate_id === issueId))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    // Wards
+    getWards: async () => {
+      return [...load().wards].sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    // Mirrors public.import_wards
+    importWards: async (wards) => {
+      const db = load();
+      if (!hasPermission(db, 'wards:manage')) throw new Error('Not allowed to manage wards');
+      if (wards.length === 0) throw new Error('No wards to import');
+      const names = wards.map(ward => ward.name.trim());
+      if (names.some(name => !name)) throw new Error('Every ward needs a name');
+      const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+      if (duplicate) throw new Error(`Ward "${duplicate}" appears more than once`);
+
+      const now = new Date().toISOString();
+      db.wards = wards.map((ward, index) => ({
+        id: createId(),
+        name: names[index],
+        boundary: ward.boundary,
+        created_at: now,
+      }));
+
+      const rezoned: { issue: IssueRow; old: IssueRow }[] = [];
+      db.issues.forEach(issue => {
+        const wardId = wardAt(db, issue.location);
+        if (wardId === (issue.ward_id ?? null)) return;
+        rezoned.push({ issue, old: { ...issue } });
+        issue.ward_id = wardId;
+      });
+      save(db);
+      rezoned.forEach(({ issue, old }) => emit({ table: 'issues', payload: { eventType: 'UPDATE', new: issue, old } }));
+      return [...db.wards].sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    // Votes
+    voteOnIssue: async (issueId, userId) => {
+      const db = load();
+      const issue = requireIssue(db, issueId);
+      requireActiveAccount(db);
+      // Voting twice is a no-op, as with the unique key on issue_votes
+      if (db.votes.some(v => v.issue_id === issueId && v.user_id === userId)) return;
+      const old = { ...issue };
+      db.votes.push({ issue_id: issueId, user_id: userId, created_at: new Date().toISOString() });
+      issue.votes = (issue.votes || 0) + 1;
+      save(db);
+      emit({ table: 'issues', payload: { eventType: 'UPDATE', new: issue, old } });
+    },
+
+    removeVote: async (issueId, userId) => {
+      const db = load();
+      const issue = requireIssue(db, issueId);
+      if (!db.votes.some(v => v.issue_id === issueId && v.user_id === userId)) return;
+      const old = { ...issue };
+      db.votes = db.votes.filter(v => !(v.issue_id === issueId && v.user_id === userId));
+      issue.votes = Math.max((issue.votes || 0) - 1, 0);
+      save(db);
+      emit({ table: 'issues', payload: { eventType: 'UPDATE', new: issue, old } });
+    },
+
+    // Follows
+    followIssue: async (issueId, userId) => {
+      const db = load();
+      requireIssue(db, issueId);
+      requireActiveAccount(db);
+      if (db.follows.some(f => f.issue_id === issueId && f.user_id === userId)) return;
+      db.follows.push({ issue_id: issueId, user_id: userId, created_at: new Date().toISOString() });
+      save(db);
+    },
+
+    unfollowIssue: async (issueId, userId) => {
+      const db = load();
+      db.follows = db.follows.filter(f => !(f.issue_id === issueId && f.user_id === userId));
+      save(db);
+    },
+
+    // Comments
+    createComment: async (newComment) => {
+      const db = load();
+      requireIssue(db, newComment.issue_id);
+      requireActiveAccount(db);
+      const now = new Date().toISOString();
+      if (newComment.parent_id) {
+        const parent = requireComment(db, newComment.parent_id);
+        if (parent.issue_id !== newComment.issue_id) throw new Error('Reply must be on the same issue');
+      }
+      const comment: IssueCommentRow = {
+        parent_id: null,
+        ...newComment,
+        id: createId(),
+        created_at: now,
+        updated_at: now,
+        edited_at: null,
+        deleted_at: null,
+        deleted_by: null,
+      };
+      db.comments.push(comment);
+      const notifications = notifyComment(db, comment);
+      save(db);
+      emit({ table: 'issue_comments', payload: { eventType: 'INSERT', new: comment, old: {} } });
+      emitNotifications(notifications);
+      return comment;
+    },
+
+    getComments: async (issueId) => {
+      const db = load();
+      return db.comments
+        .filter(c => c.issue_id === issueId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(comment => {
+          const profile = db.profiles.find(p => p.id === comment.user_id);
+          return {
+            ...comment,
+            user: profile
+              ? { id: profile.id, name: profile.name, avatar_url: profile.avatar_url, role: profile.role }
+              : null,
+          };
+        });
+    },
+
+    updateComment: async (id, content) => {
+      const db = load();
+      const { comment, userId } = requireCommentChange(db, id, 'edit');
+      if (comment.content === content) return comment;
+      const old = { ...comment };
+      const now = new Date().toISOString();
+      saveRevision(db, comment, userId, now);
+      Object.assign(comment, { content, updated_at: now, edited_at: now });
+      save(db);
+      emit({ table: 'issue_comments', payload: { eventType: 'UPDATE', new: comment, old } });
+      return comment;
+    },
+
+    deleteComment: async (id) => {
+      const db = load();
+      const { comment, userId } = requireCommentChange(db, id, 'delete');
+      const old = { ...comment };
+      const now = new Date().toISOString();
+      saveRevision(db, comment, userId, now);
+      Object.assign(comment, { content: '', updated_at: now, deleted_at: now, deleted_by: userId });
+      save(db);
+      emit({ table: 'issue_comments', payload: { eventType: 'UPDATE', new: comment, old } });
+      return comment;
+    },
+
+    getCommentRevisions: async (commentId) => {
+      const db = load();
+      const comment = requireComment(db, commentId);
+      // History of a deleted comment is only shown to its author and moderators
+      const canModerate = hasPermission(db, 'comment:moderate', { ownerId: comment.user_id });
+      if (comment.deleted_at && comment.user_id !== db.sessionUserId && !canModerate) return [];
+
+      return db.comment_revisions
+        .filter(r => r.comment_id === commentId)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    },
+
+    // Notifications
+    getNotifications: async (userId, limit = 50) => {
+      return ownNotifications(load(), userId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    },
+
+    countUnreadNotifications: async (userId) => {
+      return ownNotifications(load(), userId).filter(n => !n.read_at).length;
+    },
+
+    markNotificationsRead: async (userId, ids) => {
+      const db = load();
+      const now = new Date().toISOString();
+      const unread = ownNotifications(db, userId, ids).filter(n => !n.read_at);
+      unread.forEach(n => { n.read_at = now; });
+      save(db);
+      emitNotifications(unread, 'UPDATE');
+    },
+
+    dismissNotifications: async (userId, ids) => {
+      const db = load();
+      const now = new Date().toISOString();
+      const dismissed = ownNotifications(db, userId, ids);
+      dismissed.forEach(n => { n.dismissed_at = now; });
+      save(db);
+      emitNotifications(dismissed, 'UPDATE');
+    },
+
+    // Mirrors the notification_preferences policies: users only read and
+    // write their own. As with Supabase, email is always the account's.
+    getNotificationPreferences: async (userId) => {
+      const db = load();
+      if (userId !== db.sessionUserId) return null;
+      return db.notification_preferences.find(p => p.user_id === userId) ?? null;
+    },
+
+    saveNotificationPreferences: async (preferences) => {
+      const db = load();
+      if (preferences.user_id !== db.sessionUserId) {
+        throw new Error('You can only change your own notification preferences.');
+      }
+      const existing = db.notification_preferences.find(p => p.user_id === preferences.user_id);
+      const row: NotificationPreferencesRow = {
+        digest_sent_at: existing?.digest_sent_at ?? null,
+        ...preferences,
+        email: db.users.find(u => u.id === preferences.user_id)?.email ?? null,
+        updated_at: new Date().toISOString(),
+      };
+      db.notification_preferences = [
+        ...db.notification_preferences.filter(p => p.user_id !== preferences.user_id),
+        row,
+      ];
+      save(db);
+    },
+
+    // Delivery runs with the service role against Supabase; locally there is
+    // no such role, so these read and write every user's rows
+    listNotificationPreferences: async (query) => {
+      return load().notification_preferences.filter(p =>
+        (!query.userIds || query.userIds.includes(p.user_id)) &&
+        (!query.digest || p.digest === query.digest)
+      );
+    },
+
+    getUnsentEmailNotifications: async (limit = 100) => {
+      return load().notifications
+        .filter(n => n.channels?.includes('email') && !n.emailed_at)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .slice(0, limit);
+    },
+
+    markNotificationsEmailed: async (ids) => {
+      const db = load();
+      const now = new Date().toISOString();
+      db.notifications.filter(n => ids.includes(n.id)).forEach(n => { n.emailed_at = now; });
+      save(db);
+    },
+
+    markDigestSent: async (userId, sentAt) => {
+      const db = load();
+      const preferences = db.notification_preferences.find(p => p.user_id === userId);
+      if (!preferences) return;
+      preferences.digest_sent_at = sentAt;
+      save(db);
+    },
+
+    // Image storage. Images are inlined as data URLs so they survive a reload.
+    uploadImage: async (_path, file) => {
+      return readFileAsDataUrl(file);
+    },
+
+    deleteImage: async () => {
+      // Data URLs are owned by the rows that reference them; nothing to remove.
+    },
+
+    // Realtime
+    // The broadcast channel cannot drop, so it is connected as soon as it exists
+    subscribeToIssues: (callback, onStatus) => {
+      const listener = (message: ChangeMessage) => {
+        if (message.table === 'issues') {
+          callback(message.payload as ChangePayload<IssueRow>);
+        }
+      };
+      changeListeners.add(listener);
+      queueMicrotask(() => onStatus?.('connected'));
+      return { unsubscribe: () => { changeListeners.delete(listener); } };
+    },
+
+    subscribeToComments: (issueId, callback, onStatus) => {
+      const listener = (message: ChangeMessage) => {
+        if (message.table !== 'issue_comments') return;
+        const payload = message.payload as ChangePayload<IssueCommentRow>;
+        if ((payload.new.issue_id ?? payload.old.issue_id) === issueId) {
+          callback(payload);
+        }
+      };
+      changeListeners.add(listener);
+      queueMicrotask(() => onStatus?.('connected'));
+      return { unsubscribe: () => { changeListeners.delete(listener); } };
+    },
+
+    subscribeToNotifications: (userId, callback, onStatus) => {
+      const listener = (message: ChangeMessage) => {
+        if (message.table !== 'notifications') return;
+        const payload = message.payload as ChangePayload<NotificationRow>;
+        if ((payload.new.user_id ?? payload.old.user_id) === userId) {
+          callback(payload);
+        }
+      };
+      changeListeners.add(listener);
+      queueMicrotask(() => onStatus?.('connected'));
+      return { unsubscribe: () => { changeListeners.delete(listener); } };
+    },
+  };
+};
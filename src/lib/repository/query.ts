@@ -0,0 +1,110 @@
+import type { IssueRow } from '../supabase';
+import type { IssueQuery, IssueSortColumn } from './types';
+import { isWithinArea, isWithinBounds } from '../geo';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 200;
+
+// The most issues the map reads at once. Points are small, but every one
+// becomes a marker.
+export const MAX_ISSUE_POINTS = 20000;
+
+// Status and priority sort in workflow/severity order rather than
+// alphabetically. Supabase mirrors these in the generated status_rank and
+// priority_rank columns (see supabase/migrations).
+const STATUS_RANK: Record<string, number> = {
+  reported: 0,
+  under_review: 1,
+  in_progress: 2,
+  resolved: 3,
+  closed: 4,
+};
+
+const PRIORITY_RANK: Record<string, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+export const sortColumnName = (sort: IssueSortColumn) => {
+  if (sort === 'status') return 'status_rank';
+  if (sort === 'priority') return 'priority_rank';
+  return sort;
+};
+
+export const sortValue = (row: IssueRow, sort: IssueSortColumn): string | number => {
+  switch (sort) {
+    case 'status':
+      return STATUS_RANK[row.status] ?? 0;
+    case 'priority':
+      return PRIORITY_RANK[row.priority] ?? 0;
+    case 'votes':
+      return row.votes || 0;
+    default:
+      return row[sort];
+  }
+};
+
+export const pageSize = (query: IssueQuery) =>
+  Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+// A cursor is the sort value and id of the last row on the page. Rows are
+// ordered by (sort value, id), so the pair pins an exact position even when
+// many rows share a sort value.
+export type CursorPosition = [value: string | number, id: string];
+
+export const encodeCursor = (row: IssueRow, sort: IssueSortColumn) =>
+  btoa(encodeURIComponent(JSON.stringify([sortValue(row, sort), row.id])));
+
+export const decodeCursor = (cursor: string): CursorPosition => {
+  try {
+    const position = JSON.parse(decodeURIComponent(atob(cursor)));
+    if (Array.isArray(position) && position.length === 2 && typeof position[1] === 'string') {
+      return position as CursorPosition;
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error('Invalid page cursor');
+};
+
+const compareValues = (a: string | number, b: string | number) =>
+  a < b ? -1 : a > b ? 1 : 0;
+
+export const compareRows = (a: IssueRow, b: IssueRow, sort: IssueSortColumn, ascending: boolean) => {
+  const order = compareValues(sortValue(a, sort), sortValue(b, sort)) || compareValues(a.id, b.id);
+  return ascending ? order : -order;
+};
+
+export const isAfterCursor = (row: IssueRow, [value, id]: CursorPosition, sort: IssueSortColumn, ascending: boolean) => {
+  const order = compareValues(sortValue(row, sort), value) || compareValues(row.id, id);
+  return ascending ? order > 0 : order < 0;
+};
+
+export const matchesIssueQuery = (row: IssueRow, query: IssueQuery) => {
+  if (query.status?.length && !query.status.includes(row.status)) return false;
+  if (query.category?.length && !query.category.includes(row.category)) return false;
+  if (query.priority?.length && !query.priority.includes(row.priority)) return false;
+  if (query.userId && row.user_id !== query.userId) return false;
+  if (query.assignedTo && row.assigned_to !== query.assignedTo) return false;
+  if (query.createdFrom && row.created_at < query.createdFrom) return false;
+  if (query.createdTo && row.created_at > query.createdTo) return false;
+  if (query.updatedFrom && row.updated_at < query.updatedFrom) return false;
+  if (query.votedBy && !row.voter_ids?.includes(query.votedBy)) return false;
+  if (query.followedBy && !row.follower_ids?.includes(query.followedBy)) return false;
+  if (query.wardId?.length && !query.wardId.includes(row.ward_id ?? '')) return false;
+  if (query.bounds && !isWithinBounds({ lat: row.location?.latitude, lng: row.location?.longitude }, query.bounds)) {
+    return false;
+  }
+  if (query.area && !isWithinArea({ lat: row.location?.latitude, lng: row.location?.longitude }, query.area)) {
+    return false;
+  }
+
+  const search = query.search?.trim().toLowerCase();
+  if (search) {
+    return [row.title, row.description, row.location?.address]
+      .some(field => field?.toLowerCase().includes(search));
+  }
+  return true;
+};
@@ -0,0 +1,780 @@
+import { REALTIME_SUBSCRIBE_STATES, type SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { IssueRow, IssueCommentRow, IssueCommentRevisionRow, IssueEventRow, IssueMergeRow, NotificationPreferencesRow, NotificationRow, WardRow } from '../supabase';
+import type { AssignedIssueRow, AuthUser, ChangePayload, CommentWithAuthor, IssuePointRow, IssueQuery, IssueRepository, Profile, ProfileEventRow, RealtimeStatus, UserActivityRow } from './types';
+import { MAX_ISSUE_POINTS, decodeCursor, encodeCursor, pageSize, sortColumnName } from './query';
+
+const IMAGE_BUCKET = 'images';
+
+const toAuthUser = (user: { id: string; email?: string } | null | undefined): AuthUser | null =>
+  user ? { id: user.id, email: user.email ?? '' } : null;
+
+// The client rejoins errored or timed-out channels by itself; we only need to
+// know when that happens.
+const toRealtimeStatus = (status: `${REALTIME_SUBSCRIBE_STATES}`): RealtimeStatus =>
+  status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED ? 'connected' : 'disconnected';
+
+// Values inside or=(...) filters must be quoted when they contain reserved
+// characters such as commas, dots or parentheses.
+const quote = (value: string | number) =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+type IssueSelect = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
+// Issue rows are read with the ids of everyone who voted for or follows
+// them. The `votedBy` and `followedBy` filters need a second, inner-joined
+// copy of issue_votes or issue_follows so the list itself isn't narrowed to
+// the one user.
+const ISSUE_COLUMNS = '*, issue_votes(user_id), issue_follows(user_id)';
+
+const POINT_COLUMNS = 'id, title, status, priority, category, location, votes, created_at, schema_version';
+
+// PostgREST caps each response at its max-rows setting, 1000 by default, so
+// points are read in batches of that size
+const POINT_BATCH_SIZE = 1000;
+
+// Leaves out geom, the PostGIS copy of boundary used for zoning
+const WARD_COLUMNS = 'id, name, boundary, created_at';
+
+const issueColumns = (query: IssueQuery, columns = ISSUE_COLUMNS) => [
+  columns,
+  query.votedBy && 'supporters:issue_votes!inner(user_id)',
+  query.followedBy && 'following:issue_follows!inner(user_id)',
+].filter(Boolean).join(', ');
+
+type IssueRowWithVotes = IssueRow & {
+  issue_votes?: { user_id: string }[];
+  issue_follows?: { user_id: string }[];
+  supporters?: unknown;
+  following?: unknown;
+  // Generated from location; dropped so rows can be written back as read
+  latitude?: number;
+  longitude?: number;
+};
+
+const toIssueRow = ({
+  issue_votes,
+  issue_follows,
+  supporters,
+  following,
+  latitude,
+  longitude,
+  ...row
+}: IssueRowWithVotes): IssueRow => ({
+  ...row,
+  voter_ids: issue_votes?.map(vote => vote.user_id) ?? [],
+  follower_ids: issue_follows?.map(follow => follow.user_id) ?? [],
+});
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// Applies the filter part of an IssueQuery; paging and ordering are left to
+// the caller so the same filters can back both the page and its total count.
+const filterIssues = (builder: IssueSelect, query: IssueQuery): IssueSelect => {
+  let filtered = builder;
+  if (query.status?.length) filtered = filtered.in('status', query.status);
+  if (query.category?.length) filtered = filtered.in('category', query.category);
+  if (query.priority?.length) filtered = filtered.in('priority', query.priority);
+  if (query.userId) filtered = filtered.eq('user_id', query.userId);
+  if (query.assignedTo) filtered = filtered.eq('assigned_to', query.assignedTo);
+  if (query.createdFrom) filtered = filtered.gte('created_at', query.createdFrom);
+  if (query.createdTo) filtered = filtered.lte('created_at', query.createdTo);
+  if (query.updatedFrom) filtered = filtered.gte('updated_at', query.updatedFrom);
+  if (query.votedBy) filtered = filtered.eq('supporters.user_id', query.votedBy);
+  if (query.followedBy) filtered = filtered.eq('following.user_id', query.followedBy);
+  if (query.wardId?.length) filtered = filtered.in('ward_id', query.wardId);
+  // latitude and longitude are generated from location, see supabase/migrations
+  if (query.bounds) {
+    filtered = filtered
+      .gte('latitude', query.bounds.south)
+      .lte('latitude', query.bounds.north)
+      .gte('longitude', query.bounds.west)
+      .lte('longitude', query.bounds.east);
+  }
+
+  const search = query.search?.trim();
+  if (search) {
+    const pattern = quote(`%${search}%`);
+    filtered = filtered.or(
+      `title.ilike.${pattern},description.ilike.${pattern},location->>address.ilike.${pattern}`
+    );
+  }
+  return filtered;
+};
+
+// Issues inside query.area are read through the issues_in_area function
+// rather than from the table. PostgREST filters, orders and embeds its rows
+// like the table's; the builder rpc returns takes filters whatever its type
+// says after select.
+const selectIssues = (
+  client: SupabaseClient,
+  query: IssueQuery,
+  columns: string,
+  options?: { count: 'exact'; head: boolean }
+): IssueSelect =>
+  query.area
+    ? client.rpc('issues_in_area', { area: JSON.stringify(query.area) }, options).select(columns) as unknown as IssueSelect
+    : client.from('issues').select(columns, options);
+
+const countMatching = async (client: SupabaseClient, query: IssueQuery) => {
+  const { count, error } = await filterIssues(
+    selectIssues(client, query, issueColumns(query, 'id'), { count: 'exact', head: true }),
+    query
+  );
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const createSupabaseRepository = (client: SupabaseClient = supabase): IssueRepository => ({
+  // Auth
+  getSessionUser: async () => {
+    const { data: { session } } = await client.auth.getSession();
+    if (session?.user) return toAuthUser(session.user);
+
+    // fallback: try getUser
+    const { data: { user } } = await client.auth.getUser();
+    return toAuthUser(user);
+  },
+
+  signUp: async (email, password, metadata) => {
+    const { data, error } = await client.auth.signUp({
+      email,
+      password,
+      options: metadata ? { data: metadata } : undefined,
+    });
+
+    if (error) throw error;
+    return toAuthUser(data.user);
+  },
+
+  signIn: async (email, password) => {
+    const { data, error } = await client.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return toAuthUser(data.user)!;
+  },
+
+  signOut: async () => {
+    const { error } = await client.auth.signOut();
+    if (error) throw error;
+  },
+
+  onAuthStateChange: (callback) => {
+    const { data: { subscription } } = client.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_IN' && session?.user) {
+        callback('SIGNED_IN', toAuthUser(session.user));
+      } else if (event === 'SIGNED_OUT') {
+        callback('SIGNED_OUT', null);
+      }
+    });
+    return subscription;
+  },
+
+  resetPassword: async (email, redirectTo) => {
+    const { error } = await client.auth.resetPasswordForEmail(email, { redirectTo });
+    if (error) throw error;
+  },
+
+  updatePassword: async (newPassword) => {
+    const { error } = await client.auth.updateUser({ password: newPassword });
+    if (error) throw error;
+  },
+
+  // Profiles
+  getProfile: async (id) => {
+    const { data, error } = await client
+      .from('profiles')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as Profile | null;
+  },
+
+  listProfiles: async (query = {}) => {
+    let profiles = client
+      .from('profiles')
+      .select('*')
+      .order('name');
+
+    if (query.ids) profiles = profiles.in('id', query.ids);
+    if (query.roles) profiles = profiles.in('role', query.roles);
+    if (query.search?.trim()) profiles = profiles.ilike('name', `%${query.search.trim()}%`);
+
+    const { data, error } = await profiles;
+    if (error) throw error;
+    return data as Profile[];
+  },
+
+  createProfile: async (profile) => {
+    const { error } = await client.from('profiles').insert([profile]);
+    if (error) throw error;
+  },
+
+  updateProfile: async (id, updates) => {
+    const { error } = await client
+      .from('profiles')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  getUserActivity: async (userIds) => {
+    const { data, error } = await client.rpc('user_activity', { user_ids: userIds });
+    if (error) throw error;
+
+    return (data as UserActivityRow[]).map(row => ({ ...row, report_count: Number(row.report_count) }));
+  },
+
+  // Events are written by a trigger on profiles (see supabase/migrations)
+  queryProfileEvents: async (query) => {
+    let events = client
+      .from('profile_events')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (query.userId) events = events.eq('user_id', query.userId);
+    if (query.limit) events = events.limit(query.limit);
+
+    const { data, error } = await events;
+    if (error) throw error;
+    return data as ProfileEventRow[];
+  },
+
+  // Issues
+  createIssue: async (issue) => {
+    const { data, error } = await client
+      .from('issues')
+      .insert([issue])
+      .select(ISSUE_COLUMNS)
+      .single();
+
+    // Sent before, such as a retry after the response was lost
+    if (error?.code === UNIQUE_VIOLATION && issue.id) {
+      const { data: existing, error: readError } = await client
+        .from('issues')
+        .select(ISSUE_COLUMNS)
+        .eq('id', issue.id)
+        .eq('user_id', issue.user_id)
+        .maybeSingle();
+
+      if (readError) throw readError;
+      if (existing) return toIssueRow(existing as IssueRowWithVotes);
+    }
+    if (error) throw error;
+    return toIssueRow(data as IssueRowWithVotes);
+  },
+
+  getIssues: async (filters) => {
+    let query = client
+      .from('issues')
+      .select(ISSUE_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (filters?.status) {
+      query = query.eq('status', filters.status);
+    }
+    if (filters?.category) {
+      query = query.eq('category', filters.category);
+    }
+    if (filters?.priority) {
+      query = query.eq('priority', filters.priority);
+    }
+    if (filters?.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data as IssueRowWithVotes[]).map(toIssueRow);
+  },
+
+  queryIssues: async (query) => {
+    const sort = query.sort ?? 'created_at';
+    const column = sortColumnName(sort);
+    const ascending = query.ascending ?? false;
+    const limit = pageSize(query);
+
+    let rowsQuery = filterIssues(selectIssues(client, query, issueColumns(query)), query)
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(limit + 1);
+
+    if (query.cursor) {
+      const [value, id] = decodeCursor(query.cursor);
+      const op = ascending ? 'gt' : 'lt';
+      rowsQuery = rowsQuery.or(
+        `${column}.${op}.${quote(value)},and(${column}.eq.${quote(value)},id.${op}.${quote(id)})`
+      );
+    }
+
+    const [rowsResult, total] = await Promise.all([
+      rowsQuery,
+      countMatching(client, query),
+    ]);
+
+    if (rowsResult.error) throw rowsResult.error;
+    const rows = (rowsResult.data as IssueRowWithVotes[]).map(toIssueRow);
+    const page = rows.slice(0, limit);
+
+    return {
+      rows: page,
+      nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1], sort) : null,
+      total,
+    };
+  },
+
+  countIssues: async (query = {}) => {
+    return countMatching(client, query);
+  },
+
+  queryIssuePoints: async (query) => {
+    const points: IssuePointRow[] = [];
+    for (;;) {
+      let batch = filterIssues(selectIssues(client, query, issueColumns(query, POINT_COLUMNS)), query)
+        .order('id')
+        .limit(Math.min(POINT_BATCH_SIZE, MAX_ISSUE_POINTS - points.length));
+      if (points.length > 0) batch = batch.gt('id', points[points.length - 1].id);
+
+      const { data, error } = await batch;
+      if (error) throw error;
+      const rows = data as IssuePointRow[];
+      points.push(...rows);
+      if (rows.length < POINT_BATCH_SIZE || points.length >= MAX_ISSUE_POINTS) return points;
+    }
+  },
+
+  countIssuesBy: async (column) => {
+    const { data, error } = await client.rpc('count_issues_by', { group_column: column });
+    if (error) throw error;
+
+    return (data as { value: string; count: number }[]).reduce((counts, { value, count }) => {
+      counts[value] = Number(count);
+      return counts;
+    }, {} as Record<string, number>);
+  },
+
+  getIssueById: async (id) => {
+    const { data, error } = await client
+      .from('issues')
+      .select(ISSUE_COLUMNS)
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return toIssueRow(data as IssueRowWithVotes);
+  },
+
+  updateIssue: async (id, updates) => {
+    const { data, error } = await client
+      .from('issues')
+      .update(updates)
+      .eq('id', id)
+      .select(ISSUE_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return toIssueRow(data as IssueRowWithVotes);
+  },
+
+  deleteIssue: async (id) => {
+    const { error } = await client
+      .from('issues')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Events are written by a trigger on issues (see supabase/migrations)
+  queryIssueEvents: async (query) => {
+    let events = client
+      .from('issue_events')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (query.issueId) events = events.eq('issue_id', query.issueId);
+    if (query.issueIds) events = events.in('issue_id', query.issueIds);
+    if (query.field?.length) events = events.in('field', query.field);
+    if (query.actorId) events = events.eq('actor_id', query.actorId);
+    if (query.from) events = events.gte('created_at', query.from);
+    if (query.to) events = events.lte('created_at', query.to);
+    if (query.limit) events = events.limit(query.limit);
+
+    const { data, error } = await events;
+    if (error) throw error;
+    return data as IssueEventRow[];
+  },
+
+  getAssignedIssues: async (statuses) => {
+    const { data, error } = await client
+      .from('issues')
+      .select('id, assigned_to, status, created_at')
+      .not('assigned_to', 'is', null)
+      .in('status', statuses);
+
+    if (error) throw error;
+    return data as AssignedIssueRow[];
+  },
+
+  // Merges
+  // Both run as one transaction in the database (see supabase/migrations)
+  mergeIssues: async (primaryId, duplicateIds, note) => {
+    const { data, error } = await client.rpc('merge_issues', {
+      primary_id: primaryId,
+      duplicate_ids: duplicateIds,
+      note: note?.trim() || null,
+    });
+
+    if (error) throw error;
+    return data as IssueMergeRow[];
+  },
+
+  unmergeIssue: async (mergeId) => {
+    const { error } = await client.rpc('unmerge_issue', { merge_id: mergeId });
+    if (error) throw error;
+  },
+
+  getIssueMerges: async (issueId) => {
+    const { data, error } = await client
+      .from('issue_merges')
+      .select('*')
+      .or(`primary_id.eq.${quote(issueId)},duplicate_id.eq.${quote(issueId)}`)
+      .is('undone_at', null)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as IssueMergeRow[];
+  },
+
+  // Wards
+  getWards: async () => {
+    const { data, error } = await client
+      .from('wards')
+      .select(WARD_COLUMNS)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data as WardRow[];
+  },
+
+  importWards: async (wards) => {
+    const { data, error } = await client
+      .rpc('import_wards', { wards })
+      .select(WARD_COLUMNS)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data as WardRow[];
+  },
+
+  // Votes
+  // issue_votes has one row per user and issue; issues.votes is kept in step
+  // by a trigger (see supabase/migrations).
+  voteOnIssue: async (issueId, userId) => {
+    const { error } = await client
+      .from('issue_votes')
+      .insert([{ issue_id: issueId, user_id: userId }]);
+
+    // Voting twice is a no-op
+    if (error && error.code !== UNIQUE_VIOLATION) throw error;
+  },
+
+  removeVote: async (issueId, userId) => {
+    const { error } = await client
+      .from('issue_votes')
+      .delete()
+      .eq('issue_id', issueId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  },
+
+  // Follows
+  followIssue: async (issueId, userId) => {
+    const { error } = await client
+      .from('issue_follows')
+      .insert([{ issue_id: issueId, user_id: userId }]);
+
+    if (error && error.code !== UNIQUE_VIOLATION) throw error;
+  },
+
+  unfollowIssue: async (issueId, userId) => {
+    const { error } = await client
+      .from('issue_follows')
+      .delete()
+      .eq('issue_id', issueId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  },
+
+  // Comments
+  createComment: async (comment) => {
+    const { data, error } = await client
+      .from('issue_comments')
+      .insert([comment])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as IssueCommentRow;
+  },
+
+  getComments: async (issueId) => {
+    const { data, error } = await client
+      .from('issue_comments')
+      .select(`
+        *,
+        user:profiles(id, name, avatar_url, role)
+      `)
+      .eq('issue_id', issueId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as CommentWithAuthor[];
+  },
+
+  updateComment: async (id, content) => {
+    const { data, error } = await client
+      .from('issue_comments')
+      .update({ content })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as IssueCommentRow;
+  },
+
+  // The issue_comments trigger records the revision, clears the content and
+  // sets deleted_by (see supabase/migrations).
+  deleteComment: async (id) => {
+    const { data, error } = await client
+      .from('issue_comments')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as IssueCommentRow;
+  },
+
+  getCommentRevisions: async (commentId) => {
+    const { data, error } = await client
+      .from('issue_comment_revisions')
+      .select('*')
+      .eq('comment_id', commentId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data as IssueCommentRevisionRow[];
+  },
+
+  // Notifications
+  // Rows are written by triggers on issues, issue_events and issue_comments
+  // (see supabase/migrations).
+  getNotifications: async (userId, limit = 50) => {
+    const { data, error } = await client
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .contains('channels', ['in_app'])
+      .is('dismissed_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data as NotificationRow[];
+  },
+
+  countUnreadNotifications: async (userId) => {
+    const { count, error } = await client
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .contains('channels', ['in_app'])
+      .is('read_at', null)
+      .is('dismissed_at', null);
+
+    if (error) throw error;
+    return count ?? 0;
+  },
+
+  markNotificationsRead: async (userId, ids) => {
+    let update = client
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (ids) update = update.in('id', ids);
+
+    const { error } = await update;
+    if (error) throw error;
+  },
+
+  dismissNotifications: async (userId, ids) => {
+    let update = client
+      .from('notifications')
+      .update({ dismissed_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('dismissed_at', null);
+
+    if (ids) update = update.in('id', ids);
+
+    const { error } = await update;
+    if (error) throw error;
+  },
+
+  getNotificationPreferences: async (userId) => {
+    const { data, error } = await client
+      .from('notification_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as NotificationPreferencesRow | null;
+  },
+
+  saveNotificationPreferences: async (preferences) => {
+    const { error } = await client
+      .from('notification_preferences')
+      .upsert({ ...preferences, updated_at: new Date().toISOString() });
+
+    if (error) throw error;
+  },
+
+  listNotificationPreferences: async (query) => {
+    let preferences = client
+      .from('notification_preferences')
+      .select('*');
+
+    if (query.userIds) preferences = preferences.in('user_id', query.userIds);
+    if (query.digest) preferences = preferences.eq('digest', query.digest);
+
+    const { data, error } = await preferences;
+    if (error) throw error;
+    return data as NotificationPreferencesRow[];
+  },
+
+  getUnsentEmailNotifications: async (limit = 100) => {
+    const { data, error } = await client
+      .from('notifications')
+      .select('*')
+      .contains('channels', ['email'])
+      .is('emailed_at', null)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data as NotificationRow[];
+  },
+
+  markNotificationsEmailed: async (ids) => {
+    const { error } = await client
+      .from('notifications')
+      .update({ emailed_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) throw error;
+  },
+
+  markDigestSent: async (userId, sentAt) => {
+    const { error } = await client
+      .from('notification_preferences')
+      .update({ digest_sent_at: sentAt })
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  },
+
+  // Image storage
+  uploadImage: async (path, file) => {
+    const { error } = await client.storage
+      .from(IMAGE_BUCKET)
+      .upload(path, file, {
+        cacheControl: '3600',
+        upsert: false
+      });
+
+    if (error) {
+      throw new Error(`Failed to upload image: ${error.message}`);
+    }
+
+    const { data: { publicUrl } } = client.storage
+      .from(IMAGE_BUCKET)
+      .getPublicUrl(path);
+
+    if (!publicUrl) {
+      throw new Error('Failed to get public URL for uploaded image');
+    }
+
+    return publicUrl;
+  },
+
+  deleteImage: async (url) => {
+    // Public URLs look like .../storage/v1/object/public/images/<path>
+    const filePath = url.split(`/${IMAGE_BUCKET}/`).pop();
+    if (!filePath) {
+      throw new Error('Invalid file URL');
+    }
+
+    const { error } = await client.storage
+      .from(IMAGE_BUCKET)
+      .remove([filePath]);
+
+    if (error) {
+      throw new Error('Failed to delete image');
+    }
+  },
+
+  // Realtime
+  subscribeToIssues: (callback, onStatus) => {
+    return client
+      .channel('issues_changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'issues' }, (payload) => {
+        callback(payload as unknown as ChangePayload<IssueRow>);
+      })
+      .subscribe((status) => onStatus?.(toRealtimeStatus(status)));
+  },
+
+  subscribeToComments: (issueId, callback, onStatus) => {
+    return client
+      .channel(`comments_changes_${issueId}`)
+      .on('postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'issue_comments',
+          filter: `issue_id=eq.${issueId}`
+        },
+        (payload) => {
+          callback(payload as unknown as ChangePayload<IssueCommentRow>);
+        }
+      )
+      .subscribe((status) => onStatus?.(toRealtimeStatus(status)));
+  },
+
+  subscribeToNotifications: (userId, callback, onStatus) => {
+    return client
+      .channel(`notifications_${userId}`)
+      .on('postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        (payload) => {
+          callback(payload as unknown as ChangePayload<NotificationRow>);
+        }
+      )
+      .subscribe((status) => onStatus?.(toRealtimeStatus(status)));
+  },
+});
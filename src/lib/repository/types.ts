@@ -0,0 +1,286 @@
+import type { IssueRow, IssueCommentRow, IssueCommentRevisionRow, IssueEventField, IssueEventRow, IssueMergeRow, NotificationPreferencesRow, NotificationRow, WardRow } from '../supabase';
+import type { AreaGeometry, GeoBounds } from '../geo';
+
+export const USER_ROLES = ['citizen', 'staff', 'supervisor', 'moderator', 'auditor', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Roles whose members issues can be assigned to
+export const STAFF_ROLES: UserRole[] = ['staff', 'supervisor', 'admin'];
+
+// City departments; staff and supervisors belong to one and work on the
+// issue categories it handles (see @/lib/permissions).
+export const DEPARTMENTS = ['roads', 'lighting', 'sanitation', 'water', 'general'] as const;
+
+export type Department = typeof DEPARTMENTS[number];
+
+// Suspended and banned users can sign in to nothing and write nothing; a
+// suspension with an end date lapses by itself (see @/lib/permissions).
+export const ACCOUNT_STATUSES = ['active', 'suspended', 'banned'] as const;
+
+export type AccountStatus = typeof ACCOUNT_STATUSES[number];
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+export type AuthEvent = 'SIGNED_IN' | 'SIGNED_OUT';
+
+export interface Profile {
+  id: string;
+  name: string;
+  role: UserRole;
+  department?: Department | null;
+  avatar_url?: string | null;
+  status?: AccountStatus;
+  suspended_until?: string | null;
+  // Write-only, like IssueRow.change_note: moved onto the profile_events rows
+  // the change produces.
+  change_note?: string | null;
+}
+
+// Profiles matching every given filter
+export interface ProfileQuery {
+  ids?: string[];
+  roles?: UserRole[];
+  // Part of the name, case-insensitive
+  search?: string;
+}
+
+export type ProfileEventField = 'role' | 'department' | 'status' | 'suspended_until';
+
+// One change to a user's role, department or account status, made by a user
+// manager. Values are the column values before and after.
+export interface ProfileEventRow {
+  id: string;
+  user_id: string;
+  actor_id: string | null;
+  field: ProfileEventField;
+  old_value: string | null;
+  new_value: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+// Newest first. Without a userId this spans every user.
+export interface ProfileEventQuery {
+  userId?: string;
+  limit?: number;
+}
+
+// Last activity is the latest report, comment or issue change by the user
+export interface UserActivityRow {
+  user_id: string;
+  report_count: number;
+  last_active_at: string | null;
+}
+
+export interface CommentWithAuthor extends IssueCommentRow {
+  user: {
+    id: string;
+    name: string;
+    avatar_url?: string | null;
+    role?: UserRole;
+  } | null;
+}
+
+export interface IssueFilters {
+  status?: string;
+  category?: string;
+  priority?: string;
+  userId?: string;
+}
+
+export type IssueSortColumn = 'created_at' | 'updated_at' | 'title' | 'status' | 'priority' | 'votes';
+
+// Row-level query. Array filters match any of the listed values; `cursor` is
+// the opaque `nextCursor` of the previous page and is only valid for the same
+// filters and sort.
+export interface IssueQuery {
+  status?: string[];
+  category?: string[];
+  priority?: string[];
+  userId?: string;
+  assignedTo?: string;
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  // Only issues this user has voted for
+  votedBy?: string;
+  // Only issues this user follows
+  followedBy?: string;
+  // Only issues located in this box
+  bounds?: GeoBounds;
+  // Only issues located in this polygon
+  area?: AreaGeometry;
+  wardId?: string[];
+  search?: string;
+  sort?: IssueSortColumn;
+  ascending?: boolean;
+  limit?: number;
+  cursor?: string | null;
+}
+
+// Issue history, oldest first. Without an issueId this spans all issues,
+// e.g. for reporting on how long issues spend in each status.
+export interface IssueEventQuery {
+  issueId?: string;
+  issueIds?: string[];
+  field?: IssueEventField[];
+  actorId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// The columns the map draws an issue's marker and heat from
+export type IssuePointRow = Pick<
+  IssueRow,
+  'id' | 'title' | 'status' | 'priority' | 'category' | 'location' | 'votes' | 'created_at' | 'schema_version'
+>;
+
+export interface IssueRowPage {
+  rows: IssueRow[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// Just enough of an assigned issue to total up its assignee's workload
+export type AssignedIssueRow = Pick<IssueRow, 'id' | 'assigned_to' | 'status' | 'created_at'>;
+
+export type NewNotificationPreferences = Omit<NotificationPreferencesRow, 'email' | 'digest_sent_at' | 'updated_at'>;
+
+export interface NotificationPreferencesQuery {
+  userIds?: string[];
+  digest?: NotificationPreferencesRow['digest'];
+}
+
+export type IssueCountColumn = 'status' | 'category' | 'priority' | 'ward_id';
+
+// `id` may be chosen by the client so that sending the same report twice
+// creates it only once
+export type NewIssue = Omit<IssueRow, 'id' | 'created_at' | 'updated_at' | 'votes' | 'voter_ids' | 'follower_ids' | 'duplicate_of' | 'ward_id' | 'change_note'> & Partial<Pick<IssueRow, 'id'>>;
+export type NewWard = Pick<WardRow, 'name' | 'boundary'>;
+export type NewComment = Omit<IssueCommentRow, 'id' | 'created_at' | 'updated_at' | 'edited_at' | 'deleted_at' | 'deleted_by'>;
+
+export interface ChangePayload<T> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: Partial<T>;
+  old: Partial<T>;
+}
+
+export type RealtimeStatus = 'connected' | 'disconnected';
+
+export interface Subscription {
+  unsubscribe: () => void;
+}
+
+// Everything the app needs from a backend. The Supabase implementation talks to
+// the hosted project, the local one keeps the same tables in the browser so the
+// app can run without network access.
+export interface IssueRepository {
+  // Auth
+  getSessionUser: () => Promise<AuthUser | null>;
+  signUp: (email: string, password: string, metadata?: Record<string, unknown>) => Promise<AuthUser | null>;
+  signIn: (email: string, password: string) => Promise<AuthUser>;
+  signOut: () => Promise<void>;
+  onAuthStateChange: (callback: (event: AuthEvent, user: AuthUser | null) => void) => Subscription;
+  resetPassword: (email: string, redirectTo: string) => Promise<void>;
+  updatePassword: (newPassword: string) => Promise<void>;
+
+  // Profiles
+  getProfile: (id: string) => Promise<Profile | null>;
+  listProfiles: (query?: ProfileQuery) => Promise<Profile[]>;
+  createProfile: (profile: Profile) => Promise<void>;
+  updateProfile: (id: string, updates: Partial<Omit<Profile, 'id'>>) => Promise<void>;
+  getUserActivity: (userIds: string[]) => Promise<UserActivityRow[]>;
+  // Role, department and status changes are recorded by the backend
+  queryProfileEvents: (query: ProfileEventQuery) => Promise<ProfileEventRow[]>;
+
+  // Issues
+  // Creating an issue whose id already exists returns the existing issue
+  createIssue: (issue: NewIssue) => Promise<IssueRow>;
+  getIssues: (filters?: IssueFilters) => Promise<IssueRow[]>;
+  queryIssues: (query: IssueQuery) => Promise<IssueRowPage>;
+  countIssues: (query?: IssueQuery) => Promise<number>;
+  // Every matching issue, up to MAX_ISSUE_POINTS, for the map. Sort, cursor
+  // and limit are ignored.
+  queryIssuePoints: (query: IssueQuery) => Promise<IssuePointRow[]>;
+  countIssuesBy: (column: IssueCountColumn) => Promise<Record<string, number>>;
+  getIssueById: (id: string) => Promise<IssueRow>;
+  updateIssue: (id: string, updates: Partial<IssueRow>) => Promise<IssueRow>;
+  deleteIssue: (id: string) => Promise<void>;
+  queryIssueEvents: (query: IssueEventQuery) => Promise<IssueEventRow[]>;
+  // Every assigned issue whose status is one of `statuses`
+  getAssignedIssues: (statuses: string[]) => Promise<AssignedIssueRow[]>;
+
+  // Merges. Folds each duplicate's comments, images, votes and followers into
+  // the primary and closes the duplicate; unmerging puts back what the merge
+  // moved. Both are recorded in the history of the issues involved.
+  mergeIssues: (primaryId: string, duplicateIds: string[], note?: string) => Promise<IssueMergeRow[]>;
+  unmergeIssue: (mergeId: string) => Promise<void>;
+  // Merges not yet undone that the issue is either side of, oldest first
+  getIssueMerges: (issueId: string) => Promise<IssueMergeRow[]>;
+
+  // Wards, by name. Importing replaces every ward and zones all issues into
+  // the new ones; issues outside all of them are left without a ward.
+  getWards: () => Promise<WardRow[]>;
+  importWards: (wards: NewWard[]) => Promise<WardRow[]>;
+
+  // Votes
+  voteOnIssue: (issueId: string, userId: string) => Promise<void>;
+  removeVote: (issueId: string, userId: string) => Promise<void>;
+
+  // Follows. Followers hear about status changes; following twice is a no-op.
+  followIssue: (issueId: string, userId: string) => Promise<void>;
+  unfollowIssue: (issueId: string, userId: string) => Promise<void>;
+
+  // Comments
+  createComment: (comment: NewComment) => Promise<IssueCommentRow>;
+  getComments: (issueId: string) => Promise<CommentWithAuthor[]>;
+  // Edits and deletes are made as the signed-in user and keep the previous
+  // content as a revision. Deleting clears the content but keeps the row.
+  updateComment: (id: string, content: string) => Promise<IssueCommentRow>;
+  deleteComment: (id: string) => Promise<IssueCommentRow>;
+  getCommentRevisions: (commentId: string) => Promise<IssueCommentRevisionRow[]>;
+
+  // Notifications, newest first and without dismissed ones. Users only read,
+  // mark and dismiss their own; without ids these apply to all of them.
+  getNotifications: (userId: string, limit?: number) => Promise<NotificationRow[]>;
+  countUnreadNotifications: (userId: string) => Promise<number>;
+  markNotificationsRead: (userId: string, ids?: string[]) => Promise<void>;
+  dismissNotifications: (userId: string, ids?: string[]) => Promise<void>;
+  getNotificationPreferences: (userId: string) => Promise<NotificationPreferencesRow | null>;
+  saveNotificationPreferences: (preferences: NewNotificationPreferences) => Promise<void>;
+
+  // Email delivery. Run by the delivery script with the service role, see
+  // src/scripts/sendNotificationEmails.ts.
+  listNotificationPreferences: (query: NotificationPreferencesQuery) => Promise<NotificationPreferencesRow[]>;
+  // Oldest first
+  getUnsentEmailNotifications: (limit?: number) => Promise<NotificationRow[]>;
+  markNotificationsEmailed: (ids: string[]) => Promise<void>;
+  markDigestSent: (userId: string, sentAt: string) => Promise<void>;
+
+  // Image storage
+  uploadImage: (path: string, file: File) => Promise<string>;
+  deleteImage: (url: string) => Promise<void>;
+
+  // Realtime
+  // onStatus reports when the channel drops and comes back, so callers can
+  // fetch what they missed in between.
+  subscribeToIssues: (
+    callback: (payload: ChangePayload<IssueRow>) => void,
+    onStatus?: (status: RealtimeStatus) => void
+  ) => Subscription;
+  subscribeToComments: (
+    issueId: string,
+    callback: (payload: ChangePayload<IssueCommentRow>) => void,
+    onStatus?: (status: RealtimeStatus) => void
+  ) => Subscription;
+  subscribeToNotifications: (
+    userId: string,
+    callback: (payload: ChangePayload<NotificationRow>) => void,
+    onStatus?: (status: RealtimeStatus) => void
+  ) => Subscription;
+}
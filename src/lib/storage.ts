@@ -1,4 +1,4 @@
-import { supabase } from './supabase';
+import { getRepository } from './repository';
 
 export const uploadImage = async (file: File, folder: string = 'issues'): Promise<string> => {
   try {
@@ -17,29 +17,7 @@ export const uploadImage = async (file: File, folder: string = 'issues'): Promis
     const fileName = `${Math.random().toString(36).substring(2)}-${Date.now()}.${fileExt}`;
     const filePath = `${folder}/${fileName}`;
 
-    // Upload file to Supabase storage
-    const { error: uploadError, data } = await supabase.storage
-      .from('images')
-      .upload(filePath, file, {
-        cacheControl: '3600',
-        upsert: false
-      });
-
-    if (uploadError) {
-      console.error('Error uploading file:', uploadError);
-      throw new Error(`Failed to upload image: ${uploadError.message}`);
-    }
-
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from('images')
-      .getPublicUrl(filePath);
-
-    if (!publicUrl) {
-      throw new Error('Failed to get public URL for uploaded image');
-    }
-
-    return publicUrl;
+    return await getRepository().uploadImage(filePath, file);
   } catch (error) {
     console.error('Error in uploadImage:', error);
     throw error;
@@ -48,21 +26,9 @@ export const uploadImage = async (file: File, folder: string = 'issues'): Promis
 
 export const deleteImage = async (url: string): Promise<void> => {
   try {
-    const filePath = url.split('/').pop();
-    if (!filePath) {
-      throw new Error('Invalid file URL');
-    }
-
-    const { error } = await supabase.storage
-      .from('images')
-      .remove([filePath]);
-
-    if (error) {
-      console.error('Error deleting file:', error);
-      throw new Error('Failed to delete image');
-    }
+    await getRepository().deleteImage(url);
   } catch (error) {
     console.error('Error in deleteImage:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
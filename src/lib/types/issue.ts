@@ -1,16 +1,40 @@
-export type IssuePriority = 'low' | 'medium' | 'high' | 'critical';
-export type IssueStatus = 'open' | 'in-progress' | 'resolved' | 'closed';
+// Canonical issue domain model shared by the data layer and every page.
+// Storage rows are converted to and from these types in `@/lib/mappers`.
+
+import type { UserRole } from '../repository/types';
+import type { GeoBounds } from '../geo';
+import type { MapArea } from '../areas';
+
+export const ISSUE_CATEGORIES = [
+  'pothole',
+  'streetlight',
+  'garbage',
+  'graffiti',
+  'road_damage',
+  'flooding',
+  'sign_damage',
+  'other',
+] as const;
+
+export const ISSUE_STATUSES = [
+  'reported',
+  'under_review',
+  'in_progress',
+  'resolved',
+  'closed',
+] as const;
+
+export const ISSUE_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export type IssueCategory = typeof ISSUE_CATEGORIES[number];
+export type IssueStatus = typeof ISSUE_STATUSES[number];
+export type IssueSeverity = typeof ISSUE_SEVERITIES[number];
 
 export interface Issue {
   id: string;
   title: string;
   description: string;
-  status: IssueStatus;
-  priority: IssuePriority;
-  assignedTo: string | null;
-  createdAt: Date;
-  updatedAt: Date;
-  createdBy: string;
+  category: IssueCategory;
   location: {
     address: string;
     coordinates: {
@@ -18,27 +42,174 @@ export interface Issue {
       lng: number;
     };
   };
-  category: string;
-  attachments: string[];
+  images: string[];
+  status: IssueStatus;
+  severity: IssueSeverity;
+  reportedBy: {
+    id: string;
+    name: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+  upvotes: number;
+  upvotedBy: string[];
+  // Users following the issue, who hear about its status changes
+  followedBy: string[];
   comments: IssueComment[];
+  assignedTo?: {
+    id: string;
+    name: string;
+  };
+  resolutionNotes?: string;
+  // After photos taken when the issue was resolved
+  resolutionImages?: string[];
+  // The issue this one was merged into
+  duplicateOf?: string;
+  // The ward the issue is located in, see @/lib/types/ward
+  wardId?: string;
+}
+
+// What the map needs to draw an issue as a marker and as heat
+export type IssuePoint = Pick<
+  Issue,
+  'id' | 'title' | 'category' | 'location' | 'status' | 'severity' | 'upvotes' | 'createdAt'
+>;
+
+export type IssueLocation = Issue['location'];
+
+interface IssueUser {
+  id: string;
+  name: string;
+}
+
+interface IssueReference {
+  id: string;
+  title: string;
+}
+
+// One recorded change. `from` is null for the event recorded when the issue
+// was reported, and for an assignee when there was none.
+export type IssueChange =
+  | { field: 'status'; from: IssueStatus | null; to: IssueStatus }
+  | { field: 'severity'; from: IssueSeverity | null; to: IssueSeverity }
+  | { field: 'assignee'; from: IssueUser | null; to: IssueUser | null }
+  | { field: 'location'; from: IssueLocation | null; to: IssueLocation }
+  // On the primary: the issue merged in (`to`) or split back out (`from`)
+  | { field: 'merged'; from: IssueReference | null; to: IssueReference | null }
+  // On the duplicate: the primary it was merged into or split back out of
+  | { field: 'duplicateOf'; from: IssueReference | null; to: IssueReference | null };
+
+export type IssueEvent = IssueChange & {
+  id: string;
+  issueId: string;
+  // Null when made by the system or an account that no longer exists
+  actor: IssueUser | null;
+  note?: string;
+  createdAt: string;
+};
+
+// What a reporter submits; the rest is filled in by the backend.
+export type IssueDraft = Omit<Issue, 'id' | 'createdAt' | 'updatedAt' | 'upvotes' | 'upvotedBy' | 'followedBy' | 'comments' | 'duplicateOf' | 'wardId'>;
+
+// A duplicate merged into a primary issue that hasn't been undone
+export interface IssueMerge {
+  id: string;
+  primary: IssueReference;
+  duplicate: IssueReference;
+  // Null when made by an account that no longer exists
+  actor: IssueUser | null;
+  note?: string;
+  createdAt: string;
 }
 
 export interface IssueComment {
   id: string;
-  content: string;
-  createdAt: Date;
-  createdBy: string;
-  attachments: string[];
+  text: string;
+  createdAt: string;
+  // The comment this one replies to
+  parentId?: string;
+  editedAt?: string;
+  // Deleted comments have empty text and stay in the thread as placeholders
+  deletedAt?: string;
+  user: {
+    id: string;
+    name: string;
+    role: UserRole;
+  };
+}
+
+// Text a comment had until an edit or delete replaced it
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  text: string;
+  editedBy: string;
+  replacedAt: string;
 }
 
 export interface IssueFilter {
   status?: IssueStatus[];
-  priority?: IssuePriority[];
+  reportedBy?: string;
+  // Issues this user has upvoted
+  supportedBy?: string;
+  // Issues this user follows
+  followedBy?: string;
+  // Issues located in this box
+  bounds?: GeoBounds;
+  // Issues inside an area drawn on the map
+  area?: MapArea;
+  // Issues zoned into any of these wards
+  ward?: string[];
+  severity?: IssueSeverity[];
   assignedTo?: string;
-  category?: string;
+  category?: IssueCategory[];
   dateRange?: {
-    start: Date;
-    end: Date;
+    start?: Date;
+    end?: Date;
   };
   search?: string;
-} 
\ No newline at end of file
+}
+
+export type IssueSortField = 'createdAt' | 'updatedAt' | 'title' | 'status' | 'severity' | 'upvotes';
+
+export interface IssueSort {
+  field: IssueSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface IssuePage {
+  issues: Issue[];
+  // Pass back to fetch the following page; null on the last page.
+  nextCursor: string | null;
+  total: number;
+}
+
+// Someone issues can be assigned to
+export interface StaffMember {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+}
+
+// Open issues are bucketed by how long ago they were reported
+export const WORKLOAD_AGES = ['week', 'month', 'older'] as const;
+
+export type WorkloadAge = typeof WORKLOAD_AGES[number];
+
+// A staff member's open assigned issues
+export interface StaffWorkload {
+  staff: StaffMember;
+  open: number;
+  byStatus: Partial<Record<IssueStatus, number>>;
+  byAge: Record<WorkloadAge, number>;
+  oldestCreatedAt?: string;
+}
+
+export const isIssueCategory = (value: unknown): value is IssueCategory =>
+  ISSUE_CATEGORIES.includes(value as IssueCategory);
+
+export const isIssueStatus = (value: unknown): value is IssueStatus =>
+  ISSUE_STATUSES.includes(value as IssueStatus);
+
+export const isIssueSeverity = (value: unknown): value is IssueSeverity =>
+  ISSUE_SEVERITIES.includes(value as IssueSeverity);
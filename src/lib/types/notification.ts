@@ -0,0 +1,40 @@
+// Notifications as shown to their recipient. Rows are converted to these
+// types in `@/lib/mappers`.
+
+import type { NotificationType } from '../supabase';
+import type { IssueCategory } from './issue';
+
+export type { NotificationType };
+
+export interface UserNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  // The issue it is about, to link to
+  issueId?: string;
+  actorId?: string;
+  read: boolean;
+  createdAt: string;
+}
+
+export const NOTIFICATION_CHANNELS = ['in_app', 'email'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// Types users choose channels for; system notifications always go in-app
+export const CONFIGURABLE_NOTIFICATION_TYPES = ['new_report', 'status_change', 'comment', 'mention'] as const;
+
+export type ConfigurableNotificationType = typeof CONFIGURABLE_NOTIFICATION_TYPES[number];
+
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+// Every category and type filled in, with defaults where the user has chosen
+// nothing
+export interface NotificationPreferences {
+  email: string | null;
+  digest: DigestFrequency;
+  channels: Record<IssueCategory, Record<ConfigurableNotificationType, NotificationChannel[]>>;
+}
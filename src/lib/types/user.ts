@@ -0,0 +1,50 @@
+// User accounts as the admin Users page sees them. Profile rows are converted
+// to these types in `@/lib/mappers`.
+
+import type { AccountStatus, Department, UserRole } from '../repository/types';
+
+export interface ManagedUser {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+  role: UserRole;
+  department: Department | null;
+  // A suspension that has ended reads as 'active'
+  status: AccountStatus;
+  // End of the current suspension; absent for indefinite ones
+  suspendedUntil?: string;
+  reportCount: number;
+  // Latest report, comment or issue change; absent for users who did nothing
+  lastActiveAt?: string;
+}
+
+interface UserEventActor {
+  id: string;
+  name: string;
+}
+
+// One recorded change to a user's account. `from` and `to` are null where
+// the user had no department or no suspension end.
+export type UserChange =
+  | { field: 'role'; from: UserRole | null; to: UserRole | null }
+  | { field: 'department'; from: Department | null; to: Department | null }
+  | { field: 'status'; from: AccountStatus | null; to: AccountStatus | null }
+  | { field: 'suspendedUntil'; from: string | null; to: string | null };
+
+export type UserEvent = UserChange & {
+  id: string;
+  user: UserEventActor;
+  // Null when made by the system or an account that no longer exists
+  actor: UserEventActor | null;
+  note?: string;
+  createdAt: string;
+};
+
+// What a user manager may change. Leaving a field out leaves it as it is;
+// suspendedUntil only applies to suspensions, and null means indefinitely.
+export interface UserAccountChange {
+  role?: UserRole;
+  department?: Department | null;
+  status?: AccountStatus;
+  suspendedUntil?: string | null;
+}
@@ -0,0 +1,12 @@
+// Council wards, which issues are reported to the council by. Ward rows are
+// converted to these types in `@/lib/mappers`.
+
+import type { AreaGeometry } from '../geo';
+
+export interface Ward {
+  id: string;
+  name: string;
+  boundary: AreaGeometry;
+}
+
+export type WardDraft = Omit<Ward, 'id'>;
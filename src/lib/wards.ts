@@ -0,0 +1,64 @@
+import type { AreaGeometry } from './geo';
+import type { WardDraft } from './types/ward';
+
+// Reading ward boundaries out of a GeoJSON file. Councils publish these with
+// whatever property names their GIS tool uses, so the admin picks which
+// property holds the ward name; wardNameProperty makes the first guess.
+
+export interface WardFeature {
+  boundary: AreaGeometry;
+  properties: Record<string, unknown>;
+}
+
+const isAreaGeometry = (geometry: unknown): geometry is AreaGeometry => {
+  const type = (geometry as { type?: unknown } | null)?.type;
+  return (type === 'Polygon' || type === 'MultiPolygon') &&
+    Array.isArray((geometry as { coordinates?: unknown }).coordinates);
+};
+
+// The Polygon and MultiPolygon features of a FeatureCollection; other
+// features, such as points, are skipped.
+export const parseWardFeatures = (text: string): WardFeature[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const collection = json as { type?: unknown; features?: unknown };
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('The file is not a GeoJSON FeatureCollection.');
+  }
+
+  const features = (collection.features as { geometry?: unknown; properties?: unknown }[])
+    .filter(feature => isAreaGeometry(feature?.geometry))
+    .map(feature => ({
+      boundary: feature.geometry as AreaGeometry,
+      properties: (feature.properties ?? {}) as Record<string, unknown>,
+    }));
+
+  if (features.length === 0) {
+    throw new Error('The file has no polygons in it.');
+  }
+  return features;
+};
+
+// Properties that give every feature a name
+export const wardNameProperties = (features: WardFeature[]) => {
+  const keys = Object.keys(features[0]?.properties ?? {});
+  return keys.filter(key =>
+    features.every(feature => ['string', 'number'].includes(typeof feature.properties[key]))
+  );
+};
+
+export const wardNameProperty = (properties: string[]) =>
+  properties.find(key => /^(ward_?)?name$/i.test(key)) ??
+  properties.find(key => /name/i.test(key)) ??
+  properties[0];
+
+export const wardsFromFeatures = (features: WardFeature[], nameProperty: string): WardDraft[] =>
+  features.map(feature => ({
+    name: String(feature.properties[nameProperty] ?? '').trim(),
+    boundary: feature.boundary,
+  }));
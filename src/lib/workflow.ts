@@ -0,0 +1,153 @@
+import type { UserRole } from './repository';
+import { can, issueResource, type PermissionUser } from './permissions';
+import { ISSUE_STATUSES, type Issue, type IssueStatus } from './types/issue';
+
+// Who may make a transition: a user role, or the person who reported the
+// issue whatever their role. Roles also need the issue:transition permission
+// for the issue, which limits staff to their own department.
+export type WorkflowActorRole = UserRole | 'reporter';
+
+// What a transition needs the change to carry. `note` is the change note kept
+// in the issue's history.
+export type WorkflowRequirement = 'note' | 'resolutionNotes' | 'resolutionImages';
+
+export interface WorkflowTransition {
+  from: IssueStatus;
+  to: IssueStatus;
+  label: string;
+  roles: WorkflowActorRole[];
+  requires?: WorkflowRequirement[];
+}
+
+export interface WorkflowDefinition {
+  initial: IssueStatus;
+  // Open statuses count towards their assignee's workload
+  states: Record<IssueStatus, { label: string; open?: boolean; final?: boolean }>;
+  transitions: WorkflowTransition[];
+}
+
+// Mirrored by public.issue_transitions, see supabase/migrations; keep the two
+// in step.
+export const ISSUE_WORKFLOW: WorkflowDefinition = {
+  initial: 'reported',
+  states: {
+    reported: { label: 'Reported', open: true },
+    under_review: { label: 'Under Review', open: true },
+    in_progress: { label: 'In Progress', open: true },
+    resolved: { label: 'Resolved' },
+    closed: { label: 'Closed', final: true },
+  },
+  transitions: [
+    { from: 'reported', to: 'under_review', label: 'Start review', roles: ['staff', 'supervisor', 'admin'] },
+    { from: 'reported', to: 'closed', label: 'Close', roles: ['supervisor', 'admin'], requires: ['note'] },
+    { from: 'under_review', to: 'in_progress', label: 'Start work', roles: ['staff', 'supervisor', 'admin'] },
+    { from: 'under_review', to: 'closed', label: 'Close', roles: ['supervisor', 'admin'], requires: ['note'] },
+    {
+      from: 'in_progress',
+      to: 'under_review',
+      label: 'Send back to review',
+      roles: ['staff', 'supervisor', 'admin'],
+      requires: ['note'],
+    },
+    {
+      from: 'in_progress',
+      to: 'resolved',
+      label: 'Resolve',
+      roles: ['staff', 'supervisor', 'admin'],
+      requires: ['resolutionNotes', 'resolutionImages'],
+    },
+    { from: 'resolved', to: 'in_progress', label: 'Reopen', roles: ['supervisor', 'admin', 'reporter'], requires: ['note'] },
+    { from: 'resolved', to: 'closed', label: 'Close', roles: ['supervisor', 'admin'] },
+    { from: 'closed', to: 'under_review', label: 'Reopen', roles: ['supervisor', 'admin'], requires: ['note'] },
+  ],
+};
+
+export const openStatuses = (workflow = ISSUE_WORKFLOW): IssueStatus[] =>
+  ISSUE_STATUSES.filter(status => workflow.states[status].open);
+
+export const REQUIREMENT_LABELS: Record<WorkflowRequirement, string> = {
+  note: 'a note',
+  resolutionNotes: 'resolution notes',
+  resolutionImages: 'an after photo',
+};
+
+export type WorkflowActor = PermissionUser;
+
+export type WorkflowIssue = Pick<Issue, 'status' | 'category'> & { reportedBy: Pick<Issue['reportedBy'], 'id'> };
+
+export interface WorkflowChange {
+  note?: string;
+  resolutionNotes?: string;
+  resolutionImages?: string[];
+}
+
+const mayMake = (transition: WorkflowTransition, issue: WorkflowIssue, actor: WorkflowActor) =>
+  (transition.roles.includes('reporter') && issue.reportedBy.id === actor.id) ||
+  (transition.roles.includes(actor.role) && can(actor, 'issue:transition', issueResource(issue)));
+
+export const statusLabel = (status: IssueStatus, workflow = ISSUE_WORKFLOW) =>
+  workflow.states[status]?.label ?? status;
+
+export const findTransition = (from: IssueStatus, to: IssueStatus, workflow = ISSUE_WORKFLOW) =>
+  workflow.transitions.find(transition => transition.from === from && transition.to === to);
+
+// Transitions out of the issue's current status that `actor` may make
+export const availableTransitions = (
+  issue: WorkflowIssue,
+  actor: WorkflowActor | null | undefined,
+  workflow = ISSUE_WORKFLOW,
+): WorkflowTransition[] => {
+  if (!actor) return [];
+  return workflow.transitions.filter(transition =>
+    transition.from === issue.status && mayMake(transition, issue, actor)
+  );
+};
+
+// Statuses to offer in a status dropdown: the current one first, then the
+// ones it can move to, in workflow order.
+export const statusOptions = (
+  issue: WorkflowIssue,
+  actor: WorkflowActor | null | undefined,
+  workflow = ISSUE_WORKFLOW,
+): IssueStatus[] => {
+  const targets = new Set(availableTransitions(issue, actor, workflow).map(transition => transition.to));
+  return ISSUE_STATUSES.filter(status => status === issue.status || targets.has(status));
+};
+
+export const missingRequirements = (transition: WorkflowTransition, change: WorkflowChange): WorkflowRequirement[] =>
+  (transition.requires ?? []).filter(requirement => {
+    switch (requirement) {
+      case 'note':
+        return !change.note?.trim();
+      case 'resolutionNotes':
+        return !change.resolutionNotes?.trim();
+      case 'resolutionImages':
+        return !change.resolutionImages?.length;
+    }
+  });
+
+// Throws with a message fit for the user when `actor` may not move the issue
+// to `to`, or the change lacks something the transition requires.
+export const assertTransition = (
+  issue: WorkflowIssue,
+  to: IssueStatus,
+  actor: WorkflowActor | null | undefined,
+  change: WorkflowChange,
+  workflow = ISSUE_WORKFLOW,
+) => {
+  if (to === issue.status) return;
+
+  const transition = findTransition(issue.status, to, workflow);
+  if (!transition) {
+    throw new Error(`An issue cannot move from ${statusLabel(issue.status, workflow)} to ${statusLabel(to, workflow)}.`);
+  }
+  if (!actor || !mayMake(transition, issue, actor)) {
+    throw new Error(`You are not allowed to move this issue to ${statusLabel(to, workflow)}.`);
+  }
+
+  const missing = missingRequirements(transition, change);
+  if (missing.length > 0) {
+    const needed = missing.map(requirement => REQUIREMENT_LABELS[requirement]).join(' and ');
+    throw new Error(`Moving this issue to ${statusLabel(to, workflow)} needs ${needed}.`);
+  }
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Navigate, Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { 
   Card, 
   CardContent, 
@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/table";
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { 
   Select,
@@ -27,7 +28,11 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/contexts/AuthContext';
-import { useReports, Report, ReportStatus } from '@/contexts/ReportContext';
+import { useReports, Report, ReportCategory, ReportStatus } from '@/contexts/ReportContext';
+import { useIssueCount, useIssueCountsBy, useIssuePages } from '@/hooks/use-issues';
+import { useDebounce } from '@/hooks/use-debounce';
+import { useWards } from '@/hooks/use-wards';
+import type { IssueFilter, IssueSort } from '@/lib/types/issue';
 import { toast } from '@/components/ui/use-toast';
 import { format, formatDistanceToNow } from 'date-fns';
 import { 
@@ -50,12 +55,13 @@ import {
   ChevronLeft,
   ChevronRight,
   ChevronsLeft,
-  ChevronsRight,
   X,
   Trash2,
   Check,
   MessageSquare,
-  User
+  User,
+  GitMerge,
+  Map as MapIcon
 } from 'lucide-react';
 import {
   BarChart,
@@ -91,11 +97,19 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { cn } from "@/lib/utils";
+import { findTransition, statusLabel, statusOptions } from '@/lib/workflow';
+import { can } from '@/lib/permissions';
+import ManageIssueDialog from '@/components/ManageIssueDialog';
+import { StaffWorkload } from '@/components/admin/StaffWorkload';
+import { MergeIssuesDialog } from '@/components/admin/MergeIssuesDialog';
+import { WardManager } from '@/components/admin/WardManager';
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8'];
 
 const ITEMS_PER_PAGE_OPTIONS = [10, 20, 30, 50];
 
+const formatStatusLabel = (status: ReportStatus) => statusLabel(status);
+
 type SortField = 'createdAt' | 'title' | 'status' | 'severity';
 type SortDirection = 'asc' | 'desc';
 
@@ -396,33 +410,66 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({
 };
 
 const AdminDashboard = () => {
-  const { currentUser, isAuthenticated } = useAuth();
-  const { reports, updateReport, isLoading } = useReports();
+  const { currentUser } = useAuth();
+  const { updateReport } = useReports();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [wardFilter, setWardFilter] = useState<string>('all');
+  const { data: wards = [] } = useWards();
   const [sortField, setSortField] = useState<SortField>('createdAt');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-  const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  // A status change that needs more than the dropdown gives, e.g. resolution notes
+  const [pendingStatusChange, setPendingStatusChange] = useState<{ report: Report; status: ReportStatus } | null>(null);
   const [settings, setSettings] = useState<DashboardSettings>(DEFAULT_SETTINGS);
-  
-  // Redirect if not admin
-  if (!isAuthenticated || currentUser?.role !== 'admin') {
-    return <Navigate to="/" replace />;
-  }
+  // Issues picked for merging, kept while paging so duplicates on different
+  // pages can be merged together
+  const [mergeSelection, setMergeSelection] = useState<Map<string, Report>>(new Map());
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const canMerge = can(currentUser, 'issue:merge');
+  const [weekAgo] = useState(() => new Date(Date.now() - 7 * 24 * 60 * 60 * 1000));
+  const debouncedSearch = useDebounce(searchTerm);
 
-  // Show loading spinner while reports are loading
-  if (isLoading) {
-    return (
-      <div className="flex flex-col items-center justify-center min-h-screen">
-        <Loader2 className="animate-spin h-12 w-12 text-muted-foreground mb-4" />
-        <p className="text-lg text-muted-foreground">Loading reports...</p>
-      </div>
-    );
-  }
+  // Filtering, sorting and paging happen in the data layer
+  const filter = useMemo<IssueFilter>(() => ({
+    search: debouncedSearch || undefined,
+    status: statusFilter === 'all' ? undefined : [statusFilter as ReportStatus],
+    category: categoryFilter === 'all' ? undefined : [categoryFilter as ReportCategory],
+    ward: wardFilter === 'all' ? undefined : [wardFilter],
+  }), [debouncedSearch, statusFilter, categoryFilter, wardFilter]);
+  const sort = useMemo<IssueSort>(() => ({ field: sortField, direction: sortDirection }), [sortField, sortDirection]);
+
+  const {
+    issues: paginatedReports,
+    total: totalResults,
+    page: currentPage,
+    pageCount: totalPages,
+    hasNextPage,
+    hasPreviousPage,
+    nextPage,
+    previousPage,
+    firstPage,
+    isLoading,
+  } = useIssuePages(filter, sort, itemsPerPage);
+
+  const statusCounts = useIssueCountsBy('status');
+  const categoryCounts = useIssueCountsBy('category');
+  const newThisWeek = useIssueCount(useMemo(() => ({ dateRange: { start: weekAgo } }), [weekAgo]));
+  const totalReports = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
+
+  const toggleMergeSelection = (report: Report, selected: boolean) => {
+    setMergeSelection(current => {
+      const next = new Map(current);
+      if (selected) next.set(report.id, report);
+      else next.delete(report.id);
+      return next;
+    });
+  };
+
+  const mergeIssues = useMemo(() => [...mergeSelection.values()], [mergeSelection]);
 
   // Load saved settings on component mount
   useEffect(() => {
@@ -441,6 +488,31 @@ const AdminDashboard = () => {
     }
   }, []);
 
+  // Analytics data
+  const statusData = useMemo(() => {
+    return Object.entries(statusCounts).map(([status, count]) => ({
+      name: formatStatusLabel(status as ReportStatus),
+      value: count
+    }));
+  }, [statusCounts]);
+
+  const categoryData = useMemo(() => {
+    return Object.entries(categoryCounts).map(([category, count]) => ({
+      name: category.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
+      value: count
+    }));
+  }, [categoryCounts]);
+
+  // Show loading spinner while reports are loading
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen">
+        <Loader2 className="animate-spin h-12 w-12 text-muted-foreground mb-4" />
+        <p className="text-lg text-muted-foreground">Loading reports...</p>
+      </div>
+    );
+  }
+
   // Handle settings save
   const handleSaveSettings = () => {
     // Apply settings
@@ -458,64 +530,34 @@ const AdminDashboard = () => {
     });
   };
 
-  const filteredReports = reports.filter(report => {
-    const matchesSearch = 
-      report.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      report.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      report.location.address.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = statusFilter === 'all' || report.status === statusFilter;
-    const matchesCategory = categoryFilter === 'all' || report.category === categoryFilter;
-    
-    return matchesSearch && matchesStatus && matchesCategory;
-  });
-
-  // Sort reports
-  const sortedReports = [...filteredReports].sort((a, b) => {
-    const aValue = a[sortField as keyof Report];
-    const bValue = b[sortField as keyof Report];
-    
-    if (typeof aValue === 'string' && typeof bValue === 'string') {
-      return sortDirection === 'asc' 
-        ? aValue.localeCompare(bValue)
-        : bValue.localeCompare(aValue);
-    }
-    
-    if (aValue instanceof Date && bValue instanceof Date) {
-      return sortDirection === 'asc'
-        ? aValue.getTime() - bValue.getTime()
-        : bValue.getTime() - aValue.getTime();
-    }
-    
-    return 0;
-  });
-
-  // Pagination calculations
-  const totalPages = Math.ceil(sortedReports.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedReports = sortedReports.slice(startIndex, endIndex);
-
-  // Reset to first page when filters change
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [searchTerm, statusFilter, categoryFilter]);
-
-  const handlePageChange = (page: number) => {
-    setCurrentPage(page);
-  };
+  const endIndex = startIndex + paginatedReports.length;
 
   const handleItemsPerPageChange = (value: string) => {
     setItemsPerPage(Number(value));
-    setCurrentPage(1); // Reset to first page when changing items per page
   };
 
-  const handleStatusChange = (reportId: string, newStatus: ReportStatus) => {
-    updateReport(reportId, { status: newStatus });
-    toast({
-      title: "Status Updated",
-      description: `Report status has been updated to "${newStatus.replace('_', ' ')}".`,
-    });
+  const handleStatusChange = async (report: Report, newStatus: ReportStatus) => {
+    if (newStatus === report.status) return;
+    if (findTransition(report.status, newStatus)?.requires?.length) {
+      setPendingStatusChange({ report, status: newStatus });
+      return;
+    }
+
+    try {
+      await updateReport(report.id, { status: newStatus });
+      toast({
+        title: "Status Updated",
+        description: `Report status has been updated to "${statusLabel(newStatus)}".`,
+      });
+    } catch (error) {
+      console.error('Error updating status:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the status. The change has been reverted.",
+        variant: "destructive",
+      });
+    }
   };
 
   const getStatusColor = (status: ReportStatus) => {
@@ -535,35 +577,6 @@ const AdminDashboard = () => {
     }
   };
   
-  const formatStatusLabel = (status: ReportStatus) => {
-    return status.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase());
-  };
-
-  // Analytics data
-  const statusData = useMemo(() => {
-    const statusCounts = reports.reduce((acc, report) => {
-      acc[report.status] = (acc[report.status] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return Object.entries(statusCounts).map(([status, count]) => ({
-      name: formatStatusLabel(status as ReportStatus),
-      value: count
-    }));
-  }, [reports]);
-
-  const categoryData = useMemo(() => {
-    const categoryCounts = reports.reduce((acc, report) => {
-      acc[report.category] = (acc[report.category] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    return Object.entries(categoryCounts).map(([category, count]) => ({
-      name: category.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase()),
-      value: count
-    }));
-  }, [reports]);
-
   return (
     <div className="container py-12">
       {/* Header Section */}
@@ -575,6 +588,14 @@ const AdminDashboard = () => {
           </p>
         </div>
         <div className="flex gap-3 mt-4 md:mt-0">
+          {can(currentUser, 'users:manage') && (
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/admin/users">
+                <Users className="h-4 w-4 mr-2" />
+                Users
+              </Link>
+            </Button>
+          )}
           <Button variant="outline" size="sm">
             <Download className="h-4 w-4 mr-2" />
             Export Data
@@ -619,15 +640,13 @@ const AdminDashboard = () => {
               Total Reports
             </CardTitle>
             <CardDescription className="text-2xl font-bold text-blue-700 dark:text-blue-300">
-              {reports.length}
+              {totalReports}
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="flex items-center justify-between">
               <div className="text-xs text-blue-600 dark:text-blue-400">
-                {reports.filter(r => 
-                  new Date(r.createdAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-                ).length} new this week
+                {newThisWeek} new this week
               </div>
               <FileText className="h-4 w-4 text-blue-600 dark:text-blue-400" />
             </div>
@@ -640,7 +659,7 @@ const AdminDashboard = () => {
               Pending Review
             </CardTitle>
             <CardDescription className="text-2xl font-bold text-yellow-700 dark:text-yellow-300">
-              {reports.filter(r => r.status === 'reported').length}
+              {statusCounts.reported || 0}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -659,9 +678,7 @@ const AdminDashboard = () => {
               In Progress
             </CardTitle>
             <CardDescription className="text-2xl font-bold text-orange-700 dark:text-orange-300">
-              {reports.filter(r => 
-                r.status === 'in_progress' || r.status === 'under_review'
-              ).length}
+              {(statusCounts.in_progress || 0) + (statusCounts.under_review || 0)}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -680,9 +697,7 @@ const AdminDashboard = () => {
               Resolved
             </CardTitle>
             <CardDescription className="text-2xl font-bold text-green-700 dark:text-green-300">
-              {reports.filter(r => 
-                r.status === 'resolved' || r.status === 'closed'
-              ).length}
+              {(statusCounts.resolved || 0) + (statusCounts.closed || 0)}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -740,11 +755,26 @@ const AdminDashboard = () => {
                 <SelectItem value="other">Other</SelectItem>
               </SelectContent>
             </Select>
+
+            {wards.length > 0 && (
+              <Select value={wardFilter} onValueChange={setWardFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Filter by ward" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Wards</SelectItem>
+                  {wards.map(ward => (
+                    <SelectItem key={ward.id} value={ward.id}>{ward.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             
             <Button variant="outline" className="sm:w-auto" onClick={() => {
               setSearchTerm('');
               setStatusFilter('all');
               setCategoryFilter('all');
+              setWardFilter('all');
             }}>
               <Filter className="mr-2 h-4 w-4" />
               Reset
@@ -763,20 +793,48 @@ const AdminDashboard = () => {
             <BarChart2 className="h-4 w-4 mr-2" />
             Analytics
           </TabsTrigger>
+          {can(currentUser, 'staff:view') && (
+            <TabsTrigger value="staff">
+              <Users className="h-4 w-4 mr-2" />
+              Staff
+            </TabsTrigger>
+          )}
+          {can(currentUser, 'wards:manage') && (
+            <TabsTrigger value="wards">
+              <MapIcon className="h-4 w-4 mr-2" />
+              Wards
+            </TabsTrigger>
+          )}
         </TabsList>
         
         <TabsContent value="list" className="mt-6">
           <Card>
             <CardHeader>
-              <CardTitle>Issue Management</CardTitle>
-              <CardDescription>
-                Review and manage reported urban issues
-              </CardDescription>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>Issue Management</CardTitle>
+                  <CardDescription>
+                    Review and manage reported urban issues
+                  </CardDescription>
+                </div>
+                {canMerge && mergeSelection.size > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setMergeSelection(new Map())}>
+                      Clear
+                    </Button>
+                    <Button size="sm" onClick={() => setIsMergeOpen(true)} disabled={mergeSelection.size < 2}>
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Merge ({mergeSelection.size})
+                    </Button>
+                  </div>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
               <Table>
                 <TableHeader>
                   <TableRow>
+                    {canMerge && <TableHead className="w-10"><span className="sr-only">Select to merge</span></TableHead>}
                     <TableHead className="w-[300px]">
                       <div className="flex items-center gap-2">
                         Issue
@@ -817,13 +875,23 @@ const AdminDashboard = () => {
                 <TableBody>
                   {paginatedReports.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={5} className="h-24 text-center">
+                      <TableCell colSpan={canMerge ? 6 : 5} className="h-24 text-center">
                         No reports match your filters
                       </TableCell>
                     </TableRow>
                   ) : (
                     paginatedReports.map((report) => (
                       <TableRow key={report.id}>
+                        {canMerge && (
+                          <TableCell>
+                            <Checkbox
+                              checked={mergeSelection.has(report.id)}
+                              onCheckedChange={(checked) => toggleMergeSelection(report, checked === true)}
+                              disabled={!!report.duplicateOf}
+                              aria-label={`Select "${report.title}" to merge`}
+                            />
+                          </TableCell>
+                        )}
                         <TableCell className="font-medium">
                           <div className="max-w-sm">
                             <p className="truncate font-medium">
@@ -841,6 +909,11 @@ const AdminDashboard = () => {
                               <span className="text-xs text-muted-foreground">
                                 {report.severity} priority
                               </span>
+                              {report.duplicateOf && (
+                                <Badge variant="secondary" className="text-xs ml-2">
+                                  <Link to={`/issue/${report.duplicateOf}`}>Duplicate</Link>
+                                </Badge>
+                              )}
                             </div>
                           </div>
                         </TableCell>
@@ -869,21 +942,25 @@ const AdminDashboard = () => {
                           >
                             {formatStatusLabel(report.status)}
                           </Badge>
+                          <span className="block text-xs text-muted-foreground mt-1">
+                            {report.assignedTo ? report.assignedTo.name : 'Unassigned'}
+                          </span>
                         </TableCell>
                         <TableCell className="text-right">
                           <Select
                             value={report.status}
-                            onValueChange={(value) => handleStatusChange(report.id, value as ReportStatus)}
+                            onValueChange={(value) => handleStatusChange(report, value as ReportStatus)}
+                            disabled={statusOptions(report, currentUser).length < 2}
                           >
                             <SelectTrigger className="w-[120px]">
                               <SelectValue placeholder="Update status" />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="reported">Reported</SelectItem>
-                              <SelectItem value="under_review">Under Review</SelectItem>
-                              <SelectItem value="in_progress">In Progress</SelectItem>
-                              <SelectItem value="resolved">Resolved</SelectItem>
-                              <SelectItem value="closed">Closed</SelectItem>
+                              {statusOptions(report, currentUser).map(status => (
+                                <SelectItem key={status} value={status}>
+                                  {formatStatusLabel(status)}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </TableCell>
@@ -897,7 +974,7 @@ const AdminDashboard = () => {
               <div className="flex items-center justify-between mt-4">
                 <div className="flex items-center gap-2">
                   <p className="text-sm text-muted-foreground">
-                    Showing {startIndex + 1} to {Math.min(endIndex, sortedReports.length)} of {sortedReports.length} results
+                    Showing {totalResults === 0 ? 0 : startIndex + 1} to {endIndex} of {totalResults} results
                   </p>
                   <Select
                     value={itemsPerPage.toString()}
@@ -920,64 +997,30 @@ const AdminDashboard = () => {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handlePageChange(1)}
-                    disabled={currentPage === 1}
+                    onClick={firstPage}
+                    disabled={!hasPreviousPage}
                   >
                     <ChevronsLeft className="h-4 w-4" />
                   </Button>
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handlePageChange(currentPage - 1)}
-                    disabled={currentPage === 1}
+                    onClick={previousPage}
+                    disabled={!hasPreviousPage}
                   >
                     <ChevronLeft className="h-4 w-4" />
                   </Button>
-
-                  <div className="flex items-center gap-1">
-                    {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                      // Show pages around current page
-                      let pageNum;
-                      if (totalPages <= 5) {
-                        pageNum = i + 1;
-                      } else if (currentPage <= 3) {
-                        pageNum = i + 1;
-                      } else if (currentPage >= totalPages - 2) {
-                        pageNum = totalPages - 4 + i;
-                      } else {
-                        pageNum = currentPage - 2 + i;
-                      }
-
-                      return (
-                        <Button
-                          key={pageNum}
-                          variant={currentPage === pageNum ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => handlePageChange(pageNum)}
-                          className="w-8 h-8"
-                        >
-                          {pageNum}
-                        </Button>
-                      );
-                    })}
-                  </div>
-
+                  <span className="text-sm text-muted-foreground px-2">
+                    Page {currentPage} of {totalPages}
+                  </span>
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => handlePageChange(currentPage + 1)}
-                    disabled={currentPage === totalPages}
+                    onClick={nextPage}
+                    disabled={!hasNextPage}
                   >
                     <ChevronRight className="h-4 w-4" />
                   </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handlePageChange(totalPages)}
-                    disabled={currentPage === totalPages}
-                  >
-                    <ChevronsRight className="h-4 w-4" />
-                  </Button>
                 </div>
               </div>
             </CardContent>
@@ -1036,7 +1079,51 @@ const AdminDashboard = () => {
             </Card>
           </div>
         </TabsContent>
+
+        {can(currentUser, 'staff:view') && <TabsContent value="staff" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Staff Workload</CardTitle>
+              <CardDescription>
+                Open issues assigned to each staff member, by status and age
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <StaffWorkload />
+            </CardContent>
+          </Card>
+        </TabsContent>}
+
+        {can(currentUser, 'wards:manage') && <TabsContent value="wards" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Wards</CardTitle>
+              <CardDescription>
+                Ward boundaries issues are zoned into, and how many issues each holds
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WardManager />
+            </CardContent>
+          </Card>
+        </TabsContent>}
       </Tabs>
+
+      <MergeIssuesDialog
+        open={isMergeOpen}
+        onOpenChange={setIsMergeOpen}
+        issues={mergeIssues}
+        onMerged={() => setMergeSelection(new Map())}
+      />
+
+      {pendingStatusChange && (
+        <ManageIssueDialog
+          open
+          onOpenChange={(open) => !open && setPendingStatusChange(null)}
+          issue={pendingStatusChange.report}
+          initialStatus={pendingStatusChange.status}
+        />
+      )}
     </div>
   );
 };
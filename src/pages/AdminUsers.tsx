@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { UserAccountDialog } from '@/components/admin/UserAccountDialog';
+import { UserAuditTrail } from '@/components/admin/UserAuditTrail';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDebounce } from '@/hooks/use-debounce';
+import { useUsers } from '@/hooks/use-users';
+import { ACCOUNT_STATUS_LABELS, DEPARTMENT_LABELS, ROLE_LABELS } from '@/lib/permissions';
+import type { AccountStatus } from '@/lib/repository';
+import type { ManagedUser } from '@/lib/types/user';
+
+const STATUS_BADGES: Record<AccountStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  suspended: 'bg-orange-100 text-orange-800',
+  banned: 'bg-red-100 text-red-800',
+};
+
+const AdminUsers = () => {
+  const { currentUser } = useAuth();
+  const [searchTerm, setSearchTerm] = useState('');
+  const debouncedSearch = useDebounce(searchTerm);
+  const { data: users = [], isLoading, error } = useUsers(debouncedSearch.trim());
+  const [selectedUser, setSelectedUser] = useState<ManagedUser | null>(null);
+
+  return (
+    <div className="container py-12">
+      <div className="flex flex-col md:flex-row md:items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage roles, departments and account access
+          </p>
+        </div>
+        <Button variant="outline" size="sm" asChild className="mt-4 md:mt-0">
+          <Link to="/admin">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Admin Dashboard
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-3">
+        <div className="lg:col-span-2 bg-card border rounded-lg">
+          <div className="p-4">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search users by name..."
+                className="pl-9 w-full"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <p className="text-sm text-muted-foreground p-4">Users could not be loaded.</p>
+          ) : users.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-4">No users match your search.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Reports</TableHead>
+                  <TableHead>Last active</TableHead>
+                  <TableHead className="w-[1%]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Avatar className="h-7 w-7">
+                          <AvatarImage src={user.avatarUrl} />
+                          <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
+                        </Avatar>
+                        <span className="font-medium">{user.name}</span>
+                        {user.id === currentUser?.id && <span className="text-xs text-muted-foreground">(you)</span>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {ROLE_LABELS[user.role]}
+                      {user.department && (
+                        <span className="block text-xs text-muted-foreground">{DEPARTMENT_LABELS[user.department]}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={STATUS_BADGES[user.status]}>
+                        {ACCOUNT_STATUS_LABELS[user.status]}
+                      </Badge>
+                      {user.suspendedUntil && (
+                        <span className="block text-xs text-muted-foreground">
+                          until {format(new Date(user.suspendedUntil), 'PP')}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{user.reportCount}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {user.lastActiveAt
+                        ? formatDistanceToNow(new Date(user.lastActiveAt), { addSuffix: true })
+                        : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => setSelectedUser(user)}>
+                        Manage
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Audit Trail</CardTitle>
+            <CardDescription>Recent changes to user accounts</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <UserAuditTrail />
+          </CardContent>
+        </Card>
+      </div>
+
+      <UserAccountDialog
+        open={!!selectedUser}
+        onOpenChange={(open) => !open && setSelectedUser(null)}
+        user={selectedUser}
+      />
+    </div>
+  );
+};
+
+export default AdminUsers;
@@ -1,49 +1,61 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import ReportList from '@/components/ReportList';
+import PendingReports from '@/components/PendingReports';
 import { useAuth } from '@/contexts/AuthContext';
-import { useReports } from '@/contexts/ReportContext';
+import type { ReportStatus } from '@/contexts/ReportContext';
+import { useInfiniteIssues, useIssueCount } from '@/hooks/use-issues';
+import type { IssueFilter } from '@/lib/types/issue';
 import { MapPin, AlertTriangle, CheckCircle2, Clock, Map } from 'lucide-react';
 
+const PENDING_STATUSES: ReportStatus[] = ['reported', 'under_review'];
+const ACTIVE_STATUSES: ReportStatus[] = ['in_progress'];
+const RESOLVED_STATUSES: ReportStatus[] = ['resolved', 'closed'];
+const PAGE_SIZE = 9;
+
+interface UserReportListProps {
+  filter: IssueFilter;
+  emptyMessage: string;
+}
+
+const UserReportList: React.FC<UserReportListProps> = ({ filter, emptyMessage }) => {
+  const { issues, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteIssues(filter, undefined, PAGE_SIZE);
+
+  return (
+    <ReportList 
+      reports={issues} 
+      title="" 
+      emptyMessage={emptyMessage}
+      hasMore={hasNextPage}
+      isLoadingMore={isFetchingNextPage}
+      onLoadMore={() => fetchNextPage()}
+    />
+  );
+};
+
 const Dashboard = () => {
   const { currentUser } = useAuth();
-  const { reports } = useReports();
   const [activeTab, setActiveTab] = useState('my-reports');
+  const userId = currentUser?.id;
+
+  // Filters for the current user's reports, by status
+  const filters = useMemo(() => ({
+    all: { reportedBy: userId },
+    pending: { reportedBy: userId, status: PENDING_STATUSES },
+    active: { reportedBy: userId, status: ACTIVE_STATUSES },
+    resolved: { reportedBy: userId, status: RESOLVED_STATUSES },
+    supported: { supportedBy: userId },
+    following: { followedBy: userId },
+  }), [userId]);
+
+  const pendingCount = useIssueCount(filters.pending, { enabled: !!userId });
+  const activeCount = useIssueCount(filters.active, { enabled: !!userId });
+  const resolvedCount = useIssueCount(filters.resolved, { enabled: !!userId });
   
-  if (!currentUser) {
-    return (
-      <div className="container py-16 flex flex-col items-center">
-        <AlertTriangle className="h-16 w-16 text-muted-foreground mb-6" />
-        <h1 className="text-2xl font-bold mb-3">Authentication Required</h1>
-        <p className="text-muted-foreground mb-6">
-          Please log in to access your dashboard.
-        </p>
-        <Button asChild>
-          <Link to="/login">Log In</Link>
-        </Button>
-      </div>
-    );
-  }
-  
-  // Filter reports for the current user
-  const userReports = reports.filter(report => report.reportedBy.id === currentUser.id);
-  
-  // Get reports by status
-  const pendingReports = userReports.filter(report => 
-    report.status === 'reported' || report.status === 'under_review'
-  );
-  
-  const activeReports = userReports.filter(report => 
-    report.status === 'in_progress'
-  );
   
-  const resolvedReports = userReports.filter(report => 
-    report.status === 'resolved' || report.status === 'closed'
-  );
-
   return (
     <div className="container py-12">
       <div className="flex flex-col md:flex-row items-start md:items-center justify-between mb-8">
@@ -68,9 +80,9 @@ const Dashboard = () => {
             <AlertTriangle className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{pendingReports.length}</div>
+            <div className="text-2xl font-bold">{pendingCount}</div>
             <p className="text-xs text-muted-foreground">
-              {pendingReports.length === 1 ? 'Issue' : 'Issues'} awaiting review
+              {pendingCount === 1 ? 'Issue' : 'Issues'} awaiting review
             </p>
           </CardContent>
         </Card>
@@ -80,9 +92,9 @@ const Dashboard = () => {
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{activeReports.length}</div>
+            <div className="text-2xl font-bold">{activeCount}</div>
             <p className="text-xs text-muted-foreground">
-              {activeReports.length === 1 ? 'Issue' : 'Issues'} being addressed
+              {activeCount === 1 ? 'Issue' : 'Issues'} being addressed
             </p>
           </CardContent>
         </Card>
@@ -92,14 +104,16 @@ const Dashboard = () => {
             <CheckCircle2 className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{resolvedReports.length}</div>
+            <div className="text-2xl font-bold">{resolvedCount}</div>
             <p className="text-xs text-muted-foreground">
-              {resolvedReports.length === 1 ? 'Issue' : 'Issues'} successfully resolved
+              {resolvedCount === 1 ? 'Issue' : 'Issues'} successfully resolved
             </p>
           </CardContent>
         </Card>
       </div>
       
+      <PendingReports userId={currentUser.id} />
+      
       <Card className="mb-8">
         <CardHeader>
           <CardTitle>Recent Activity</CardTitle>
@@ -114,36 +128,46 @@ const Dashboard = () => {
               <TabsTrigger value="pending">Pending</TabsTrigger>
               <TabsTrigger value="active">In Progress</TabsTrigger>
               <TabsTrigger value="resolved">Resolved</TabsTrigger>
+              <TabsTrigger value="supported">Issues I've Supported</TabsTrigger>
+              <TabsTrigger value="following">Following</TabsTrigger>
             </TabsList>
             <div className="mt-6">
               <TabsContent value="my-reports">
-                <ReportList 
-                  reports={userReports} 
-                  title="" 
+                <UserReportList 
+                  filter={filters.all} 
                   emptyMessage="You haven't reported any issues yet."
                 />
               </TabsContent>
               <TabsContent value="pending">
-                <ReportList 
-                  reports={pendingReports} 
-                  title="" 
+                <UserReportList 
+                  filter={filters.pending} 
                   emptyMessage="No pending reports."
                 />
               </TabsContent>
               <TabsContent value="active">
-                <ReportList 
-                  reports={activeReports} 
-                  title="" 
+                <UserReportList 
+                  filter={filters.active} 
                   emptyMessage="No reports are currently being addressed."
                 />
               </TabsContent>
               <TabsContent value="resolved">
-                <ReportList 
-                  reports={resolvedReports} 
-                  title="" 
+                <UserReportList 
+                  filter={filters.resolved} 
                   emptyMessage="No resolved reports yet."
                 />
               </TabsContent>
+              <TabsContent value="supported">
+                <UserReportList 
+                  filter={filters.supported} 
+                  emptyMessage="You haven't upvoted any issues yet."
+                />
+              </TabsContent>
+              <TabsContent value="following">
+                <UserReportList 
+                  filter={filters.following} 
+                  emptyMessage="You aren't following any issues yet."
+                />
+              </TabsContent>
             </div>
           </Tabs>
         </CardContent>
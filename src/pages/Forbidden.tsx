@@ -0,0 +1,29 @@
+import { Link, useLocation } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+const Forbidden = () => {
+  const location = useLocation();
+
+  return (
+    <div className="container py-16 flex flex-col items-center text-center">
+      <ShieldAlert className="h-16 w-16 text-muted-foreground mb-6" />
+      <p className="text-sm font-medium text-muted-foreground mb-2">403</p>
+      <h1 className="text-2xl font-bold mb-3">Access Denied</h1>
+      <p className="text-muted-foreground mb-6 max-w-md">
+        Your account doesn't have access to <code className="text-sm">{location.pathname}</code>.
+        If you think it should, ask an administrator to check your role.
+      </p>
+      <div className="flex gap-2">
+        <Button asChild>
+          <Link to="/">Return to Home</Link>
+        </Button>
+        <Button variant="outline" asChild>
+          <Link to="/dashboard">Your Dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default Forbidden;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, Navigate, useLocation } from 'react-router-dom';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
@@ -10,6 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '
 import { MapPin, Eye, EyeOff } from 'lucide-react';
 import { toast } from '@/components/ui/use-toast';
 import { signIn } from '@/lib/auth';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ReturnToState } from '@/components/RouteGuard';
 
 const loginSchema = z.object({
   email: z.string().email({ message: "Invalid email address" }),
@@ -19,7 +21,8 @@ const loginSchema = z.object({
 type LoginFormValues = z.infer<typeof loginSchema>;
 
 const Login = () => {
-  const navigate = useNavigate();
+  const location = useLocation();
+  const { isAuthenticated } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
@@ -39,12 +42,11 @@ const Login = () => {
         title: "Login Successful",
         description: "Welcome back to Urban Reporter!",
       });
-      navigate('/dashboard');
     } catch (error) {
       console.error('Login error:', error);
       toast({
         title: "Login Failed",
-        description: "Please check your credentials and try again.",
+        description: error instanceof Error ? error.message : "Please check your credentials and try again.",
         variant: "destructive",
       });
     } finally {
@@ -52,6 +54,16 @@ const Login = () => {
     }
   };
 
+  // Sent here by a route guard: go back to the page that needed a login.
+  // Redirecting once the profile has loaded, rather than straight after
+  // signIn, means the guard sees the signed-in user.
+  const from = (location.state as ReturnToState | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search ?? ''}${from.hash ?? ''}` : '/dashboard';
+
+  if (isAuthenticated) {
+    return <Navigate to={returnTo} replace />;
+  }
+
   return (
     <div className="container max-w-md py-12">
       <div className="flex justify-center mb-6">
@@ -127,7 +139,7 @@ const Login = () => {
         <CardFooter className="flex flex-col space-y-4">
           <div className="text-center text-sm text-muted-foreground">
             <span>Don't have an account? </span>
-            <Link to="/register" className="text-urban-600 hover:text-urban-800 font-medium">
+            <Link to="/register" state={location.state} className="text-urban-600 hover:text-urban-800 font-medium">
               Register
             </Link>
           </div>
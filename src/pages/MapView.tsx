@@ -1,26 +1,57 @@
-import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useReports, Report } from '@/contexts/ReportContext';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import type { Report } from '@/contexts/ReportContext';
+import { useInfiniteIssues, useIssuePoints } from '@/hooks/use-issues';
+import type { IssueFilter } from '@/lib/types/issue';
+import type { ClusterColorBy } from '@/lib/clusters';
+import type { HeatmapWeight } from '@/lib/heatmap';
+import { useWards } from '@/hooks/use-wards';
+import { decodeMapArea, encodeMapArea, type MapArea } from '@/lib/areas';
 import { formatDistanceToNow } from 'date-fns';
-import { MapPin, Filter, AlertTriangle, Loader2 } from 'lucide-react';
+import { MapPin, Filter, AlertTriangle, Loader2, Link2, X } from 'lucide-react';
 import OpenStreetMap from '@/components/OpenStreetMap';
 import MapSearch from '@/components/MapSearch';
 import { useToast } from '@/components/ui/use-toast';
 import { cn } from '@/lib/utils';
 
+const MAP_PAGE_SIZE = 100;
+
 const MapView = () => {
-  const { reports, isLoading } = useReports();
   const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [filteredReports, setFilteredReports] = useState<Report[]>(reports);
+  const [filter, setFilter] = useState<IssueFilter>({});
+  const [hasSearched, setHasSearched] = useState(false);
+  const [clusterColorBy, setClusterColorBy] = useState<ClusterColorBy>('status');
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapWeightBy, setHeatmapWeightBy] = useState<HeatmapWeight>('none');
+  const [showWards, setShowWards] = useState(false);
+  const { data: wards = [] } = useWards();
+  // The drawn area lives in the URL so the view can be shared as a link
+  const [searchParams, setSearchParams] = useSearchParams();
+  const areaParam = searchParams.get('area');
+  const area = useMemo(() => decodeMapArea(areaParam), [areaParam]);
+  const query = useMemo<IssueFilter>(() => ({ ...filter, area: area ?? undefined }), [filter, area]);
+  const {
+    issues: filteredReports,
+    total,
+    hasNextPage,
+    fetchNextPage,
+    isFetchingNextPage,
+    isLoading,
+  } = useInfiniteIssues(query, undefined, MAP_PAGE_SIZE);
+  // The list pages through the issues; the markers and heatmap need all of them
+  const { data: points } = useIssuePoints(query);
   const [isMapLoading, setIsMapLoading] = useState(true);
   const navigate = useNavigate();
   const { toast } = useToast();
 
   const selectedReport = selectedId 
-    ? reports.find(report => report.id === selectedId)
+    ? filteredReports.find(report => report.id === selectedId)
     : null;
   
   const handleReportSelect = (reportId: string) => {
@@ -28,15 +59,44 @@ const MapView = () => {
     navigate(`/issue/${reportId}`);
   };
   
-  const handleSearch = (searchResults: Report[]) => {
-    setFilteredReports(searchResults);
-    if (searchResults.length === 0) {
+  const handleSearch = (searchFilter: IssueFilter) => {
+    setFilter(searchFilter);
+    setHasSearched(true);
+  };
+
+  const handleAreaChange = useCallback((next: MapArea | null) => {
+    setSearchParams(params => {
+      if (next) params.set('area', encodeMapArea(next));
+      else params.delete('area');
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link Copied",
+        description: "Anyone with the link sees the issues in this area.",
+      });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy the link. Copy it from the address bar instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (hasSearched && !isLoading && total === 0) {
       toast({
         title: "No results found",
         description: "Try adjusting your search criteria.",
       });
     }
-  };
+  }, [hasSearched, isLoading, total, toast]);
 
   const getStatusColor = (status: Report['status']) => {
     const colors: Record<string, string> = {
@@ -58,6 +118,39 @@ const MapView = () => {
             Explore reported issues in your community
           </p>
         </div>
+        <div className="flex flex-wrap items-center gap-3 mt-4 md:mt-0">
+          {wards.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Switch id="show-wards" checked={showWards} onCheckedChange={setShowWards} />
+              <Label htmlFor="show-wards">Wards</Label>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id="show-heatmap" checked={showHeatmap} onCheckedChange={setShowHeatmap} />
+            <Label htmlFor="show-heatmap">Heatmap</Label>
+          </div>
+          {showHeatmap && (
+            <Select value={heatmapWeightBy} onValueChange={(value) => setHeatmapWeightBy(value as HeatmapWeight)}>
+              <SelectTrigger className="w-[180px]" aria-label="Weight heatmap by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Count every issue</SelectItem>
+                <SelectItem value="severity">Weight by severity</SelectItem>
+                <SelectItem value="upvotes">Weight by upvotes</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Select value={clusterColorBy} onValueChange={(value) => setClusterColorBy(value as ClusterColorBy)}>
+            <SelectTrigger className="w-[180px]" aria-label="Colour clusters by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="status">Colour by status</SelectItem>
+              <SelectItem value="severity">Colour by severity</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -82,8 +175,14 @@ const MapView = () => {
           )}
           <div className="w-full h-full min-h-[600px] relative">
             <OpenStreetMap 
-              reports={filteredReports}
+              points={points ?? filteredReports}
               height="600px"
+              clusterColorBy={clusterColorBy}
+              showHeatmap={showHeatmap}
+              heatmapWeightBy={heatmapWeightBy}
+              wards={showWards ? wards : undefined}
+              area={area}
+              onAreaChange={handleAreaChange}
               onLoad={() => setIsMapLoading(false)}
             />
           </div>
@@ -151,7 +250,26 @@ const MapView = () => {
           ) : (
             <Card className="h-[600px] overflow-y-auto">
               <CardContent className="p-4">
-                <h3 className="font-semibold mb-4">All Reports</h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-semibold">{area ? 'Reports in Area' : 'All Reports'}</h3>
+                  {total > 0 && (
+                    <span className="text-xs text-muted-foreground">
+                      Showing {filteredReports.length} of {total}
+                    </span>
+                  )}
+                </div>
+                {area && (
+                  <div className="flex items-center gap-2 mb-4">
+                    <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                      <Link2 className="mr-2 h-4 w-4" />
+                      Copy link
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleAreaChange(null)}>
+                      <X className="mr-2 h-4 w-4" />
+                      Clear area
+                    </Button>
+                  </div>
+                )}
                 {filteredReports.length === 0 ? (
                   <div className="flex flex-col items-center justify-center h-[500px] text-center">
                     <MapPin className="h-12 w-12 text-muted-foreground opacity-50 mb-4" aria-hidden="true" />
@@ -195,6 +313,17 @@ const MapView = () => {
                         </div>
                       </div>
                     ))}
+                    {hasNextPage && (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => fetchNextPage()}
+                        disabled={isFetchingNextPage}
+                      >
+                        {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Load more
+                      </Button>
+                    )}
                   </div>
                 )}
               </CardContent>
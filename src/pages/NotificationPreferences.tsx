@@ -0,0 +1,241 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotificationPreferences, useSaveNotificationPreferences } from '@/hooks/use-notifications';
+import { ISSUE_CATEGORIES, type IssueCategory } from '@/lib/types/issue';
+import {
+  CONFIGURABLE_NOTIFICATION_TYPES,
+  DIGEST_FREQUENCIES,
+  NOTIFICATION_CHANNELS,
+  type ConfigurableNotificationType,
+  type DigestFrequency,
+  type NotificationChannel,
+  type NotificationPreferences as Preferences,
+} from '@/lib/types/notification';
+
+const TYPE_LABELS: Record<ConfigurableNotificationType, string> = {
+  new_report: 'New reports',
+  status_change: 'Status changes',
+  comment: 'Comments and replies',
+  mention: 'Mentions',
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  email: 'Email',
+};
+
+const DIGEST_LABELS: Record<DigestFrequency, string> = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+const formatLabel = (value: string) => value.replace(/_/g, ' ');
+
+const withChannel = (channels: NotificationChannel[], channel: NotificationChannel, on: boolean) =>
+  NOTIFICATION_CHANNELS.filter(c => (c === channel ? on : channels.includes(c)));
+
+const NotificationPreferences = () => {
+  const { currentUser } = useAuth();
+  const { data: saved, isLoading } = useNotificationPreferences(currentUser?.id, currentUser?.email);
+  const savePreferences = useSaveNotificationPreferences();
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [type, setType] = useState<ConfigurableNotificationType>('status_change');
+
+  // Edit a copy so a refetch doesn't throw away unsaved changes
+  useEffect(() => {
+    if (saved && !preferences) setPreferences(saved);
+  }, [saved, preferences]);
+
+  if (isLoading || !preferences) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const setChannel = (categories: readonly IssueCategory[], channel: NotificationChannel, on: boolean) => {
+    setPreferences(current => current && {
+      ...current,
+      channels: Object.fromEntries(
+        ISSUE_CATEGORIES.map(category => [
+          category,
+          categories.includes(category)
+            ? { ...current.channels[category], [type]: withChannel(current.channels[category][type], channel, on) }
+            : current.channels[category],
+        ])
+      ) as Preferences['channels'],
+    });
+  };
+
+  // Checked when every category has the channel, indeterminate when some do
+  const allState = (channel: NotificationChannel) => {
+    const count = ISSUE_CATEGORIES.filter(category => preferences.channels[category][type].includes(channel)).length;
+    if (count === ISSUE_CATEGORIES.length) return true;
+    return count > 0 ? 'indeterminate' : false;
+  };
+
+  const emailMissing = !preferences.email?.trim() && (
+    preferences.digest !== 'off' ||
+    ISSUE_CATEGORIES.some(category =>
+      CONFIGURABLE_NOTIFICATION_TYPES.some(t => preferences.channels[category][t].includes('email'))
+    )
+  );
+
+  const handleSave = async () => {
+    if (!currentUser) return;
+    try {
+      await savePreferences.mutateAsync({ userId: currentUser.id, preferences });
+      toast({
+        title: "Preferences Saved",
+        description: "Your notification preferences have been updated.",
+      });
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save your preferences. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="container max-w-3xl py-12">
+      <Button variant="ghost" size="sm" asChild className="mb-4">
+        <Link to="/profile">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to profile
+        </Link>
+      </Button>
+      <h1 className="text-3xl font-bold mb-8">Notification Preferences</h1>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Notifications</CardTitle>
+            <CardDescription>
+              Choose where each kind of notification reaches you, per issue category.
+              Uncheck both to stop getting it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2 sm:w-64">
+              <Label htmlFor="notification-type">Notification</Label>
+              <Select value={type} onValueChange={(value) => setType(value as ConfigurableNotificationType)}>
+                <SelectTrigger id="notification-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONFIGURABLE_NOTIFICATION_TYPES.map(value => (
+                    <SelectItem key={value} value={value}>{TYPE_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <TableHead key={channel} className="text-center w-24">{CHANNEL_LABELS[channel]}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="bg-muted/50">
+                  <TableCell className="font-medium">All categories</TableCell>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <TableCell key={channel} className="text-center">
+                      <Checkbox
+                        checked={allState(channel)}
+                        onCheckedChange={(checked) => setChannel(ISSUE_CATEGORIES, channel, checked === true)}
+                        aria-label={`${CHANNEL_LABELS[channel]} for all categories`}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+                {ISSUE_CATEGORIES.map(category => (
+                  <TableRow key={category}>
+                    <TableCell className="capitalize">{formatLabel(category)}</TableCell>
+                    {NOTIFICATION_CHANNELS.map(channel => (
+                      <TableCell key={channel} className="text-center">
+                        <Checkbox
+                          checked={preferences.channels[category][type].includes(channel)}
+                          onCheckedChange={(checked) => setChannel([category], channel, checked === true)}
+                          aria-label={`${CHANNEL_LABELS[channel]} for ${formatLabel(category)}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email</CardTitle>
+            <CardDescription>
+              The digest sums up what changed on the issues you follow, reported or are assigned to.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="notification-email">Send to</Label>
+              <Input
+                id="notification-email"
+                type="email"
+                value={preferences.email ?? ''}
+                readOnly
+                disabled
+              />
+              {emailMissing ? (
+                <p className="text-sm text-destructive">Confirm your account's email address to get emails.</p>
+              ) : (
+                <p className="text-sm text-muted-foreground">Emails only go to your account's confirmed address.</p>
+              )}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="digest">Digest</Label>
+              <Select
+                value={preferences.digest}
+                onValueChange={(value) => setPreferences({ ...preferences, digest: value as DigestFrequency })}
+              >
+                <SelectTrigger id="digest">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIGEST_FREQUENCIES.map(value => (
+                    <SelectItem key={value} value={value}>{DIGEST_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={savePreferences.isPending || emailMissing}>
+            {savePreferences.isPending ? "Saving..." : "Save Preferences"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationPreferences;
@@ -1,9 +1,9 @@
 
 import React, { useState } from 'react';
-import { Navigate } from 'react-router-dom';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,6 +11,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/components/ui/use-toast';
+import { DEPARTMENT_LABELS, ROLE_LABELS } from '@/lib/permissions';
 
 const profileSchema = z.object({
   name: z.string().min(2, { message: "Name must be at least 2 characters" }),
@@ -21,7 +22,7 @@ const profileSchema = z.object({
 type ProfileFormValues = z.infer<typeof profileSchema>;
 
 const Profile = () => {
-  const { currentUser, isAuthenticated, updateProfile, logout } = useAuth();
+  const { currentUser, updateProfile, logout } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
 
   const form = useForm<ProfileFormValues>({
@@ -59,10 +60,6 @@ const Profile = () => {
     }
   };
 
-  if (!isAuthenticated || !currentUser) {
-    return <Navigate to="/login" replace />;
-  }
-
   return (
     <div className="container max-w-2xl py-12">
       <h1 className="text-3xl font-bold mb-8">Your Profile</h1>
@@ -76,7 +73,7 @@ const Profile = () => {
             </Avatar>
           </div>
           <CardTitle className="text-center">{currentUser.name}</CardTitle>
-          <CardDescription className="text-center">{currentUser.role.charAt(0).toUpperCase() + currentUser.role.slice(1)}</CardDescription>
+          <CardDescription className="text-center">{ROLE_LABELS[currentUser.role]}{currentUser.department && ` · ${DEPARTMENT_LABELS[currentUser.department]}`}</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
@@ -132,7 +129,10 @@ const Profile = () => {
             </form>
           </Form>
         </CardContent>
-        <CardFooter className="flex justify-end">
+        <CardFooter className="flex justify-between">
+          <Button variant="link" className="px-0" asChild>
+            <Link to="/profile/notifications">Notification preferences</Link>
+          </Button>
           <Button variant="outline" onClick={logout}>Sign Out</Button>
         </CardFooter>
       </Card>
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
@@ -25,6 +25,7 @@ type RegisterFormValues = z.infer<typeof registerSchema>;
 
 const Register = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
@@ -51,7 +52,7 @@ const Register = () => {
         title: "Registration Successful",
         description: "Please check your email to verify your account.",
       });
-      navigate('/login');
+      navigate('/login', { state: location.state });
     } catch (error) {
       console.error('Registration error:', error);
       toast({
@@ -187,7 +188,7 @@ const Register = () => {
         <CardFooter className="flex flex-col space-y-4">
           <div className="text-center text-sm text-muted-foreground">
             <span>Already have an account? </span>
-            <Link to="/login" className="text-urban-600 hover:text-urban-800 font-medium">
+            <Link to="/login" state={location.state} className="text-urban-600 hover:text-urban-800 font-medium">
               Login
             </Link>
           </div>
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Navigate, useNavigate } from 'react-router-dom';
+import { useNavigate } from 'react-router-dom';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
@@ -18,11 +18,16 @@ import {
 } from "@/components/ui/select";
 
 import { useAuth } from '@/contexts/AuthContext';
-import { useReports, ReportCategory, ReportSeverity, ReportStatus } from '@/contexts/ReportContext';
+import { useReports, type ReportCategory, type ReportSeverity } from '@/contexts/ReportContext';
+import { useDuplicateReports } from '@/hooks/use-issues';
+import { submitReport } from '@/lib/outbox';
 import { toast } from '@/components/ui/use-toast';
 import { AlertCircle, Loader2 } from 'lucide-react';
 import LocationPicker from '@/components/LocationPicker';
+import { ISSUE_WORKFLOW } from '@/lib/workflow';
 import { PhotoUpload } from '@/components/PhotoUpload';
+import DuplicateReports from '@/components/DuplicateReports';
+import { ISSUE_CATEGORIES, type Issue } from '@/lib/types/issue';
 
 const reportSchema = z.object({
   title: z.string().min(5, { message: "Title must be at least 5 characters" }),
@@ -36,8 +41,8 @@ const reportSchema = z.object({
 type ReportFormValues = z.infer<typeof reportSchema>;
 
 const ReportIssue = () => {
-  const { currentUser, isAuthenticated } = useAuth();
-  const { addReport } = useReports();
+  const { currentUser } = useAuth();
+  const { upvoteReport, followReport } = useReports();
   const navigate = useNavigate();
   const [isLoading, setIsLoading] = useState(false);
   const [coordinates, setCoordinates] = useState<{lat: number, lng: number}>({
@@ -45,6 +50,8 @@ const ReportIssue = () => {
     lng: -74.0060
   });
   const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const [hasLocation, setHasLocation] = useState(false);
+  const [notDuplicate, setNotDuplicate] = useState(false);
   
   const form = useForm<ReportFormValues>({
     resolver: zodResolver(reportSchema),
@@ -58,9 +65,38 @@ const ReportIssue = () => {
     },
   });
 
+  const title = form.watch('title');
+  const category = form.watch('category') as ReportCategory;
+  const { duplicates } = useDuplicateReports(hasLocation ? { title, category, coordinates } : null);
+  const mayBeDuplicate = duplicates.length > 0 && !notDuplicate;
+
   const handleLocationSelect = (address: string, lat: number, lng: number) => {
     form.setValue('address', address);
     setCoordinates({ lat, lng });
+    setHasLocation(true);
+    setNotDuplicate(false);
+  };
+
+  // Upvoting also follows the issue, so the user hears about it as they would
+  // have about their own report
+  const handleUpvoteDuplicate = async (issue: Issue) => {
+    if (!currentUser) return;
+    try {
+      await upvoteReport(issue.id, currentUser.id);
+      await followReport(issue.id, currentUser.id);
+      toast({
+        title: "Upvoted instead",
+        description: "Thanks! You'll be told when this issue's status changes.",
+      });
+      navigate(`/issue/${issue.id}`);
+    } catch (error) {
+      console.error('Error upvoting existing issue:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upvote. Please try again.",
+        variant: "destructive",
+      });
+    }
   };
 
   const onSubmit = async (data: ReportFormValues) => {
@@ -72,19 +108,22 @@ const ReportIssue = () => {
       });
       return;
     }
+    if (mayBeDuplicate) return;
 
     setIsLoading(true);
 
     try {
-      // Wait for images to be uploaded before submitting the report
-      if (data.images && data.images.length > 0) {
+      // Photos not uploaded through the form yet are stored with the report
+      // and uploaded when it is sent
+      const photos = imageUrls.length === 0 ? data.images ?? [] : [];
+      if (photos.length > 0 && navigator.onLine) {
         toast({
           title: "Uploading images...",
           description: "Please wait while we upload your images.",
         });
       }
 
-      const newReport = await addReport({
+      const newReport = await submitReport({
         title: data.title,
         description: data.description,
         category: data.category as ReportCategory,
@@ -94,20 +133,28 @@ const ReportIssue = () => {
           coordinates: coordinates,
         },
         images: imageUrls,
-        status: 'reported' as ReportStatus,
+        status: ISSUE_WORKFLOW.initial,
         reportedBy: {
           id: currentUser.id,
           name: currentUser.name || 'Anonymous',
         },
-        upvotedBy: [],
-      });
+      }, photos);
+
+      if (!newReport) {
+        toast({
+          title: "Report saved",
+          description: "You're offline or the server couldn't be reached. We'll send it automatically once you're back online.",
+        });
+        navigate('/dashboard');
+        return;
+      }
 
       toast({
         title: "Issue reported successfully",
         description: "Thank you for helping improve our city!",
       });
 
-      navigate(`/reports/${newReport.id}`);
+      navigate(`/issue/${newReport.id}`);
     } catch (error) {
       console.error('Error submitting report:', error);
       toast({
@@ -120,10 +167,6 @@ const ReportIssue = () => {
     }
   };
 
-  if (!isAuthenticated || !currentUser) {
-    return <Navigate to="/login" replace />;
-  }
-
   return (
     <div className="container max-w-2xl py-8">
       <Card>
@@ -165,6 +208,31 @@ const ReportIssue = () => {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ISSUE_CATEGORIES.map(value => (
+                          <SelectItem key={value} value={value} className="capitalize">
+                            {value.replace(/_/g, ' ')}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="address"
@@ -182,6 +250,14 @@ const ReportIssue = () => {
                 )}
               />
               
+              <DuplicateReports
+                duplicates={duplicates}
+                currentUserId={currentUser?.id}
+                onUpvote={handleUpvoteDuplicate}
+                confirmed={notDuplicate}
+                onConfirmedChange={setNotDuplicate}
+              />
+
               <FormField
                 control={form.control}
                 name="images"
@@ -220,7 +296,7 @@ const ReportIssue = () => {
                 <Button variant="outline" onClick={() => navigate(-1)} className="flex-1">
                   Cancel
                 </Button>
-                <Button type="submit" className="flex-1" disabled={isLoading}>
+                <Button type="submit" className="flex-1" disabled={isLoading || mayBeDuplicate}>
                   {isLoading ? "Submitting..." : "Submit Report"}
                 </Button>
               </div>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useParams, Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -17,8 +17,10 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { cn } from '@/lib/utils';
+import { ISSUE_CATEGORIES, ISSUE_SEVERITIES } from '@/lib/types/issue';
+import { useIssue, useIssueComments } from '@/hooks/use-issues';
 
-import { useReports, Report, ReportComment, ReportCategory, ReportSeverity } from '@/contexts/ReportContext';
+import { useReports, Report, ReportCategory, ReportSeverity } from '@/contexts/ReportContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from '@/components/ui/use-toast';
 import { 
@@ -27,6 +29,7 @@ import {
   AlertTriangle, 
   MessageSquare, 
   ThumbsUp, 
+  Bell,
   ArrowLeft, 
   AlertCircle,
   Clock,
@@ -35,16 +38,25 @@ import {
   Edit2,
   Trash2,
   ChevronRight,
-  Loader2
+  Loader2,
+  CheckCircle2,
+  Copy,
+  GitMerge
 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import ManageIssueDialog from '@/components/ManageIssueDialog';
+import AssignIssueDialog from '@/components/AssignIssueDialog';
+import CommentThread from '@/components/CommentThread';
+import IssueTimeline from '@/components/IssueTimeline';
+import IssueMerges from '@/components/IssueMerges';
+import { availableTransitions } from '@/lib/workflow';
+import { can, issueResource } from '@/lib/permissions';
 
 const editSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().min(1, "Description is required"),
-  category: z.enum(['pothole', 'streetlight', 'garbage', 'graffiti', 'road_damage', 'flooding', 'sign_damage', 'other'] as const),
-  severity: z.enum(['low', 'medium', 'high'] as const),
+  category: z.enum(ISSUE_CATEGORIES),
+  severity: z.enum(ISSUE_SEVERITIES),
   address: z.string().min(1, "Location is required"),
   coordinates: z.object({
     lat: z.number(),
@@ -58,15 +70,14 @@ type EditFormValues = z.infer<typeof editSchema>;
 const ViewIssue = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { getReportById, updateReport, upvoteReport, addComment, deleteReport } = useReports();
+  // Set when we were sent here from a duplicate merged into this issue
+  const mergedFrom = (useLocation().state as { mergedFrom?: string } | null)?.mergedFrom;
+  const { updateReport, upvoteReport, removeUpvote, followReport, unfollowReport, deleteReport } = useReports();
   const { currentUser, isAuthenticated } = useAuth();
-  const [comment, setComment] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
-  const [report, setReport] = useState<Report | null>(null);
-  const [isLoadingReport, setIsLoadingReport] = useState(true);
   const [showManageDialog, setShowManageDialog] = useState(false);
+  const [showAssignDialog, setShowAssignDialog] = useState(false);
 
   const form = useForm<EditFormValues>({
     resolver: zodResolver(editSchema),
@@ -81,27 +92,16 @@ const ViewIssue = () => {
     }
   });
   
-  useEffect(() => {
-    const loadReport = async () => {
-      if (!id) return;
-      setIsLoadingReport(true);
-      try {
-        const loadedReport = await getReportById(id);
-        setReport(loadedReport || null);
-      } catch (error) {
-        console.error('Error loading report:', error);
-        toast({
-          title: "Error",
-          description: "Failed to load report details.",
-          variant: "destructive"
-        });
-      } finally {
-        setIsLoadingReport(false);
-      }
-    };
+  // Both queries stay live through realtime updates
+  const { data: issue, isLoading: isLoadingReport, error: reportError } = useIssue(id);
+  const { data: comments = [] } = useIssueComments(id);
+  const report: Report | null = issue ? { ...issue, comments } : null;
 
-    loadReport();
-  }, [id, getReportById]);
+  useEffect(() => {
+    if (reportError) {
+      console.error('Error loading report:', reportError);
+    }
+  }, [reportError]);
   
   if (isLoadingReport) {
     return (
@@ -130,14 +130,24 @@ const ViewIssue = () => {
     );
   }
 
-  const hasUpvoted = currentUser ? (report.upvotedBy || []).includes(currentUser.id) : false;
-  const isOwner = isAuthenticated && currentUser && report.reportedBy?.id === currentUser.id;
+  const canMerge = can(currentUser, 'issue:merge');
+
+  // Duplicates live on in their primary; only those who can undo the merge
+  // still see them
+  if (report.duplicateOf && !canMerge) {
+    return <Navigate to={`/issue/${report.duplicateOf}`} replace state={{ mergedFrom: report.title }} />;
+  }
 
-  const validCategories = [
-    'pothole', 'streetlight', 'garbage', 'graffiti', 'road_damage', 'flooding', 'sign_damage', 'other'
-  ];
+  const hasUpvoted = currentUser ? (report.upvotedBy || []).includes(currentUser.id) : false;
+  const hasFollowed = currentUser ? (report.followedBy || []).includes(currentUser.id) : false;
+  const resource = issueResource(report);
+  const canEdit = can(currentUser, 'issue:update', resource);
+  const canDelete = can(currentUser, 'issue:delete', resource);
+  const canAssign = can(currentUser, 'issue:assign', resource);
+  const transitions = availableTransitions(report, currentUser);
+  const isStaff = can(currentUser, 'dashboard:view');
 
-  const handleUpvote = () => {
+  const handleUpvote = async () => {
     if (!isAuthenticated || !currentUser) {
       toast({
         title: "Authentication required",
@@ -147,55 +157,61 @@ const ViewIssue = () => {
       return;
     }
     
-    if (hasUpvoted) {
+    try {
+      if (hasUpvoted) {
+        await removeUpvote(report.id, currentUser.id);
+        toast({
+          title: "Upvote removed",
+          description: "Your upvote has been withdrawn."
+        });
+      } else {
+        await upvoteReport(report.id, currentUser.id);
+        toast({
+          title: "Report upvoted",
+          description: "Thank you for your feedback!"
+        });
+      }
+    } catch (error) {
+      console.error('Error updating upvote:', error);
       toast({
-        title: "Already upvoted",
-        description: "You have already upvoted this report",
+        title: "Error",
+        description: "Failed to update your upvote. Please try again.",
         variant: "destructive"
       });
-      return;
     }
-    
-    upvoteReport(report.id, currentUser.id);
-    toast({
-      title: "Report upvoted",
-      description: "Thank you for your feedback!"
-    });
   };
 
-  const handleCommentSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!isAuthenticated || !currentUser || !comment.trim()) {
+  const handleFollow = async () => {
+    if (!isAuthenticated || !currentUser) {
+      toast({
+        title: "Authentication required",
+        description: "Please sign in to follow reports",
+        variant: "destructive"
+      });
       return;
     }
-    
-    setIsLoading(true);
-    
+
     try {
-      await addComment(report.id, {
-        text: comment.trim(),
-        user: {
-          id: currentUser.id,
-          name: currentUser.name,
-          role: currentUser.role,
-        },
-      });
-      
-      setComment('');
-      toast({
-        title: "Comment Added",
-        description: "Your comment has been added to the report."
-      });
+      if (hasFollowed) {
+        await unfollowReport(report.id, currentUser.id);
+        toast({
+          title: "Unfollowed",
+          description: "You'll no longer hear about changes to this issue."
+        });
+      } else {
+        await followReport(report.id, currentUser.id);
+        toast({
+          title: "Following",
+          description: "You'll be told when this issue's status changes."
+        });
+      }
     } catch (error) {
-      console.error('Error adding comment:', error);
+      console.error('Error updating follow:', error);
       toast({
         title: "Error",
-        description: "There was a problem adding your comment.",
+        description: error instanceof Error ? error.message : "Failed to update your follow. Please try again.",
         variant: "destructive"
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
@@ -203,13 +219,22 @@ const ViewIssue = () => {
     setShowDeleteDialog(true);
   };
 
-  const confirmDelete = () => {
-    deleteReport(report.id);
-    toast({
-      title: 'Issue Deleted',
-      description: 'Your issue has been deleted.',
-    });
+  const confirmDelete = async () => {
     navigate('/dashboard');
+    try {
+      await deleteReport(report.id);
+      toast({
+        title: 'Issue Deleted',
+        description: 'Your issue has been deleted.',
+      });
+    } catch (error) {
+      console.error('Error deleting report:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete the issue. It has been restored.',
+        variant: 'destructive'
+      });
+    }
   };
 
   const handleEdit = () => {
@@ -224,7 +249,7 @@ const ViewIssue = () => {
     form.reset({
       title: report.title,
       description: report.description,
-      category: validCategories.includes(report.category) ? report.category : 'pothole',
+      category: report.category,
       severity: report.severity,
       address: report.location.address,
       coordinates: {
@@ -250,7 +275,9 @@ const ViewIssue = () => {
             lng: data.coordinates.lng,
           },
         },
-        images: data.imageUrl ? [data.imageUrl] : []
+        // The form edits the first photo only; the rest, e.g. from merged
+        // duplicates, are kept
+        images: [...(data.imageUrl ? [data.imageUrl] : []), ...report.images.slice(1)]
       });
       
       toast({
@@ -293,6 +320,8 @@ const ViewIssue = () => {
         return 'bg-yellow-100 text-yellow-800';
       case 'high':
         return 'bg-red-100 text-red-800';
+      case 'critical':
+        return 'bg-red-200 text-red-900';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -314,30 +343,56 @@ const ViewIssue = () => {
           <ArrowLeft className="h-4 w-4 mr-2" />
           Back to Issues
         </Button>
-        {isOwner && (
+        {(canEdit || canDelete) && (
           <div className="flex gap-2">
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={handleEdit}
-              className="flex items-center gap-2"
-            >
-              <Edit2 className="h-4 w-4" />
-              Edit Issue
-            </Button>
-            <Button 
-              variant="destructive" 
-              size="sm" 
-              onClick={handleDelete}
-              className="flex items-center gap-2"
-            >
-              <Trash2 className="h-4 w-4" />
-              Delete
-            </Button>
+            {canEdit && (
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={handleEdit}
+                className="flex items-center gap-2"
+              >
+                <Edit2 className="h-4 w-4" />
+                Edit Issue
+              </Button>
+            )}
+            {canDelete && (
+              <Button 
+                variant="destructive" 
+                size="sm" 
+                onClick={handleDelete}
+                className="flex items-center gap-2"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            )}
           </div>
         )}
       </div>
       
+      {(report.duplicateOf || mergedFrom) && (
+        <div className="mb-6 flex items-start gap-3 rounded-md border bg-muted/50 p-4 text-sm">
+          {report.duplicateOf ? (
+            <>
+              <GitMerge className="h-5 w-5 flex-shrink-0 text-muted-foreground" />
+              <p>
+                This issue was merged into{' '}
+                <Link to={`/issue/${report.duplicateOf}`} className="font-medium hover:underline">another report</Link>
+                {' '}as a duplicate. Everyone else is taken there instead.
+              </p>
+            </>
+          ) : (
+            <>
+              <Copy className="h-5 w-5 flex-shrink-0 text-muted-foreground" />
+              <p>
+                <span className="font-medium">"{mergedFrom}"</span> was a duplicate of this issue and has been merged into it.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2 space-y-6">
           {/* Main Content Card */}
@@ -396,18 +451,34 @@ const ViewIssue = () => {
                     size="sm"
                     className={cn(
                       "flex items-center gap-2",
-                      hasUpvoted && "opacity-50 cursor-not-allowed"
+                      hasUpvoted && "border-primary text-primary"
                     )}
                     onClick={handleUpvote}
-                    disabled={!isAuthenticated || hasUpvoted}
+                    disabled={!isAuthenticated}
+                    aria-pressed={hasUpvoted}
                   >
-                    <ThumbsUp className="h-4 w-4" />
+                    <ThumbsUp className={cn("h-4 w-4", hasUpvoted && "fill-current")} />
                     <span>{report.upvotes} Upvotes</span>
                   </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className={cn(
+                      "flex items-center gap-2",
+                      hasFollowed && "border-primary text-primary"
+                    )}
+                    onClick={handleFollow}
+                    disabled={!isAuthenticated}
+                    aria-pressed={hasFollowed}
+                  >
+                    <Bell className={cn("h-4 w-4", hasFollowed && "fill-current")} />
+                    <span>{hasFollowed ? 'Following' : 'Follow'} · {(report.followedBy || []).length}</span>
+                  </Button>
                   
                   <div className="flex items-center gap-2 text-muted-foreground">
                     <MessageSquare className="h-4 w-4" />
-                    <span>{report.comments.length} Comments</span>
+                    <span>{report.comments.filter(c => !c.deletedAt).length} Comments</span>
                   </div>
                 </div>
               </div>
@@ -448,6 +519,32 @@ const ViewIssue = () => {
                   </div>
                 </div>
               )}
+
+              {(report.resolutionNotes || report.resolutionImages) && (
+                <div>
+                  <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                    <CheckCircle2 className="h-5 w-5 text-muted-foreground" />
+                    Resolution
+                  </h3>
+                  {report.resolutionNotes && (
+                    <p className="text-muted-foreground whitespace-pre-line leading-relaxed">
+                      {report.resolutionNotes}
+                    </p>
+                  )}
+                  {report.resolutionImages && (
+                    <div className="grid grid-cols-2 gap-4 mt-4">
+                      {report.resolutionImages.map((image, index) => (
+                        <img
+                          key={index}
+                          src={image}
+                          alt={`After photo ${index + 1}`}
+                          className="w-full h-48 object-cover rounded-lg"
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
             </CardContent>
           </Card>
           
@@ -461,70 +558,7 @@ const ViewIssue = () => {
             </CardHeader>
             
             <CardContent>
-              {isAuthenticated ? (
-                <form onSubmit={handleCommentSubmit} className="mb-6">
-                  <Textarea
-                    placeholder="Add a comment or update..."
-                    value={comment}
-                    onChange={(e) => setComment(e.target.value)}
-                    className="mb-3 resize-none"
-                    disabled={isLoading}
-                  />
-                  <Button 
-                    type="submit" 
-                    disabled={!comment.trim() || isLoading}
-                    className="w-full sm:w-auto"
-                  >
-                    {isLoading ? "Posting..." : "Add Comment"}
-                  </Button>
-                </form>
-              ) : (
-                <div className="bg-muted/50 p-4 rounded-md mb-6 text-center">
-                  <p className="text-sm text-muted-foreground mb-2">
-                    Please sign in to add comments
-                  </p>
-                  <Button asChild>
-                    <Link to="/login">Login</Link>
-                  </Button>
-                </div>
-              )}
-              
-              <div className="space-y-4">
-                {report.comments.length === 0 ? (
-                  <div className="text-center py-8">
-                    <MessageSquare className="h-12 w-12 text-muted-foreground/50 mx-auto mb-3" />
-                    <p className="text-muted-foreground">
-                      No comments yet. Be the first to comment!
-                    </p>
-                  </div>
-                ) : (
-                  report.comments.map((comment: ReportComment) => (
-                    <div key={comment.id} className="bg-muted/50 rounded-lg p-4">
-                      <div className="flex justify-between items-start mb-3">
-                        <div className="flex items-center gap-2">
-                          <Avatar className="h-8 w-8">
-                            <AvatarFallback>{comment.user.name.charAt(0)}</AvatarFallback>
-                          </Avatar>
-                          <div>
-                            <p className="font-medium flex items-center gap-2">
-                              {comment.user.name}
-                              {comment.user.role === 'admin' && (
-                                <Badge variant="secondary" className="text-xs">Admin</Badge>
-                              )}
-                            </p>
-                            <p className="text-xs text-muted-foreground">
-                              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                            </p>
-                          </div>
-                        </div>
-                      </div>
-                      <p className="text-sm whitespace-pre-line leading-relaxed">
-                        {comment.text}
-                      </p>
-                    </div>
-                  ))
-                )}
-              </div>
+              <CommentThread issueId={report.id} comments={report.comments} />
             </CardContent>
           </Card>
         </div>
@@ -588,21 +622,78 @@ const ViewIssue = () => {
                   <span className="text-muted-foreground">Category</span>
                   <span className="font-medium capitalize">{report.category.replace('_', ' ')}</span>
                 </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Assigned to</span>
+                  <span className="font-medium">{report.assignedTo?.name ?? 'Unassigned'}</span>
+                </div>
               </div>
             </CardContent>
           </Card>
           
-          {isAuthenticated && currentUser?.role === 'admin' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Clock className="h-5 w-5 text-muted-foreground" />
+                History
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <IssueTimeline issueId={report.id} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <GitMerge className="h-5 w-5 text-muted-foreground" />
+                Merged Reports
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <IssueMerges issueId={report.id} canUnmerge={canMerge} />
+            </CardContent>
+          </Card>
+          
+          {isStaff && (transitions.length > 0 || canAssign) && (
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Admin Actions</CardTitle>
+                <CardTitle className="text-lg">Staff Actions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {transitions.length > 0 && (
+                  <Button 
+                    className="w-full"
+                    onClick={() => setShowManageDialog(true)}
+                  >
+                    Manage Issue
+                  </Button>
+                )}
+                {canAssign && (
+                  <Button 
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setShowAssignDialog(true)}
+                  >
+                    {report.assignedTo ? 'Reassign Issue' : 'Assign Issue'}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Reporters may reopen an issue they don't think is fixed */}
+          {!isStaff && transitions.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Not fixed?</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
                 <Button 
+                  variant="outline"
                   className="w-full"
                   onClick={() => setShowManageDialog(true)}
                 >
-                  Manage Issue
+                  Reopen Issue
                 </Button>
               </CardContent>
             </Card>
@@ -724,6 +815,14 @@ const ViewIssue = () => {
                                 High
                               </FormLabel>
                             </FormItem>
+                            <FormItem className="flex items-center space-x-2">
+                              <FormControl>
+                                <RadioGroupItem value="critical" className="border-red-700" />
+                              </FormControl>
+                              <FormLabel className="font-normal text-red-800 dark:text-red-300 cursor-pointer">
+                                Critical
+                              </FormLabel>
+                            </FormItem>
                           </RadioGroup>
                         </FormControl>
                         <FormMessage />
@@ -822,8 +921,13 @@ const ViewIssue = () => {
       <ManageIssueDialog
         open={showManageDialog}
         onOpenChange={setShowManageDialog}
-        issueId={report.id}
-        currentStatus={report.status}
+        issue={report}
+      />
+
+      <AssignIssueDialog
+        open={showAssignDialog}
+        onOpenChange={setShowAssignDialog}
+        issue={report}
       />
     </div>
   );
@@ -1,20 +1,31 @@
 import { useState } from 'react';
-import { Issue, IssuePriority, IssueStatus } from '@/lib/types/issue';
+import { Issue, IssueSeverity, IssueStatus, StaffMember } from '@/lib/types/issue';
 import { IssueManagement } from '@/components/admin/IssueManagement';
 import { IssueDetails } from '@/components/admin/IssueDetails';
 import { IssueForm } from '@/components/admin/IssueForm';
+import ManageIssueDialog from '@/components/ManageIssueDialog';
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+import { useReports } from '@/contexts/ReportContext';
+import { useIssue } from '@/hooks/use-issues';
 
 type View = 'list' | 'details' | 'create' | 'edit';
 
 export function IssuesPage() {
   const [view, setView] = useState<View>('list');
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
+  // Picked in the status dropdown, confirmed in ManageIssueDialog, which asks
+  // for any note or resolution the change needs
+  const [pendingStatus, setPendingStatus] = useState<IssueStatus | null>(null);
+  const { updateReport } = useReports();
+  // Kept current as the issue changes
+  const { data: liveIssue } = useIssue(selectedIssue?.id);
+  const issue = liveIssue ?? selectedIssue;
 
   const handleViewIssue = (issue: Issue) => {
     setSelectedIssue(issue);
@@ -38,23 +49,29 @@ export function IssuesPage() {
   };
 
   const handleStatusChange = (status: IssueStatus) => {
-    if (selectedIssue) {
-      // Implement status update logic
-      console.log('Updating status:', status);
-    }
+    if (selectedIssue) setPendingStatus(status);
   };
 
-  const handlePriorityChange = (priority: IssuePriority) => {
+  const handlePriorityChange = (severity: IssueSeverity) => {
     if (selectedIssue) {
       // Implement priority update logic
-      console.log('Updating priority:', priority);
+      console.log('Updating priority:', severity);
     }
   };
 
-  const handleAssign = (userId: string) => {
-    if (selectedIssue) {
-      // Implement assignment logic
-      console.log('Assigning to:', userId);
+  const handleAssign = async (assignee: StaffMember | null, note?: string) => {
+    if (!selectedIssue) return;
+    const assignedTo = assignee ? { id: assignee.id, name: assignee.name } : undefined;
+    try {
+      await updateReport(selectedIssue.id, { assignedTo }, note);
+      setSelectedIssue({ ...selectedIssue, assignedTo });
+    } catch (error) {
+      console.error('Error assigning issue:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to assign the issue.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -74,9 +91,9 @@ export function IssuesPage() {
         />
       )}
 
-      {view === 'details' && selectedIssue && (
+      {view === 'details' && issue && (
         <IssueDetails
-          issue={selectedIssue}
+          issue={issue}
           onStatusChange={handleStatusChange}
           onPriorityChange={handlePriorityChange}
           onAssign={handleAssign}
@@ -84,6 +101,15 @@ export function IssuesPage() {
         />
       )}
 
+      {pendingStatus && issue && (
+        <ManageIssueDialog
+          open
+          onOpenChange={(open) => !open && setPendingStatus(null)}
+          issue={issue}
+          initialStatus={pendingStatus}
+        />
+      )}
+
       <Dialog
         open={view === 'create' || view === 'edit'}
         onOpenChange={(open) => {
@@ -0,0 +1,54 @@
+import { createClient } from '@supabase/supabase-js';
+import { supabaseUrl } from '../lib/supabase';
+import { createSupabaseRepository } from '../lib/repository/supabase';
+import { createHttpTransport, createMailpitTransport } from '../lib/email';
+import { sendDigests, sendNotificationEmails } from '../lib/delivery';
+
+// Sends pending notification emails and any due digests. Run it on a
+// schedule, e.g. hourly:
+//
+//   SUPABASE_SERVICE_ROLE_KEY=... npm run notify:email
+//
+// Without EMAIL_API_URL mail goes to Mailpit on localhost (see @/lib/email).
+// Pass a frequency, e.g. `npm run notify:email -- daily`, to send only those
+// digests.
+
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!serviceRoleKey) {
+  console.error('Set SUPABASE_SERVICE_ROLE_KEY to send notification emails.');
+  process.exit(1);
+}
+
+const appUrl = process.env.APP_URL ?? 'http://localhost:8080';
+const from = process.env.EMAIL_FROM ?? 'notifications@cityfix.local';
+
+const repository = createSupabaseRepository(
+  createClient(process.env.SUPABASE_URL ?? supabaseUrl, serviceRoleKey, { auth: { persistSession: false } })
+);
+
+const transport = process.env.EMAIL_API_URL
+  ? createHttpTransport({
+      url: process.env.EMAIL_API_URL,
+      from,
+      headers: process.env.EMAIL_API_KEY ? { Authorization: `Bearer ${process.env.EMAIL_API_KEY}` } : {},
+    })
+  : createMailpitTransport({ url: process.env.MAILPIT_URL, from });
+
+const frequencies: ('daily' | 'weekly')[] = process.argv[2] === 'daily' || process.argv[2] === 'weekly'
+  ? [process.argv[2]]
+  : ['daily', 'weekly'];
+
+const run = async () => {
+  const emails = await sendNotificationEmails(repository, transport, { appUrl });
+  console.log(`Notification emails: ${emails.sent} sent, ${emails.failed} failed`);
+
+  for (const frequency of frequencies) {
+    const digests = await sendDigests(repository, transport, frequency, { appUrl });
+    console.log(`${frequency} digests: ${digests.sent} sent, ${digests.failed} failed`);
+  }
+};
+
+run().catch(error => {
+  console.error('Sending notification emails failed:', error);
+  process.exit(1);
+});
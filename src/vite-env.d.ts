@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_BACKEND?: 'supabase' | 'local';
+  readonly VITE_DUPLICATE_RADIUS_METERS?: string;
+  readonly VITE_GEOCODER?: 'nominatim' | 'fixture';
+  readonly VITE_GEOCODER_URL?: string;
+  readonly VITE_CITY_BOUNDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
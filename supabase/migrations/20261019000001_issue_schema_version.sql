@@ -0,0 +1,29 @@
+-- Store issues in the shared domain model (schema version 2).
+--
+-- Version 1 rows collapsed the eight report categories into
+-- road/water/electricity/waste/other and had no 'under_review' status or
+-- 'critical' priority. Existing rows keep version 1 and their categories
+-- are translated when read (see src/lib/mappers.ts); new rows are written as
+-- version 2. Version 1 statuses map one to one and are renamed here.
+
+alter table public.issues
+  add column if not exists schema_version smallint not null default 1;
+
+alter table public.issues drop constraint if exists issues_category_check;
+alter table public.issues add constraint issues_category_check check (
+  (schema_version = 1 and category in ('road', 'water', 'electricity', 'waste', 'other'))
+  or category in ('pothole', 'streetlight', 'garbage', 'graffiti', 'road_damage', 'flooding', 'sign_damage', 'other')
+);
+
+alter table public.issues drop constraint if exists issues_status_check;
+update public.issues
+  set status = case status when 'open' then 'reported' else 'in_progress' end
+  where status in ('open', 'in-progress');
+alter table public.issues add constraint issues_status_check check (
+  status in ('reported', 'under_review', 'in_progress', 'resolved', 'closed')
+);
+
+alter table public.issues drop constraint if exists issues_priority_check;
+alter table public.issues add constraint issues_priority_check check (
+  priority in ('low', 'medium', 'high', 'critical')
+);
@@ -0,0 +1,66 @@
+-- Server-side filtering, sorting and keyset pagination for issue lists.
+--
+-- Status and priority sort in workflow/severity order, so they get generated
+-- rank columns that match STATUS_RANK / PRIORITY_RANK in
+-- src/lib/repository/query.ts. Every sortable column is indexed together with
+-- id, which is the tie-breaker in page cursors.
+
+alter table public.issues
+  add column if not exists status_rank smallint generated always as (
+    case status
+      when 'reported' then 0
+      when 'under_review' then 1
+      when 'in_progress' then 2
+      when 'resolved' then 3
+      when 'closed' then 4
+      else 0
+    end
+  ) stored;
+
+alter table public.issues
+  add column if not exists priority_rank smallint generated always as (
+    case priority
+      when 'low' then 0
+      when 'medium' then 1
+      when 'high' then 2
+      when 'critical' then 3
+      else 0
+    end
+  ) stored;
+
+create index if not exists issues_created_at_id_idx on public.issues (created_at, id);
+create index if not exists issues_updated_at_id_idx on public.issues (updated_at, id);
+create index if not exists issues_title_id_idx on public.issues (title, id);
+create index if not exists issues_status_rank_id_idx on public.issues (status_rank, id);
+create index if not exists issues_priority_rank_id_idx on public.issues (priority_rank, id);
+create index if not exists issues_votes_id_idx on public.issues (votes, id);
+
+create index if not exists issues_status_idx on public.issues (status);
+create index if not exists issues_category_idx on public.issues (category);
+create index if not exists issues_user_id_idx on public.issues (user_id);
+create index if not exists issues_assigned_to_idx on public.issues (assigned_to);
+
+-- Substring search on title, description and address.
+create extension if not exists pg_trgm;
+create index if not exists issues_title_trgm_idx on public.issues using gin (title gin_trgm_ops);
+create index if not exists issues_description_trgm_idx on public.issues using gin (description gin_trgm_ops);
+create index if not exists issues_address_trgm_idx on public.issues using gin ((location->>'address') gin_trgm_ops);
+
+-- Per-value counts for dashboard statistics.
+create or replace function public.count_issues_by(group_column text)
+returns table (value text, count bigint)
+language plpgsql
+stable
+security invoker
+as $$
+begin
+  if group_column not in ('status', 'category', 'priority') then
+    raise exception 'Cannot count issues by %', group_column;
+  end if;
+
+  return query execute format(
+    'select %I::text, count(*) from public.issues group by 1',
+    group_column
+  );
+end;
+$$;
@@ -0,0 +1,56 @@
+-- One vote per user and issue.
+--
+-- Votes were counted by the vote_on_issue RPC, which only incremented
+-- issues.votes, so nothing stopped a user voting again after a reload. Votes
+-- are now rows in issue_votes: the primary key rejects duplicates, users may
+-- only add or remove their own, and a trigger keeps issues.votes in step.
+-- Existing counts are kept as they are; they just have no voter rows.
+
+create table if not exists public.issue_votes (
+  issue_id uuid not null references public.issues (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (issue_id, user_id)
+);
+
+create index if not exists issue_votes_user_id_idx on public.issue_votes (user_id, created_at desc);
+
+alter table public.issue_votes enable row level security;
+
+drop policy if exists "Votes are public" on public.issue_votes;
+create policy "Votes are public" on public.issue_votes
+  for select using (true);
+
+drop policy if exists "Users add their own votes" on public.issue_votes;
+create policy "Users add their own votes" on public.issue_votes
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users remove their own votes" on public.issue_votes;
+create policy "Users remove their own votes" on public.issue_votes
+  for delete using (auth.uid() = user_id);
+
+-- Runs as the owner so voters don't need update rights on issues
+create or replace function public.sync_issue_vote_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update public.issues set votes = coalesce(votes, 0) + 1 where id = new.issue_id;
+    return new;
+  end if;
+
+  update public.issues set votes = greatest(coalesce(votes, 0) - 1, 0) where id = old.issue_id;
+  return old;
+end;
+$$;
+
+drop trigger if exists issue_votes_sync_count on public.issue_votes;
+create trigger issue_votes_sync_count
+  after insert or delete on public.issue_votes
+  for each row execute function public.sync_issue_vote_count();
+
+-- Counting now happens in the trigger; keeping the RPC would count twice.
+drop function if exists public.vote_on_issue(uuid, uuid);
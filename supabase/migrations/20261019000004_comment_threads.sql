@@ -0,0 +1,115 @@
+-- Threaded comments with edit history and soft delete.
+--
+-- Replies point at their parent comment on the same issue. Editing or
+-- deleting a comment copies the previous content to issue_comment_revisions;
+-- deleting clears the content but keeps the row so replies stay threaded.
+-- Authors edit their own comments, authors and admins may delete them.
+
+alter table public.issue_comments
+  add column if not exists parent_id uuid references public.issue_comments (id) on delete cascade,
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by uuid references auth.users (id);
+
+create index if not exists issue_comments_issue_id_created_at_idx on public.issue_comments (issue_id, created_at);
+create index if not exists issue_comments_parent_id_idx on public.issue_comments (parent_id);
+
+create table if not exists public.issue_comment_revisions (
+  id uuid primary key default gen_random_uuid(),
+  comment_id uuid not null references public.issue_comments (id) on delete cascade,
+  content text not null,
+  edited_by uuid not null references auth.users (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists issue_comment_revisions_comment_id_idx
+  on public.issue_comment_revisions (comment_id, created_at);
+
+create or replace function public.is_admin(uid uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.profiles where id = uid and role = 'admin');
+$$;
+
+-- Replies must stay on their parent's issue
+create or replace function public.check_comment_parent()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from public.issue_comments where id = new.parent_id and issue_id = new.issue_id
+  ) then
+    raise exception 'Reply must be on the same issue as its parent';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists issue_comments_check_parent on public.issue_comments;
+create trigger issue_comments_check_parent
+  before insert on public.issue_comments
+  for each row execute function public.check_comment_parent();
+
+-- Runs as the owner so revisions can be written without an insert policy
+create or replace function public.record_comment_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.deleted_at is not null then
+    raise exception 'Comment has been deleted';
+  end if;
+
+  -- Threading and authorship never change
+  new.issue_id := old.issue_id;
+  new.user_id := old.user_id;
+  new.parent_id := old.parent_id;
+  new.edited_at := old.edited_at;
+
+  if new.deleted_at is not null then
+    insert into public.issue_comment_revisions (comment_id, content, edited_by)
+      values (old.id, old.content, auth.uid());
+    new.content := '';
+    new.deleted_at := now();
+    new.deleted_by := auth.uid();
+  elsif new.content is distinct from old.content then
+    if auth.uid() is distinct from old.user_id then
+      raise exception 'Only the author can edit a comment';
+    end if;
+    insert into public.issue_comment_revisions (comment_id, content, edited_by)
+      values (old.id, old.content, auth.uid());
+    new.edited_at := now();
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists issue_comments_record_change on public.issue_comments;
+create trigger issue_comments_record_change
+  before update on public.issue_comments
+  for each row execute function public.record_comment_change();
+
+drop policy if exists "Authors and admins update comments" on public.issue_comments;
+create policy "Authors and admins update comments" on public.issue_comments
+  for update using (auth.uid() = user_id or public.is_admin());
+
+alter table public.issue_comment_revisions enable row level security;
+
+-- History of a deleted comment is only shown to its author and admins
+drop policy if exists "Comment history is readable" on public.issue_comment_revisions;
+create policy "Comment history is readable" on public.issue_comment_revisions
+  for select using (
+    public.is_admin() or exists (
+      select 1 from public.issue_comments c
+      where c.id = comment_id and (c.deleted_at is null or c.user_id = auth.uid())
+    )
+  );
@@ -0,0 +1,91 @@
+-- Append-only history of issue changes.
+--
+-- Every change to an issue's status, priority, assignee or location is
+-- recorded in issue_events with who made it and an optional note. Writers
+-- pass the note in issues.change_note; the trigger moves it onto the event
+-- and never stores it on the issue. A new issue gets an event for its
+-- initial status so the timeline starts at the report.
+
+alter table public.issues
+  add column if not exists change_note text;
+
+create table if not exists public.issue_events (
+  id uuid primary key default gen_random_uuid(),
+  issue_id uuid not null references public.issues (id) on delete cascade,
+  actor_id uuid references auth.users (id) on delete set null,
+  field text not null check (field in ('status', 'priority', 'assigned_to', 'location')),
+  old_value jsonb,
+  new_value jsonb,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists issue_events_issue_id_created_at_idx on public.issue_events (issue_id, created_at);
+create index if not exists issue_events_field_created_at_idx on public.issue_events (field, created_at);
+create index if not exists issue_events_actor_id_idx on public.issue_events (actor_id);
+
+alter table public.issue_events enable row level security;
+
+drop policy if exists "Issue history is public" on public.issue_events;
+create policy "Issue history is public" on public.issue_events
+  for select using (true);
+
+-- No insert, update or delete policies: rows are only written by the trigger
+revoke insert, update, delete on public.issue_events from anon, authenticated;
+
+create or replace function public.record_issue_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  note text := nullif(trim(new.change_note), '');
+begin
+  -- The issue row has to exist before its first event can reference it, so
+  -- creation is recorded after the insert
+  if tg_op = 'INSERT' then
+    if tg_when = 'BEFORE' then
+      new.change_note := null;
+    else
+      insert into public.issue_events (issue_id, actor_id, field, old_value, new_value)
+        values (new.id, auth.uid(), 'status', null, to_jsonb(new.status));
+    end if;
+    return new;
+  end if;
+
+  new.change_note := null;
+
+  if new.status is distinct from old.status then
+    insert into public.issue_events (issue_id, actor_id, field, old_value, new_value, note)
+      values (new.id, auth.uid(), 'status', to_jsonb(old.status), to_jsonb(new.status), note);
+  end if;
+
+  if new.priority is distinct from old.priority then
+    insert into public.issue_events (issue_id, actor_id, field, old_value, new_value, note)
+      values (new.id, auth.uid(), 'priority', to_jsonb(old.priority), to_jsonb(new.priority), note);
+  end if;
+
+  if new.assigned_to is distinct from old.assigned_to then
+    insert into public.issue_events (issue_id, actor_id, field, old_value, new_value, note)
+      values (new.id, auth.uid(), 'assigned_to', to_jsonb(old.assigned_to), to_jsonb(new.assigned_to), note);
+  end if;
+
+  if new.location is distinct from old.location then
+    insert into public.issue_events (issue_id, actor_id, field, old_value, new_value, note)
+      values (new.id, auth.uid(), 'location', to_jsonb(old.location), to_jsonb(new.location), note);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists issues_record_events on public.issues;
+create trigger issues_record_events
+  before insert or update on public.issues
+  for each row execute function public.record_issue_events();
+
+drop trigger if exists issues_record_created_event on public.issues;
+create trigger issues_record_created_event
+  after insert on public.issues
+  for each row execute function public.record_issue_events();
@@ -0,0 +1,9 @@
+-- After photos for resolved issues.
+--
+-- Resolving an issue now needs resolution notes and at least one photo of
+-- the finished work; the photos are kept apart from the ones in the report.
+-- Which status changes are allowed, and who may make them, is defined by the
+-- workflow in src/lib/workflow.ts.
+
+alter table public.issues
+  add column if not exists resolution_images text[] not null default '{}';
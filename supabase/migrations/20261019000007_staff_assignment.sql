@@ -0,0 +1,29 @@
+-- Issues are only assigned to staff.
+--
+-- The assignee picker lists staff profiles, but nothing stopped a write
+-- naming any user, or a user id with no profile at all. Staff are profiles
+-- with one of the roles in STAFF_ROLES (src/lib/repository/types.ts).
+
+create index if not exists issues_assigned_to_status_idx on public.issues (assigned_to, status);
+
+create or replace function public.check_issue_assignee()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.assigned_to is not null
+    and new.assigned_to is distinct from old.assigned_to
+    and not exists (select 1 from public.profiles where id = new.assigned_to and role = 'admin')
+  then
+    raise exception 'Issues can only be assigned to staff';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists issues_check_assignee on public.issues;
+create trigger issues_check_assignee
+  before insert or update of assigned_to on public.issues
+  for each row execute function public.check_issue_assignee();
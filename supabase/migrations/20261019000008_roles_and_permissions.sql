@@ -0,0 +1,217 @@
+-- Roles beyond citizen and admin, scoped by department.
+--
+-- Staff, supervisors, moderators and auditors join citizens and admins.
+-- What each role may do is listed in role_permissions with a scope: 'any'
+-- resource, issues in the user's 'department', or only the user's 'own'.
+-- The table mirrors ROLE_PERMISSIONS in src/lib/permissions.ts and the
+-- category to department mapping mirrors CATEGORY_DEPARTMENTS there.
+
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles add constraint profiles_role_check check (
+  role in ('citizen', 'staff', 'supervisor', 'moderator', 'auditor', 'admin')
+);
+
+alter table public.profiles
+  add column if not exists department text
+  check (department in ('roads', 'lighting', 'sanitation', 'water', 'general'));
+
+create table if not exists public.role_permissions (
+  role text not null,
+  action text not null,
+  scope text not null check (scope in ('any', 'department', 'own')),
+  primary key (role, action)
+);
+
+alter table public.role_permissions enable row level security;
+
+drop policy if exists "Role permissions are public" on public.role_permissions;
+create policy "Role permissions are public" on public.role_permissions
+  for select using (true);
+
+delete from public.role_permissions;
+insert into public.role_permissions (role, action, scope) values
+  ('citizen', 'issue:update', 'own'),
+  ('citizen', 'issue:delete', 'own'),
+  ('citizen', 'issue:prioritize', 'own'),
+  ('staff', 'dashboard:view', 'any'),
+  ('staff', 'staff:view', 'any'),
+  ('staff', 'issue:update', 'own'),
+  ('staff', 'issue:delete', 'own'),
+  ('staff', 'issue:transition', 'department'),
+  ('staff', 'issue:prioritize', 'own'),
+  ('supervisor', 'dashboard:view', 'any'),
+  ('supervisor', 'staff:view', 'any'),
+  ('supervisor', 'issue:update', 'department'),
+  ('supervisor', 'issue:delete', 'own'),
+  ('supervisor', 'issue:transition', 'department'),
+  ('supervisor', 'issue:assign', 'department'),
+  ('supervisor', 'issue:prioritize', 'department'),
+  ('moderator', 'dashboard:view', 'any'),
+  ('moderator', 'issue:update', 'any'),
+  ('moderator', 'issue:delete', 'any'),
+  ('moderator', 'issue:prioritize', 'own'),
+  ('moderator', 'comment:moderate', 'any'),
+  ('auditor', 'dashboard:view', 'any'),
+  ('auditor', 'staff:view', 'any'),
+  ('auditor', 'issue:update', 'own'),
+  ('auditor', 'issue:delete', 'own'),
+  ('auditor', 'issue:prioritize', 'own'),
+  ('admin', 'dashboard:view', 'any'),
+  ('admin', 'staff:view', 'any'),
+  ('admin', 'users:manage', 'any'),
+  ('admin', 'issue:update', 'any'),
+  ('admin', 'issue:delete', 'any'),
+  ('admin', 'issue:transition', 'any'),
+  ('admin', 'issue:assign', 'any'),
+  ('admin', 'issue:prioritize', 'any'),
+  ('admin', 'comment:moderate', 'any');
+
+create or replace function public.category_department(category text)
+returns text
+language sql
+immutable
+as $$
+  select case category
+    when 'pothole' then 'roads'
+    when 'road_damage' then 'roads'
+    when 'sign_damage' then 'roads'
+    when 'streetlight' then 'lighting'
+    when 'garbage' then 'sanitation'
+    when 'graffiti' then 'sanitation'
+    when 'flooding' then 'water'
+    when 'other' then 'general'
+  end;
+$$;
+
+create or replace function public.has_permission(
+  action text,
+  category text default null,
+  owner_id uuid default null,
+  uid uuid default auth.uid()
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profiles p
+    join public.role_permissions rp on rp.role = p.role and rp.action = has_permission.action
+    where p.id = uid and (
+      rp.scope = 'any'
+      or (rp.scope = 'own' and owner_id = uid)
+      or (rp.scope = 'department' and p.department is not null
+        and p.department = public.category_department(category))
+    )
+  );
+$$;
+
+-- Row policies can't tell which columns an update touches, so the update
+-- policy lets in anyone with some say over the issue and this trigger checks
+-- each kind of change. Reporters may change the status of their own issues;
+-- the app's workflow decides to what.
+create or replace function public.check_issue_permissions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Service role and triggers running without a user
+  if auth.uid() is null then
+    return coalesce(new, old);
+  end if;
+
+  if tg_op = 'DELETE' then
+    if not public.has_permission('issue:delete', old.category, old.user_id) then
+      raise exception 'Not allowed to delete this issue';
+    end if;
+    return old;
+  end if;
+
+  if (new.title, new.description, new.category, new.location, new.images)
+    is distinct from (old.title, old.description, old.category, old.location, old.images)
+    and not public.has_permission('issue:update', old.category, old.user_id)
+  then
+    raise exception 'Not allowed to edit this issue';
+  end if;
+
+  if new.priority is distinct from old.priority
+    and not public.has_permission('issue:prioritize', old.category, old.user_id)
+  then
+    raise exception 'Not allowed to change the priority of this issue';
+  end if;
+
+  if new.assigned_to is distinct from old.assigned_to
+    and not public.has_permission('issue:assign', old.category, old.user_id)
+  then
+    raise exception 'Not allowed to assign this issue';
+  end if;
+
+  if (new.status, new.resolution_notes, new.resolution_images)
+    is distinct from (old.status, old.resolution_notes, old.resolution_images)
+    and old.user_id is distinct from auth.uid()
+    and not public.has_permission('issue:transition', old.category, old.user_id)
+  then
+    raise exception 'Not allowed to change the status of this issue';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists issues_check_permissions on public.issues;
+create trigger issues_check_permissions
+  before update or delete on public.issues
+  for each row execute function public.check_issue_permissions();
+
+drop policy if exists "Permitted users update issues" on public.issues;
+create policy "Permitted users update issues" on public.issues
+  for update using (
+    auth.uid() = user_id
+    or public.has_permission('issue:update', category, user_id)
+    or public.has_permission('issue:transition', category, user_id)
+    or public.has_permission('issue:assign', category, user_id)
+    or public.has_permission('issue:prioritize', category, user_id)
+  );
+
+drop policy if exists "Permitted users delete issues" on public.issues;
+create policy "Permitted users delete issues" on public.issues
+  for delete using (public.has_permission('issue:delete', category, user_id));
+
+-- Assignees are now any staff role
+create or replace function public.check_issue_assignee()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.assigned_to is not null
+    and new.assigned_to is distinct from old.assigned_to
+    and not exists (
+      select 1 from public.profiles
+      where id = new.assigned_to and role in ('staff', 'supervisor', 'admin')
+    )
+  then
+    raise exception 'Issues can only be assigned to staff';
+  end if;
+  return new;
+end;
+$$;
+
+-- Comment moderation moves from admins to the comment:moderate permission
+drop policy if exists "Authors and admins update comments" on public.issue_comments;
+create policy "Authors and moderators update comments" on public.issue_comments
+  for update using (auth.uid() = user_id or public.has_permission('comment:moderate', null, user_id));
+
+drop policy if exists "Comment history is readable" on public.issue_comment_revisions;
+create policy "Comment history is readable" on public.issue_comment_revisions
+  for select using (
+    public.has_permission('comment:moderate') or exists (
+      select 1 from public.issue_comments c
+      where c.id = comment_id and (c.deleted_at is null or c.user_id = auth.uid())
+    )
+  );
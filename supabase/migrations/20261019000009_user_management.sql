@@ -0,0 +1,160 @@
+-- User management from the admin Users page.
+--
+-- Profiles gain an account status. Suspended users are locked out until
+-- suspended_until (or for good without one), banned users for good: they
+-- can't report, comment or vote. Changes to a user's role, department or
+-- status need users:manage, can't be made to one's own profile, and are
+-- recorded in profile_events with who made them and an optional note passed
+-- in profiles.change_note, as issues.change_note is for issue_events.
+--
+-- This replaces src/scripts/makeAdmin.ts. The first admin of a new project is
+-- made from the SQL editor:
+--   update public.profiles set role = 'admin' where id = '<user id>';
+
+alter table public.profiles
+  add column if not exists status text not null default 'active'
+    check (status in ('active', 'suspended', 'banned')),
+  add column if not exists suspended_until timestamptz,
+  add column if not exists change_note text;
+
+create table if not exists public.profile_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  actor_id uuid references auth.users (id) on delete set null,
+  field text not null check (field in ('role', 'department', 'status', 'suspended_until')),
+  old_value text,
+  new_value text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists profile_events_user_id_created_at_idx on public.profile_events (user_id, created_at desc);
+create index if not exists profile_events_created_at_idx on public.profile_events (created_at desc);
+
+alter table public.profile_events enable row level security;
+
+drop policy if exists "User managers read the audit trail" on public.profile_events;
+create policy "User managers read the audit trail" on public.profile_events
+  for select using (public.has_permission('users:manage'));
+
+-- No insert, update or delete policies: rows are only written by the trigger
+revoke insert, update, delete on public.profile_events from anon, authenticated;
+
+-- Mirrors accountStatus in src/lib/permissions.ts
+create or replace function public.is_account_active(uid uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select not exists (
+    select 1 from public.profiles
+    where id = uid and (
+      status = 'banned'
+      or (status = 'suspended' and (suspended_until is null or suspended_until > now()))
+    )
+  );
+$$;
+
+create or replace function public.check_profile_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  note text := nullif(trim(new.change_note), '');
+begin
+  new.change_note := null;
+
+  -- Service role and the signup trigger run without a user
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if (new.role <> 'citizen' or new.status <> 'active') and not public.has_permission('users:manage') then
+      raise exception 'Not allowed to manage users';
+    end if;
+    return new;
+  end if;
+
+  if (new.role, new.department, new.status, new.suspended_until)
+    is distinct from (old.role, old.department, old.status, old.suspended_until)
+  then
+    if not public.has_permission('users:manage') then
+      raise exception 'Not allowed to manage users';
+    end if;
+    if new.id = auth.uid() then
+      raise exception 'You cannot change your own role or account status';
+    end if;
+  end if;
+
+  if new.role is distinct from old.role then
+    insert into public.profile_events (user_id, actor_id, field, old_value, new_value, note)
+      values (new.id, auth.uid(), 'role', old.role, new.role, note);
+  end if;
+
+  if new.department is distinct from old.department then
+    insert into public.profile_events (user_id, actor_id, field, old_value, new_value, note)
+      values (new.id, auth.uid(), 'department', old.department, new.department, note);
+  end if;
+
+  if new.status is distinct from old.status then
+    insert into public.profile_events (user_id, actor_id, field, old_value, new_value, note)
+      values (new.id, auth.uid(), 'status', old.status, new.status, note);
+  end if;
+
+  if new.suspended_until is distinct from old.suspended_until then
+    insert into public.profile_events (user_id, actor_id, field, old_value, new_value, note)
+      values (new.id, auth.uid(), 'suspended_until', old.suspended_until::text, new.suspended_until::text, note);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_check_changes on public.profiles;
+create trigger profiles_check_changes
+  before insert or update on public.profiles
+  for each row execute function public.check_profile_changes();
+
+drop policy if exists "User managers update profiles" on public.profiles;
+create policy "User managers update profiles" on public.profiles
+  for update using (public.has_permission('users:manage'));
+
+-- Restrictive, so they narrow whatever insert policies the tables already have
+drop policy if exists "Active accounts report issues" on public.issues;
+create policy "Active accounts report issues" on public.issues
+  as restrictive for insert with check (public.is_account_active());
+
+drop policy if exists "Active accounts comment" on public.issue_comments;
+create policy "Active accounts comment" on public.issue_comments
+  as restrictive for insert with check (public.is_account_active());
+
+drop policy if exists "Active accounts vote" on public.issue_votes;
+create policy "Active accounts vote" on public.issue_votes
+  as restrictive for insert with check (public.is_account_active());
+
+-- Report counts and the latest report, comment or issue change per user
+create or replace function public.user_activity(user_ids uuid[])
+returns table (user_id uuid, report_count bigint, last_active_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    u.id,
+    (select count(*) from public.issues i where i.user_id = u.id),
+    greatest(
+      (select max(i.created_at) from public.issues i where i.user_id = u.id),
+      (select max(c.created_at) from public.issue_comments c where c.user_id = u.id),
+      (select max(e.created_at) from public.issue_events e where e.actor_id = u.id)
+    )
+  from unnest(user_ids) as u (id)
+  where public.has_permission('users:manage');
+$$;
+
+create index if not exists issue_comments_user_id_idx on public.issue_comments (user_id);
@@ -0,0 +1,188 @@
+-- Per-user notifications, generated as issues and comments change.
+--
+--   new_report     staff who can work the new issue (has issue:transition
+--                  for it), except the reporter
+--   status_change  the reporter and the assignee, except whoever changed it
+--   comment        the reporter and, for replies, the parent comment's
+--                  author, except the commenter and anyone mentioned
+--   mention        users named in the comment as @Their Name, except the
+--                  commenter. The name has to end at a word boundary and
+--                  is at most four words; when several fit, as with
+--                  "@Jane Doe" for Jane and Jane Doe, the longest wins.
+--                  A trailing 's is ignored.
+--   system         written by hand or by the service role
+--
+-- Users read their own notifications and may only set read_at and
+-- dismissed_at. Dismissing keeps the row, so the change reaches the user's
+-- other devices as a realtime update: realtime can't filter deletes by user.
+
+create table if not exists public.notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  type text not null check (type in ('new_report', 'status_change', 'comment', 'mention', 'system')),
+  title text not null,
+  message text not null,
+  issue_id uuid references public.issues (id) on delete cascade,
+  actor_id uuid references auth.users (id) on delete set null,
+  data jsonb,
+  read_at timestamptz,
+  dismissed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_id_created_at_idx
+  on public.notifications (user_id, created_at desc) where dismissed_at is null;
+create index if not exists notifications_unread_idx
+  on public.notifications (user_id) where read_at is null and dismissed_at is null;
+
+-- Mentions look profiles up by name
+create index if not exists profiles_lower_name_idx on public.profiles (lower(name));
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "Users read their notifications" on public.notifications;
+create policy "Users read their notifications" on public.notifications
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users mark their notifications" on public.notifications;
+create policy "Users mark their notifications" on public.notifications
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- Rows are only written by the triggers below; users may only mark them
+revoke insert, update, delete on public.notifications from anon, authenticated;
+grant update (read_at, dismissed_at) on public.notifications to authenticated;
+
+do $$
+begin
+  alter publication supabase_realtime add table public.notifications;
+exception when duplicate_object then null;
+end;
+$$;
+
+-- 'in_progress' -> 'In Progress', as statusLabel shows it
+create or replace function public.notification_label(value text)
+returns text
+language sql
+immutable
+as $$
+  select initcap(replace(value, '_', ' '));
+$$;
+
+create or replace function public.notify_new_issue()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.notifications (user_id, type, title, message, issue_id, actor_id, data)
+    select p.id, 'new_report', 'New Issue Reported',
+      format('"%s" was reported at %s', new.title, new.location->>'address'),
+      new.id, new.user_id, jsonb_build_object('category', new.category)
+    from public.profiles p
+    where p.id <> new.user_id
+      and public.has_permission('issue:transition', new.category, new.user_id, p.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists issues_notify_new on public.issues;
+create trigger issues_notify_new
+  after insert on public.issues
+  for each row execute function public.notify_new_issue();
+
+-- Status changes are picked up from the issue history so the change note and
+-- actor come along
+create or replace function public.notify_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  issue public.issues%rowtype;
+begin
+  if new.field <> 'status' or new.old_value is null then
+    return new;
+  end if;
+
+  select * into issue from public.issues where id = new.issue_id;
+
+  insert into public.notifications (user_id, type, title, message, issue_id, actor_id, data)
+    select distinct recipient, 'status_change', 'Issue Status Updated',
+      format('"%s" is now %s', issue.title, public.notification_label(new.new_value #>> '{}')),
+      issue.id, new.actor_id,
+      jsonb_build_object('status', new.new_value #>> '{}', 'note', new.note)
+    from unnest(array[issue.user_id, issue.assigned_to]) as recipient
+    where recipient is not null and recipient is distinct from new.actor_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists issue_events_notify on public.issue_events;
+create trigger issue_events_notify
+  after insert on public.issue_events
+  for each row execute function public.notify_status_change();
+
+create or replace function public.notify_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  issue public.issues%rowtype;
+  author text;
+  parent_author uuid;
+  mentioned uuid[];
+begin
+  select * into issue from public.issues where id = new.issue_id;
+  select name into author from public.profiles where id = new.user_id;
+  select user_id into parent_author from public.issue_comments where id = new.parent_id;
+
+  -- Each @ not preceded by a word character starts a run of up to four
+  -- words. Only names made of the run's leading words are looked up.
+  select coalesce(array_agg(distinct mention.id), '{}') into mentioned
+    from regexp_matches(
+      new.content,
+      '(?:^|[^[:alnum:]_])@([[:alnum:]]+(?:[''’-][[:alnum:]]+)*(?:[ ]+[[:alnum:]]+(?:[''’-][[:alnum:]]+)*){0,3})',
+      'g'
+    ) as token (match)
+    cross join lateral regexp_split_to_array(lower(token.match[1]), '[ ]+') as words
+    cross join lateral (
+      select p.id
+        from generate_series(array_length(words, 1), 1, -1) as n
+        cross join lateral array_to_string(words[1:n], ' ') as candidate
+        -- "@Jane Doe's" mentions Jane Doe
+        join public.profiles p on lower(p.name) in (candidate, regexp_replace(candidate, '[''’]s$', ''))
+        order by n desc
+        fetch first 1 rows with ties
+    ) mention
+    where mention.id <> new.user_id;
+
+  insert into public.notifications (user_id, type, title, message, issue_id, actor_id)
+    select recipient, 'mention', 'You Were Mentioned',
+      format('%s mentioned you on "%s"', coalesce(author, 'Someone'), issue.title),
+      issue.id, new.user_id
+    from unnest(mentioned) as recipient;
+
+  insert into public.notifications (user_id, type, title, message, issue_id, actor_id)
+    select distinct recipient, 'comment',
+      case when recipient = parent_author then 'New Reply' else 'New Comment' end,
+      case when recipient = parent_author
+        then format('%s replied to your comment on "%s"', coalesce(author, 'Someone'), issue.title)
+        else format('%s commented on "%s"', coalesce(author, 'Someone'), issue.title)
+      end,
+      issue.id, new.user_id
+    from unnest(array[issue.user_id, parent_author]) as recipient
+    where recipient is not null
+      and recipient <> new.user_id
+      and not recipient = any (mentioned);
+  return new;
+end;
+$$;
+
+drop trigger if exists issue_comments_notify on public.issue_comments;
+create trigger issue_comments_notify
+  after insert on public.issue_comments
+  for each row execute function public.notify_comment();
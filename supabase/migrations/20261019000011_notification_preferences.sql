@@ -0,0 +1,141 @@
+-- Per-user notification preferences and email delivery.
+--
+-- Each user picks, per issue category and notification type, which channels
+-- a notification goes to: in_app, email, both or neither. Missing entries
+-- mean in-app only, as before this migration; system notifications always
+-- go in-app. The channels are resolved when a notification is written and
+-- stored on the row, so changing preferences doesn't move old notifications.
+-- A notification with no channels is not written at all.
+--
+-- Mail only goes to the account's confirmed address, so nobody can point
+-- notifications at someone else's inbox. notification_preferences.email is a
+-- copy of it kept by triggers; what users write there is ignored.
+--
+-- Emails and daily or weekly digests are sent by
+-- src/scripts/sendNotificationEmails.ts with the service role, which marks
+-- notifications emailed_at and preferences digest_sent_at as it goes.
+
+create table if not exists public.notification_preferences (
+  user_id uuid primary key references public.profiles (id) on delete cascade,
+  email text,
+  digest text not null default 'off' check (digest in ('off', 'daily', 'weekly')),
+  -- { "<category>": { "<type>": ["in_app", "email"] } }
+  channels jsonb not null default '{}'::jsonb,
+  digest_sent_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists notification_preferences_digest_idx
+  on public.notification_preferences (digest) where digest <> 'off';
+
+alter table public.notification_preferences enable row level security;
+
+drop policy if exists "Users read their notification preferences" on public.notification_preferences;
+create policy "Users read their notification preferences" on public.notification_preferences
+  for select using (auth.uid() = user_id);
+
+drop policy if exists "Users insert their notification preferences" on public.notification_preferences;
+create policy "Users insert their notification preferences" on public.notification_preferences
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users update their notification preferences" on public.notification_preferences;
+create policy "Users update their notification preferences" on public.notification_preferences
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+-- digest_sent_at is the sender's to keep. A column revoke would leave the
+-- table-wide update grant in place, so update is granted column by column.
+revoke update on public.notification_preferences from anon, authenticated;
+grant update (digest, channels, updated_at) on public.notification_preferences to authenticated;
+
+create or replace function public.set_notification_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.email := (
+    select u.email from auth.users u
+    where u.id = new.user_id and u.email_confirmed_at is not null
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists notification_preferences_set_email on public.notification_preferences;
+create trigger notification_preferences_set_email
+  before insert or update on public.notification_preferences
+  for each row execute function public.set_notification_email();
+
+-- Supabase only changes auth.users.email once the new address is confirmed
+create or replace function public.sync_notification_email()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- set_notification_email fills in the new address
+  update public.notification_preferences np
+    set email = null
+    where np.user_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_sync_notification_email on auth.users;
+create trigger users_sync_notification_email
+  after update of email, email_confirmed_at on auth.users
+  for each row execute function public.sync_notification_email();
+
+alter table public.notifications
+  add column if not exists channels text[] not null default '{in_app}',
+  add column if not exists emailed_at timestamptz;
+
+create index if not exists notifications_unsent_email_idx
+  on public.notifications (created_at) where emailed_at is null and 'email' = any (channels);
+
+-- Mirrors notificationChannels in @/lib/notifications
+create or replace function public.notification_channels(uid uuid, type text, category text)
+returns text[]
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select array(select jsonb_array_elements_text(np.channels -> category -> type))
+      from public.notification_preferences np
+      where np.user_id = uid
+        and type <> 'system'
+        and jsonb_typeof(np.channels -> category -> type) = 'array'
+    ),
+    array['in_app']
+  );
+$$;
+
+create or replace function public.apply_notification_channels()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.channels := public.notification_channels(
+    new.user_id,
+    new.type,
+    (select i.category from public.issues i where i.id = new.issue_id)
+  );
+  -- Nowhere to send it
+  if cardinality(new.channels) = 0 then
+    return null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notifications_apply_channels on public.notifications;
+create trigger notifications_apply_channels
+  before insert on public.notifications
+  for each row execute function public.apply_notification_channels();
@@ -0,0 +1,65 @@
+-- Following issues.
+--
+-- Anyone signed in can follow an issue to hear about its status changes,
+-- not just its reporter and assignee. Follows are public, like votes, so
+-- issues can show how many people follow them; users may only add or
+-- remove their own.
+
+create table if not exists public.issue_follows (
+  issue_id uuid not null references public.issues (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (issue_id, user_id)
+);
+
+create index if not exists issue_follows_user_id_idx on public.issue_follows (user_id, created_at desc);
+
+alter table public.issue_follows enable row level security;
+
+drop policy if exists "Follows are public" on public.issue_follows;
+create policy "Follows are public" on public.issue_follows
+  for select using (true);
+
+drop policy if exists "Users add their own follows" on public.issue_follows;
+create policy "Users add their own follows" on public.issue_follows
+  for insert with check (auth.uid() = user_id);
+
+drop policy if exists "Users remove their own follows" on public.issue_follows;
+create policy "Users remove their own follows" on public.issue_follows
+  for delete using (auth.uid() = user_id);
+
+drop policy if exists "Active accounts follow" on public.issue_follows;
+create policy "Active accounts follow" on public.issue_follows
+  as restrictive for insert with check (public.is_account_active());
+
+-- Followers now hear about status changes along with the reporter and the
+-- assignee
+create or replace function public.notify_status_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  issue public.issues%rowtype;
+begin
+  if new.field <> 'status' or new.old_value is null then
+    return new;
+  end if;
+
+  select * into issue from public.issues where id = new.issue_id;
+
+  insert into public.notifications (user_id, type, title, message, issue_id, actor_id, data)
+    select distinct recipient, 'status_change', 'Issue Status Updated',
+      format('"%s" is now %s', issue.title, public.notification_label(new.new_value #>> '{}')),
+      issue.id, new.actor_id,
+      jsonb_build_object('status', new.new_value #>> '{}', 'note', new.note)
+    from (
+      select unnest(array[issue.user_id, issue.assigned_to]) as recipient
+      union
+      select f.user_id from public.issue_follows f where f.issue_id = issue.id
+    ) recipients
+    where recipient is not null and recipient is distinct from new.actor_id;
+  return new;
+end;
+$$;
@@ -0,0 +1,14 @@
+-- Issue coordinates as columns.
+--
+-- Coordinates live in the location jsonb, which PostgREST filters can't
+-- compare as numbers. Generated latitude and longitude columns let the app
+-- ask for the issues inside a box, e.g. to find possible duplicates near a
+-- new report. Writers keep setting location; the columns follow it.
+
+alter table public.issues
+  add column if not exists latitude double precision
+    generated always as ((location->>'latitude')::double precision) stored,
+  add column if not exists longitude double precision
+    generated always as ((location->>'longitude')::double precision) stored;
+
+create index if not exists issues_latitude_longitude_idx on public.issues (latitude, longitude);
@@ -0,0 +1,294 @@
+-- Merging duplicate issues.
+--
+-- Admins fold duplicates that got past the report form into one primary
+-- issue. A duplicate's comments move to the primary, its photos, votes and
+-- followers are added to the primary's, and its reporter starts following
+-- the primary. The duplicate is closed and points at the primary through
+-- duplicate_of. Each merge keeps what it moved or added in issue_merges so
+-- unmerge_issue can put it back, and is recorded in both issues' history.
+
+alter table public.issues
+  add column if not exists duplicate_of uuid references public.issues (id) on delete set null;
+
+create index if not exists issues_duplicate_of_idx on public.issues (duplicate_of);
+
+alter table public.issue_events drop constraint if exists issue_events_field_check;
+alter table public.issue_events add constraint issue_events_field_check
+  check (field in ('status', 'priority', 'assigned_to', 'location', 'merged', 'duplicate_of'));
+
+insert into public.role_permissions (role, action, scope) values
+  ('admin', 'issue:merge', 'any')
+on conflict (role, action) do update set scope = excluded.scope;
+
+create table if not exists public.issue_merges (
+  id uuid primary key default gen_random_uuid(),
+  primary_id uuid not null references public.issues (id) on delete cascade,
+  duplicate_id uuid not null references public.issues (id) on delete cascade,
+  actor_id uuid references auth.users (id) on delete set null,
+  note text,
+  moved_comment_ids uuid[] not null default '{}',
+  added_images text[] not null default '{}',
+  added_voter_ids uuid[] not null default '{}',
+  added_follower_ids uuid[] not null default '{}',
+  previous_status text not null,
+  created_at timestamptz not null default now(),
+  undone_at timestamptz,
+  undone_by uuid references auth.users (id) on delete set null
+);
+
+create index if not exists issue_merges_primary_id_idx on public.issue_merges (primary_id);
+
+-- An issue is merged into at most one other at a time
+create unique index if not exists issue_merges_active_duplicate_idx
+  on public.issue_merges (duplicate_id) where undone_at is null;
+
+alter table public.issue_merges enable row level security;
+
+drop policy if exists "Merges are public" on public.issue_merges;
+create policy "Merges are public" on public.issue_merges
+  for select using (true);
+
+-- No insert, update or delete policies: rows are only written by the
+-- functions below
+revoke insert, update, delete on public.issue_merges from anon, authenticated;
+
+-- duplicate_of is only written by merge_issues and unmerge_issue, which set
+-- cityfix.merging for their transaction. Deleting a primary clears it too.
+create or replace function public.check_duplicate_of()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    if new.duplicate_of is not null then
+      raise exception 'Issues are only marked as duplicates by merging them';
+    end if;
+    return new;
+  end if;
+
+  if new.duplicate_of is distinct from old.duplicate_of
+    and current_setting('cityfix.merging', true) is distinct from 'on'
+    and not (new.duplicate_of is null and not exists (select 1 from public.issues where id = old.duplicate_of))
+  then
+    raise exception 'Issues are only marked as duplicates by merging them';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists issues_check_duplicate_of on public.issues;
+create trigger issues_check_duplicate_of
+  before insert or update on public.issues
+  for each row execute function public.check_duplicate_of();
+
+-- Comments keep their issue, except when a merge moves them
+create or replace function public.record_comment_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if current_setting('cityfix.merging', true) = 'on' then
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'Comment has been deleted';
+  end if;
+
+  -- Threading and authorship never change
+  new.issue_id := old.issue_id;
+  new.user_id := old.user_id;
+  new.parent_id := old.parent_id;
+  new.edited_at := old.edited_at;
+
+  if new.deleted_at is not null then
+    insert into public.issue_comment_revisions (comment_id, content, edited_by)
+      values (old.id, old.content, auth.uid());
+    new.content := '';
+    new.deleted_at := now();
+    new.deleted_by := auth.uid();
+  elsif new.content is distinct from old.content then
+    if auth.uid() is distinct from old.user_id then
+      raise exception 'Only the author can edit a comment';
+    end if;
+    insert into public.issue_comment_revisions (comment_id, content, edited_by)
+      values (old.id, old.content, auth.uid());
+    new.edited_at := now();
+  end if;
+
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+-- Merges each of duplicate_ids into primary_id, oldest first, and returns the
+-- merges. Issues already merged into another, or with issues merged into
+-- them, can't be merged.
+create or replace function public.merge_issues(primary_id uuid, duplicate_ids uuid[], note text default null)
+returns setof public.issue_merges
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.issues%rowtype;
+  duplicate public.issues%rowtype;
+  merge_row public.issue_merges%rowtype;
+  merge_note text := nullif(trim(merge_issues.note), '');
+  moved_comments uuid[];
+  new_images text[];
+  new_voters uuid[];
+  new_followers uuid[];
+  merged integer := 0;
+begin
+  if not public.has_permission('issue:merge') then
+    raise exception 'Not allowed to merge issues';
+  end if;
+
+  select * into target from public.issues i where i.id = merge_issues.primary_id for update;
+  if not found then
+    raise exception 'Issue % not found', merge_issues.primary_id;
+  end if;
+  if target.duplicate_of is not null then
+    raise exception '"%" has been merged into another issue', target.title;
+  end if;
+
+  perform set_config('cityfix.merging', 'on', true);
+
+  for duplicate in
+    select * from public.issues i
+    where i.id = any(merge_issues.duplicate_ids)
+    order by i.created_at
+    for update
+  loop
+    if duplicate.id = target.id then
+      raise exception 'An issue can''t be merged into itself';
+    end if;
+    if duplicate.duplicate_of is not null then
+      raise exception '"%" has already been merged into another issue', duplicate.title;
+    end if;
+    if exists (select 1 from public.issue_merges m where m.primary_id = duplicate.id and m.undone_at is null) then
+      raise exception 'Unmerge the issues merged into "%" first', duplicate.title;
+    end if;
+
+    with moved as (
+      update public.issue_comments c set issue_id = target.id
+      where c.issue_id = duplicate.id
+      returning c.id
+    )
+    select coalesce(array_agg(moved.id), '{}') into moved_comments from moved;
+
+    select coalesce(array_agg(image order by position), '{}') into new_images
+    from unnest(duplicate.images) with ordinality as photos (image, position)
+    where not image = any(coalesce(target.images, '{}'));
+
+    with added as (
+      insert into public.issue_votes (issue_id, user_id)
+        select target.id, v.user_id from public.issue_votes v where v.issue_id = duplicate.id
+        on conflict do nothing
+        returning issue_votes.user_id
+    )
+    select coalesce(array_agg(added.user_id), '{}') into new_voters from added;
+
+    with added as (
+      insert into public.issue_follows (issue_id, user_id)
+        select target.id, f.user_id from public.issue_follows f where f.issue_id = duplicate.id
+        union
+        select target.id, duplicate.user_id
+        on conflict do nothing
+        returning issue_follows.user_id
+    )
+    select coalesce(array_agg(added.user_id), '{}') into new_followers from added;
+
+    if cardinality(new_images) > 0 then
+      target.images := coalesce(target.images, '{}') || new_images;
+      update public.issues i set images = target.images where i.id = target.id;
+    end if;
+
+    update public.issues i
+      set status = 'closed',
+          duplicate_of = target.id,
+          change_note = coalesce(merge_note, format('Duplicate of "%s"', target.title))
+      where i.id = duplicate.id;
+
+    insert into public.issue_merges (
+      primary_id, duplicate_id, actor_id, note,
+      moved_comment_ids, added_images, added_voter_ids, added_follower_ids, previous_status
+    ) values (
+      target.id, duplicate.id, auth.uid(), merge_note,
+      moved_comments, new_images, new_voters, new_followers, duplicate.status
+    )
+    returning * into merge_row;
+
+    insert into public.issue_events (issue_id, actor_id, field, old_value, new_value, note) values
+      (target.id, auth.uid(), 'merged', null, to_jsonb(duplicate.id), merge_note),
+      (duplicate.id, auth.uid(), 'duplicate_of', null, to_jsonb(target.id), merge_note);
+
+    merged := merged + 1;
+    return next merge_row;
+  end loop;
+
+  if merged = 0 then
+    raise exception 'No issues to merge';
+  end if;
+end;
+$$;
+
+-- Puts back what the merge moved or added and reopens the duplicate as it
+-- was. Votes and follows the merge added are taken off the primary even if
+-- the user has since voted or followed there themselves.
+create or replace function public.unmerge_issue(merge_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  merge_row public.issue_merges%rowtype;
+begin
+  if not public.has_permission('issue:merge') then
+    raise exception 'Not allowed to merge issues';
+  end if;
+
+  select * into merge_row from public.issue_merges m where m.id = unmerge_issue.merge_id for update;
+  if not found then
+    raise exception 'Merge % not found', unmerge_issue.merge_id;
+  end if;
+  if merge_row.undone_at is not null then
+    raise exception 'This merge has already been undone';
+  end if;
+
+  perform set_config('cityfix.merging', 'on', true);
+
+  update public.issue_comments c set issue_id = merge_row.duplicate_id
+    where c.id = any(merge_row.moved_comment_ids);
+
+  delete from public.issue_votes v
+    where v.issue_id = merge_row.primary_id and v.user_id = any(merge_row.added_voter_ids);
+
+  delete from public.issue_follows f
+    where f.issue_id = merge_row.primary_id and f.user_id = any(merge_row.added_follower_ids);
+
+  if cardinality(merge_row.added_images) > 0 then
+    update public.issues i
+      set images = array(select image from unnest(i.images) image where not image = any(merge_row.added_images))
+      where i.id = merge_row.primary_id;
+  end if;
+
+  update public.issues i
+    set status = merge_row.previous_status,
+        duplicate_of = null,
+        change_note = 'Merge undone'
+    where i.id = merge_row.duplicate_id;
+
+  update public.issue_merges m
+    set undone_at = now(), undone_by = auth.uid()
+    where m.id = merge_row.id;
+
+  insert into public.issue_events (issue_id, actor_id, field, old_value, new_value) values
+    (merge_row.primary_id, auth.uid(), 'merged', to_jsonb(merge_row.duplicate_id), null),
+    (merge_row.duplicate_id, auth.uid(), 'duplicate_of', to_jsonb(merge_row.primary_id), null);
+end;
+$$;
@@ -0,0 +1,143 @@
+-- Council wards.
+--
+-- Issues are reported to the council per ward. Admins import the ward
+-- boundaries from a GeoJSON file through import_wards, which replaces every
+-- ward and zones all issues into the new ones. From then on each issue's
+-- ward_id follows its location. Boundaries are kept both as the imported
+-- GeoJSON, which the app draws, and as PostGIS geometry for zoning.
+
+create extension if not exists postgis with schema extensions;
+
+create table if not exists public.wards (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  boundary jsonb not null,
+  geom extensions.geometry(MultiPolygon, 4326) not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists wards_geom_idx on public.wards using gist (geom);
+
+alter table public.wards enable row level security;
+
+drop policy if exists "Wards are public" on public.wards;
+create policy "Wards are public" on public.wards
+  for select using (true);
+
+-- Only written by import_wards
+revoke insert, update, delete on public.wards from anon, authenticated;
+
+alter table public.issues
+  add column if not exists ward_id uuid references public.wards (id) on delete set null;
+
+create index if not exists issues_ward_id_idx on public.issues (ward_id);
+
+insert into public.role_permissions (role, action, scope) values
+  ('admin', 'wards:manage', 'any')
+on conflict (role, action) do update set scope = excluded.scope;
+
+-- The ward holding a point. Wards shouldn't overlap; where they do, the
+-- first by name wins.
+create or replace function public.ward_at(latitude double precision, longitude double precision)
+returns uuid
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select w.id from public.wards w
+  where latitude is not null and longitude is not null
+    and st_contains(w.geom, st_setsrid(st_makepoint(longitude, latitude), 4326))
+  order by w.name
+  limit 1;
+$$;
+
+-- ward_id always follows location; it can't be set by hand
+create or replace function public.set_issue_ward()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.ward_id := public.ward_at(
+    (new.location->>'latitude')::double precision,
+    (new.location->>'longitude')::double precision
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists issues_set_ward on public.issues;
+create trigger issues_set_ward
+  before insert or update on public.issues
+  for each row execute function public.set_issue_ward();
+
+-- count_issues_by can group by ward
+create or replace function public.count_issues_by(group_column text)
+returns table (value text, count bigint)
+language plpgsql
+stable
+security invoker
+as $$
+begin
+  if group_column not in ('status', 'category', 'priority', 'ward_id') then
+    raise exception 'Cannot count issues by %', group_column;
+  end if;
+
+  return query execute format(
+    'select %I::text, count(*) from public.issues group by 1',
+    group_column
+  );
+end;
+$$;
+
+-- Replaces every ward with `wards`, an array of {name, boundary} where
+-- boundary is a GeoJSON Polygon or MultiPolygon, then zones all issues into
+-- the new wards.
+create or replace function public.import_wards(wards jsonb)
+returns setof public.wards
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  ward jsonb;
+  ward_name text;
+begin
+  if not public.has_permission('wards:manage') then
+    raise exception 'Not allowed to manage wards';
+  end if;
+
+  if jsonb_typeof(import_wards.wards) is distinct from 'array' or jsonb_array_length(import_wards.wards) = 0 then
+    raise exception 'No wards to import';
+  end if;
+
+  delete from public.wards where true;
+
+  for ward in select * from jsonb_array_elements(import_wards.wards)
+  loop
+    ward_name := nullif(trim(ward->>'name'), '');
+    if ward_name is null then
+      raise exception 'Every ward needs a name';
+    end if;
+    if coalesce(ward->'boundary'->>'type', '') not in ('Polygon', 'MultiPolygon') then
+      raise exception 'The boundary of "%" is not a polygon', ward_name;
+    end if;
+    if exists (select 1 from public.wards w where w.name = ward_name) then
+      raise exception 'Ward "%" appears more than once', ward_name;
+    end if;
+
+    insert into public.wards (name, boundary, geom) values (
+      ward_name,
+      ward->'boundary',
+      st_multi(st_collectionextract(st_makevalid(
+        st_setsrid(st_geomfromgeojson((ward->'boundary')::text), 4326)
+      ), 3))
+    );
+  end loop;
+
+  -- The trigger above works out the new ward
+  update public.issues i set ward_id = null
+    where i.ward_id is distinct from public.ward_at(i.latitude, i.longitude);
+
+  return query select * from public.wards w order by w.name;
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Issues inside an area drawn on the map.
+--
+-- PostgREST filters can't test a point against a polygon, so the app reads
+-- issues through this function when a drawn area is part of the query and
+-- applies its other filters, paging and embeds to the rows it returns. The
+-- app also passes the area's bounding box as latitude/longitude filters,
+-- which the index on those columns serves. `area` is a GeoJSON Polygon as
+-- text, so the function can be called with GET and HEAD requests too.
+-- Freehand areas may cross themselves; st_makevalid sorts that out.
+
+create or replace function public.issues_in_area(area text)
+returns setof public.issues
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select i.* from public.issues i
+  where st_contains(
+    st_makevalid(st_setsrid(st_geomfromgeojson(area), 4326)),
+    st_setsrid(st_makepoint(i.longitude, i.latitude), 4326)
+  );
+$$;
@@ -0,0 +1,129 @@
+-- Server-side issue workflow.
+--
+-- The status changes an issue may go through, who may make each and what it
+-- needs, as issue_transitions. The table mirrors ISSUE_WORKFLOW in
+-- src/lib/workflow.ts; keep the two in step. check_issue_permissions now
+-- rejects any status change the workflow doesn't allow, so reporters can no
+-- longer move their own issues anywhere by writing to the table directly.
+-- Roles other than 'reporter' also need the issue:transition permission for
+-- the issue. Merging and unmerging close and restore duplicates outside the
+-- workflow.
+
+create table if not exists public.issue_transitions (
+  from_status text not null,
+  to_status text not null,
+  -- User roles, or 'reporter' for the person who reported the issue
+  roles text[] not null,
+  -- 'note', 'resolutionNotes' and 'resolutionImages', as in the app
+  requires text[] not null default '{}',
+  primary key (from_status, to_status)
+);
+
+alter table public.issue_transitions enable row level security;
+
+drop policy if exists "Issue transitions are public" on public.issue_transitions;
+create policy "Issue transitions are public" on public.issue_transitions
+  for select using (true);
+
+revoke insert, update, delete on public.issue_transitions from anon, authenticated;
+
+delete from public.issue_transitions;
+insert into public.issue_transitions (from_status, to_status, roles, requires) values
+  ('reported', 'under_review', '{staff,supervisor,admin}', '{}'),
+  ('reported', 'closed', '{supervisor,admin}', '{note}'),
+  ('under_review', 'in_progress', '{staff,supervisor,admin}', '{}'),
+  ('under_review', 'closed', '{supervisor,admin}', '{note}'),
+  ('in_progress', 'under_review', '{staff,supervisor,admin}', '{note}'),
+  ('in_progress', 'resolved', '{staff,supervisor,admin}', '{resolutionNotes,resolutionImages}'),
+  ('resolved', 'in_progress', '{supervisor,admin,reporter}', '{note}'),
+  ('resolved', 'closed', '{supervisor,admin}', '{}'),
+  ('closed', 'under_review', '{supervisor,admin}', '{note}');
+
+-- As before, with status changes checked against issue_transitions.
+-- Resolution details changed without a status change need the
+-- issue:transition permission, as in the app. The
+-- change note is still on the row here: record_issue_events, which clears
+-- it, runs after this trigger.
+create or replace function public.check_issue_permissions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  transition public.issue_transitions;
+begin
+  -- Service role and triggers running without a user
+  if auth.uid() is null then
+    return coalesce(new, old);
+  end if;
+
+  if tg_op = 'DELETE' then
+    if not public.has_permission('issue:delete', old.category, old.user_id) then
+      raise exception 'Not allowed to delete this issue';
+    end if;
+    return old;
+  end if;
+
+  if (new.title, new.description, new.category, new.location, new.images)
+    is distinct from (old.title, old.description, old.category, old.location, old.images)
+    and not public.has_permission('issue:update', old.category, old.user_id)
+  then
+    raise exception 'Not allowed to edit this issue';
+  end if;
+
+  if new.priority is distinct from old.priority
+    and not public.has_permission('issue:prioritize', old.category, old.user_id)
+  then
+    raise exception 'Not allowed to change the priority of this issue';
+  end if;
+
+  if new.assigned_to is distinct from old.assigned_to
+    and not public.has_permission('issue:assign', old.category, old.user_id)
+  then
+    raise exception 'Not allowed to assign this issue';
+  end if;
+
+  if new.status is distinct from old.status then
+    -- merge_issues and unmerge_issue
+    if current_setting('cityfix.merging', true) = 'on' then
+      return new;
+    end if;
+
+    select * into transition from public.issue_transitions t
+      where t.from_status = old.status and t.to_status = new.status;
+    if not found then
+      raise exception 'An issue cannot move from % to %', old.status, new.status;
+    end if;
+
+    if not (
+      ('reporter' = any(transition.roles) and old.user_id = auth.uid())
+      or (
+        exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = any(transition.roles))
+        and public.has_permission('issue:transition', old.category, old.user_id)
+      )
+    ) then
+      raise exception 'You are not allowed to move this issue to %', new.status;
+    end if;
+
+    if 'note' = any(transition.requires) and nullif(trim(new.change_note), '') is null then
+      raise exception 'Moving this issue to % needs a note', new.status;
+    end if;
+    if 'resolutionNotes' = any(transition.requires) and nullif(trim(new.resolution_notes), '') is null then
+      raise exception 'Moving this issue to % needs resolution notes', new.status;
+    end if;
+    if 'resolutionImages' = any(transition.requires)
+      and cardinality(coalesce(new.resolution_images, '{}')) = 0
+    then
+      raise exception 'Moving this issue to % needs an after photo', new.status;
+    end if;
+  elsif (new.resolution_notes, new.resolution_images)
+    is distinct from (old.resolution_notes, old.resolution_images)
+    and not public.has_permission('issue:transition', old.category, old.user_id)
+  then
+    raise exception 'Not allowed to change the resolution of this issue';
+  end if;
+
+  return new;
+end;
+$$;